@@ -0,0 +1,56 @@
+#!/usr/bin/env ts-node
+
+// cli/fake-github-server.ts
+// Serves the local GitHub REST stand-in so the GitHub flows (smart processor, workflow scripts) run offline
+
+import * as fs from 'fs';
+import { FakeGitHubServer } from '../services/testing/FakeGitHubServer';
+import { log } from '../utils/logger';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const valueOf = (flag: string) => args.includes(flag) ? args[args.indexOf(flag) + 1] : undefined;
+
+  if (args.includes('--help') || args.includes('-h')) {
+    log.info(`
+Usage: pnpm run fake-github [--port <port>] [--repository <owner/repo>] [--blob <file>]...
+
+Starts an in-memory GitHub API for one repository. Point the processors at it with the printed
+environment variables. Every --blob file can be read back as a git blob (pushed PRD content).
+Issues and comments are listed on exit (Ctrl+C).
+`);
+    return;
+  }
+
+  const [owner, repo] = (valueOf('--repository') || 'octo-org/octo-repo').split('/');
+  const server = new FakeGitHubServer({ owner, repo });
+  const baseUrl = await server.start(Number(valueOf('--port') || 0));
+
+  args.forEach((arg, index) => {
+    if (arg === '--blob') {
+      const sha = server.addBlob(fs.readFileSync(args[index + 1], 'utf8'));
+      log.info(`📄 ${args[index + 1]} available as blob ${sha}`);
+    }
+  });
+
+  log.info(`
+export GITHUB_API_URL=${baseUrl}
+export GITHUB_REPOSITORY=${owner}/${repo}
+export GITHUB_TOKEN=fake-token
+`);
+
+  process.on('SIGINT', async () => {
+    for (const issue of server.getIssues()) {
+      log.info(`#${issue.number} [${issue.state}] ${issue.title} (${issue.labels.join(', ')}) - ${server.getComments(issue.number).length} comments`);
+    }
+    await server.stop();
+    process.exit(0);
+  });
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Error starting fake GitHub server:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,68 @@
+#!/usr/bin/env ts-node
+
+// cli/sync-issues.ts
+// Mirrors issues between two issue backends, e.g. a local prototype in .test-issues/ and GitHub
+
+import { IssueSynchronizer, DEFAULT_SYNC_MAPPING_PATH, SyncConflictStrategy } from '../sync/issueSync';
+import { IssueServiceFactory } from '../services/IssueServiceFactory';
+import { log } from '../utils/logger';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const valueFlags = ['--mapping', '--prefer'];
+  const valueOf = (flag: string) => args.includes(flag) ? args[args.indexOf(flag) + 1] : undefined;
+  const positional = args.filter((arg, index) => !arg.startsWith('--') && !valueFlags.includes(args[index - 1]));
+
+  if (args.includes('--help') || args.includes('-h') || positional.length !== 2) {
+    log.info(`
+Usage: pnpm run sync-issues <source> <target> [--mapping <file>] [--one-way] [--full] [--prefer source|target] [--dry-run]
+
+Services: filesystem[:<path>], github, gitlab, jira (configured from the environment)
+
+Mirrors issues, comments, labels, state, milestones and PRD version references between two backends.
+Synced issue numbers are kept in the mapping file (default ${DEFAULT_SYNC_MAPPING_PATH}); later runs only look at
+issues updated since the previous sync (--full looks at all). Issues edited on both sides since the last sync
+are reported as conflicts and left alone, unless --prefer picks the side that wins.
+--one-way only mirrors source changes; target edits are kept and reported as conflicts once the source changes too.
+`);
+    process.exit(positional.length === 2 ? 0 : 1);
+  }
+
+  const prefer = valueOf('--prefer');
+  if (prefer && prefer !== 'source' && prefer !== 'target') {
+    throw new Error(`--prefer must be source or target, not "${prefer}"`);
+  }
+
+  const [sourceSpec, targetSpec] = positional;
+  const synchronizer = new IssueSynchronizer(IssueServiceFactory.createFromSpec(sourceSpec), IssueServiceFactory.createFromSpec(targetSpec), valueOf('--mapping') || DEFAULT_SYNC_MAPPING_PATH, {
+    twoWay: !args.includes('--one-way'),
+    incremental: !args.includes('--full'),
+    conflictStrategy: (prefer as SyncConflictStrategy) || 'skip',
+    dryRun: args.includes('--dry-run'),
+    sourceName: sourceSpec,
+    targetName: targetSpec
+  });
+
+  const result = await synchronizer.sync();
+  log.info(`
+${args.includes('--dry-run') ? 'Would sync' : 'Synced'} ${sourceSpec} <-> ${targetSpec}:
+  created:      ${result.created.map(issue => `${issue.from} #${issue.issueNumber}${issue.mirroredNumber ? ` -> #${issue.mirroredNumber}` : ''}`).join(', ') || 'none'}
+  updated:      ${result.updated.map(issue => `${issue.from} #${issue.issueNumber} -> #${issue.mirroredNumber}`).join(', ') || 'none'}
+  comments:     ${result.mirroredComments}
+  PRD versions: ${result.mirroredPRDVersions}
+  unchanged:    ${result.unchanged}
+  conflicts:    ${result.conflicts.map(conflict => `#${conflict.source} / #${conflict.target}${conflict.resolvedWith ? ` (kept ${conflict.resolvedWith})` : ''}`).join(', ') || 'none'}
+  missing:      ${result.missing.map(missing => `${missing.side} #${missing.issueNumber}`).join(', ') || 'none'}
+`);
+
+  if (result.conflicts.some(conflict => !conflict.resolvedWith)) {
+    process.exitCode = 2;
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Error syncing issues:', error);
+    process.exit(1);
+  });
+}
@@ -4,11 +4,13 @@
 // Local testing script for PRD processing with file-based issue storage
 
 import { SmartPRDProcessor } from '../processors/SmartPRDProcessor';
+import { DEFAULT_AI_CACHE_DIRECTORY, ResponseCache } from '../llm/responseCache';
 import { IssueServiceFactory } from '../services/IssueServiceFactory';
 import { FileSystemIssueService } from '../services/implementations/FileSystemIssueService';
 import { loadConfig } from '../config';
 import { log, setLogLevel } from '../utils/logger';
 import { generateProcessingSummary } from '../utils/summaryGenerator';
+import { renderLinks } from '../utils/issueLinks';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
@@ -26,6 +28,8 @@ USAGE:
 OPTIONS:
   --verbose, -v    Enable verbose/debug logging for detailed operation info
   --debug, -d      Enable debug logging (same as --verbose)
+  --no-cache       Call the AI for every request instead of reusing cached responses
+  --clear-cache    Remove the cached AI responses before starting
   --help, -h       Show this help message
 
 DESCRIPTION:
@@ -36,12 +40,14 @@ FEATURES:
   • Process PRDs with force create or update modes
   • View and manage generated issues
   • Compare PRD versions and diffs
+  • Dry-run processing into reviewable change plans, then apply them
   • Test AI-powered PRD analysis locally
   • Generate operation summaries from logs
 
 EXAMPLES:
   pnpm run test-local                 # Start interactive mode
   pnpm run test-local --verbose       # Start with debug logging
+  pnpm run test-local --clear-cache   # Start with fresh AI responses
   pnpm run test-local --help          # Show this help
 `);
 }
@@ -50,7 +56,9 @@ function parseArguments() {
   const args = process.argv.slice(2);
   const flags = {
     verbose: args.includes('--verbose') || args.includes('-v') || args.includes('--debug') || args.includes('-d'),
-    help: args.includes('--help') || args.includes('-h')
+    help: args.includes('--help') || args.includes('-h'),
+    noCache: args.includes('--no-cache'),
+    clearCache: args.includes('--clear-cache')
   };
 
   if (flags.help) {
@@ -145,7 +153,7 @@ async function main() {
   const getProcessor = () => {
     if (!processor) {
       log.debug('Initializing SmartPRDProcessor...');
-      processor = new SmartPRDProcessor(issueService);
+      processor = new SmartPRDProcessor(issueService, undefined, undefined, undefined, flags.noCache ? null : undefined);
       log.debug('✅ PRD processor created');
     }
     return processor;
@@ -154,19 +162,30 @@ async function main() {
   log.info(`📁 Issue storage: ${path.resolve(issuesPath)}`);
   log.info(`📄 PRD file: ${prdPath}`);
 
+  if (flags.clearCache) {
+    const cache = new ResponseCache(loadConfig().llm?.cacheDirectory || DEFAULT_AI_CACHE_DIRECTORY);
+    log.info(`🧹 Removed ${cache.clear()} cached AI responses from ${cache.directory}`);
+  }
+  if (flags.noCache) {
+    log.info('💾 AI response cache disabled');
+  }
+
   // Display AI provider and masked API key
   log.debug('Loading configuration...');
   const config = loadConfig();
   log.debug('Configuration loaded:', {
     hasOpenAIKey: !!config.openai?.apiKey,
     hasGitHubToken: !!config.github?.token,
-    hasAnthropicKey: !!config.anthropic?.apiKey
+    hasAnthropicKey: !!config.anthropic?.apiKey,
+    llmProvider: config.llm?.provider || 'openai'
   });
 
-  const apiKey = config.openai?.apiKey || '';
-  const maskedKey = apiKey ? `${apiKey.substring(0, 7)}...${apiKey.substring(apiKey.length - 4)}` : 'Not configured';
+  const providerType = config.llm?.provider || 'openai';
+  const apiKey = (providerType === 'anthropic' ? config.anthropic?.apiKey : config.openai?.apiKey) || '';
+  const maskedKey = providerType === 'local' ? 'Not required' :
+    apiKey ? `${apiKey.substring(0, 7)}...${apiKey.substring(apiKey.length - 4)}` : 'Not configured';
 
-  log.info(`🤖 AI Provider: OpenAI (GPT-4o)`);
+  log.info(`🤖 AI Provider: ${providerType}${config.llm?.model ? ` (${config.llm.model})` : ''}`);
   log.info(`🔑 API Key: ${maskedKey}\n`);
 
   if (VERBOSE && apiKey) {
@@ -186,6 +205,8 @@ async function main() {
     console.log('6. View PRD diff for issue');
     console.log('7. Clear all issues');
     console.log('8. Generate processing summary');
+    console.log('9. Dry-run PRD processing (write change plan)');
+    console.log('10. Apply change plan');
     console.log('0. Exit');
 
     const choice = await question('\nYour choice: ');
@@ -249,6 +270,11 @@ async function main() {
           console.log(issue.body);
           console.log('='.repeat(80));
 
+          if (issue.links && issue.links.length > 0) {
+            console.log('\nLinked issues:');
+            console.log(renderLinks(issue.links));
+          }
+
           if (issue.comments && issue.comments.length > 0) {
             log.debug(`Displaying ${issue.comments.length} comments`);
             console.log('\nComments:');
@@ -361,6 +387,35 @@ async function main() {
         }
         break;
 
+      case '9':
+        log.info('\n📝 Creating change plan (dry run)...');
+        log.debug('Starting PRD processing in dry-run mode');
+        try {
+          await getProcessor().processPRD(prdPath, false, { dryRun: true });
+        } catch (error) {
+          log.error('❌ Error creating change plan:', error);
+          if (VERBOSE) {
+            log.debug('Error details:', error);
+            log.debug('Error stack:', (error as Error).stack);
+          }
+        }
+        break;
+
+      case '10':
+        const planFile = await question('Enter path to plan JSON file: ');
+        log.debug('User requested plan application:', planFile);
+        try {
+          await getProcessor().applyPlanFile(planFile.trim());
+          await displayIssues(issueService);
+        } catch (error) {
+          log.error('❌ Error applying change plan:', error);
+          if (VERBOSE) {
+            log.debug('Error details:', error);
+            log.debug('Error stack:', (error as Error).stack);
+          }
+        }
+        break;
+
       case '0':
         log.debug('User chose to exit');
         running = false;
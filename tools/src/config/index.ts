@@ -10,6 +10,35 @@ export interface Config {
   anthropic?: {
     apiKey: string;
   };
+  llm?: {
+    provider?: string;
+    model?: string;
+    localResponsesFile?: string;
+    maxRepairAttempts?: number;
+    maxOutputTokens?: number;
+    maxPromptTokens?: number;
+    maxContinuations?: number;
+    tokenBudget?: number;
+    cacheDirectory?: string;
+  };
+  prd?: {
+    obsoletePolicy?: string;
+    obsoleteMilestone?: string;
+    baseline?: string;
+    stateFile?: string;
+    runJournalDirectory?: string;
+    duplicatePolicy?: string;
+    duplicateThreshold?: number;
+  };
+  retrieval?: {
+    embeddingProvider?: string;
+    embeddingModel?: string;
+    embeddingBaseUrl?: string;
+    indexPath?: string;
+    retrievalThreshold?: number;
+    minRelevance?: number;
+    batchSize?: number;
+  };
 }
 
 export function loadConfig(): Config {
@@ -24,6 +53,35 @@ export function loadConfig(): Config {
     },
     anthropic: {
       apiKey: process.env.ANTHROPIC_API_KEY || ''
+    },
+    llm: {
+      provider: process.env.LLM_PROVIDER || undefined,
+      model: process.env.LLM_MODEL || undefined,
+      localResponsesFile: process.env.LOCAL_LLM_RESPONSES || undefined,
+      maxRepairAttempts: process.env.AI_MAX_REPAIR_ATTEMPTS ? parseInt(process.env.AI_MAX_REPAIR_ATTEMPTS, 10) : undefined,
+      maxOutputTokens: process.env.AI_MAX_OUTPUT_TOKENS ? parseInt(process.env.AI_MAX_OUTPUT_TOKENS, 10) : undefined,
+      maxPromptTokens: process.env.AI_MAX_PROMPT_TOKENS ? parseInt(process.env.AI_MAX_PROMPT_TOKENS, 10) : undefined,
+      maxContinuations: process.env.AI_MAX_CONTINUATIONS ? parseInt(process.env.AI_MAX_CONTINUATIONS, 10) : undefined,
+      tokenBudget: process.env.AI_TOKEN_BUDGET ? parseInt(process.env.AI_TOKEN_BUDGET, 10) : undefined,
+      cacheDirectory: process.env.AI_CACHE_DIR || undefined
+    },
+    prd: {
+      obsoletePolicy: process.env.OBSOLETE_POLICY || undefined,
+      obsoleteMilestone: process.env.OBSOLETE_MILESTONE || undefined,
+      baseline: process.env.PRD_BASELINE || undefined,
+      stateFile: process.env.PRD_STATE_FILE || undefined,
+      runJournalDirectory: process.env.PRD_RUN_JOURNAL_DIR || undefined,
+      duplicatePolicy: process.env.DUPLICATE_POLICY || undefined,
+      duplicateThreshold: process.env.DUPLICATE_THRESHOLD ? parseFloat(process.env.DUPLICATE_THRESHOLD) : undefined
+    },
+    retrieval: {
+      embeddingProvider: process.env.EMBEDDING_PROVIDER || undefined,
+      embeddingModel: process.env.EMBEDDING_MODEL || undefined,
+      embeddingBaseUrl: process.env.EMBEDDING_BASE_URL || undefined,
+      indexPath: process.env.ISSUE_INDEX_PATH || undefined,
+      retrievalThreshold: process.env.PLANNING_RETRIEVAL_THRESHOLD ? parseInt(process.env.PLANNING_RETRIEVAL_THRESHOLD, 10) : undefined,
+      minRelevance: process.env.PLANNING_MIN_RELEVANCE ? parseFloat(process.env.PLANNING_MIN_RELEVANCE) : undefined,
+      batchSize: process.env.PLANNING_BATCH_SIZE ? parseInt(process.env.PLANNING_BATCH_SIZE, 10) : undefined
     }
   };
-}
\ No newline at end of file
+}
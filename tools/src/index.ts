@@ -3,10 +3,17 @@
 export * from './services';
 export * from './processors';
 export * from './config';
+export * from './llm';
+export * from './plans';
+export * from './prd';
+export * from './retrieval';
 
 // Re-export commonly used classes for convenience
 export { SmartPRDProcessor } from './processors/SmartPRDProcessor';
 export { FileSystemIssueService } from './services/implementations/FileSystemIssueService';
 export { GitHubIssueService } from './services/implementations/GitHubIssueService';
 export { IssueServiceFactory } from './services/IssueServiceFactory';
-export type { IIssueService, Issue, IssueData } from './services/interfaces/IIssueService';
\ No newline at end of file
+export { LLMProviderFactory } from './llm/LLMProviderFactory';
+export type { IIssueService, Issue, IssueData } from './services/interfaces/IIssueService';
+export type { ILLMProvider } from './llm/interfaces/ILLMProvider';
+export * from './sync';
\ No newline at end of file
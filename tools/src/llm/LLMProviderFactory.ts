@@ -0,0 +1,110 @@
+// llm/LLMProviderFactory.ts
+
+import { ILLMProvider } from './interfaces/ILLMProvider';
+import { IEmbeddingProvider } from './interfaces/IEmbeddingProvider';
+import { OpenAILLMProvider } from './implementations/OpenAILLMProvider';
+import { AnthropicLLMProvider } from './implementations/AnthropicLLMProvider';
+import { LocalLLMProvider } from './implementations/LocalLLMProvider';
+import { OpenAIEmbeddingProvider } from './implementations/OpenAIEmbeddingProvider';
+import { loadConfig } from '../config';
+
+export type LLMProviderType = 'openai' | 'anthropic' | 'local';
+/** `tfidf` uses no embedding provider: issue retrieval falls back to TF-IDF */
+export type EmbeddingProviderType = 'openai' | 'tfidf';
+
+export interface LLMProviderConfig {
+  apiKey?: string;
+  model?: string;
+  responsesFile?: string;
+}
+
+export class LLMProviderFactory {
+  static create(type: LLMProviderType, config?: LLMProviderConfig): ILLMProvider {
+    switch (type) {
+      case 'openai':
+        if (!config?.apiKey) {
+          throw new Error('OpenAI provider requires apiKey in config');
+        }
+        return new OpenAILLMProvider({
+          apiKey: config.apiKey,
+          model: config.model
+        });
+
+      case 'anthropic':
+        if (!config?.apiKey) {
+          throw new Error('Anthropic provider requires apiKey in config');
+        }
+        return new AnthropicLLMProvider({
+          apiKey: config.apiKey,
+          model: config.model
+        });
+
+      case 'local':
+        return new LocalLLMProvider({
+          model: config?.model,
+          responsesFile: config?.responsesFile
+        });
+
+      default:
+        throw new Error(`Unknown LLM provider type: ${type}`);
+    }
+  }
+
+  /**
+   * Create the provider selected by LLM_PROVIDER (falling back to the given default)
+   */
+  static createFromEnv(defaultType: LLMProviderType = 'openai'): ILLMProvider {
+    const config = loadConfig();
+    const providerType = (config.llm?.provider || defaultType) as LLMProviderType;
+
+    switch (providerType) {
+      case 'openai':
+        return LLMProviderFactory.create('openai', {
+          apiKey: config.openai?.apiKey,
+          model: config.llm?.model
+        });
+
+      case 'anthropic':
+        return LLMProviderFactory.create('anthropic', {
+          apiKey: config.anthropic?.apiKey,
+          model: config.llm?.model
+        });
+
+      case 'local':
+        return LLMProviderFactory.create('local', {
+          model: config.llm?.model,
+          responsesFile: config.llm?.localResponsesFile
+        });
+
+      default:
+        throw new Error(`Unknown LLM provider type from env: ${providerType}`);
+    }
+  }
+
+  /**
+   * Create the embedding provider selected by EMBEDDING_PROVIDER; null for TF-IDF (the default).
+   * EMBEDDING_BASE_URL points the openai provider at a local OpenAI-compatible server.
+   */
+  static createEmbeddingProviderFromEnv(): IEmbeddingProvider | null {
+    const config = loadConfig();
+    const providerType = (config.retrieval?.embeddingProvider || 'tfidf') as EmbeddingProviderType;
+
+    switch (providerType) {
+      case 'openai':
+        if (!config.openai?.apiKey && !config.retrieval?.embeddingBaseUrl) {
+          throw new Error('OpenAI embeddings require OPENAI_API_KEY, or EMBEDDING_BASE_URL for a local server');
+        }
+        return new OpenAIEmbeddingProvider({
+          apiKey: config.openai?.apiKey,
+          model: config.retrieval?.embeddingModel,
+          baseUrl: config.retrieval?.embeddingBaseUrl
+        });
+
+      case 'tfidf':
+        return null;
+
+      default:
+        throw new Error(`Unknown embedding provider type from env: ${providerType}`);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+// llm/AnthropicLLMProvider.ts
+
+import { Anthropic } from '@anthropic-ai/sdk';
+import { ILLMProvider, LLMCompletionRequest, LLMCompletionResponse } from '../interfaces/ILLMProvider';
+import { getModelTokenLimits } from '../tokenBudget';
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-sonnet-20241022';
+
+export class AnthropicLLMProvider implements ILLMProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private anthropic: Anthropic;
+
+  constructor(config: { apiKey: string; model?: string }) {
+    this.anthropic = new Anthropic({
+      apiKey: config.apiKey
+    });
+    this.model = config.model || DEFAULT_ANTHROPIC_MODEL;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    // Anthropic takes the system prompt separately from the conversation
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const messages = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role as 'user' | 'assistant',
+        content: message.content
+      }));
+
+    const response = await this.anthropic.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens ?? getModelTokenLimits(this.model).maxOutputTokens,
+      temperature: request.temperature,
+      system: system || undefined,
+      messages
+    });
+
+    const content = response.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('');
+
+    return {
+      content,
+      model: response.model || this.model,
+      finishReason: response.stop_reason === 'end_turn' || response.stop_reason === 'stop_sequence' ? 'stop' :
+        response.stop_reason === 'max_tokens' ? 'length' : 'other',
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens
+      }
+    };
+  }
+}
@@ -0,0 +1,86 @@
+// llm/LocalLLMProvider.ts
+
+import * as fs from 'fs';
+import { ILLMProvider, LLMCompletionRequest, LLMCompletionResponse } from '../interfaces/ILLMProvider';
+
+export type LocalResponder = (request: LLMCompletionRequest) => string | object;
+
+export interface LocalLLMConfig {
+  model?: string;
+  responses?: Array<string | object>;
+  responsesFile?: string;
+  responder?: LocalResponder;
+  defaultResponse?: string | object;
+}
+
+/**
+ * Deterministic provider for offline runs and tests.
+ * Answers with queued canned responses first, then the responder, then the default response.
+ */
+export class LocalLLMProvider implements ILLMProvider {
+  readonly name = 'local';
+  readonly model: string;
+  private responses: string[] = [];
+  private responder?: LocalResponder;
+  private defaultResponse: string;
+  private requests: LLMCompletionRequest[] = [];
+
+  constructor(config: LocalLLMConfig = {}) {
+    this.model = config.model || 'local-fake';
+    this.responder = config.responder;
+    this.defaultResponse = this.toText(config.defaultResponse ?? '{}');
+
+    if (config.responsesFile) {
+      const canned = JSON.parse(fs.readFileSync(config.responsesFile, 'utf8'));
+      if (!Array.isArray(canned)) {
+        throw new Error(`Local LLM responses file must contain a JSON array: ${config.responsesFile}`);
+      }
+      this.enqueue(...canned);
+    }
+
+    if (config.responses) {
+      this.enqueue(...config.responses);
+    }
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    this.requests.push(request);
+
+    let content: string;
+    if (this.responses.length > 0) {
+      content = this.responses.shift()!;
+    } else if (this.responder) {
+      content = this.toText(this.responder(request));
+    } else {
+      content = this.defaultResponse;
+    }
+
+    const promptTokens = Math.ceil(request.messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      model: this.model,
+      finishReason: 'stop',
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    };
+  }
+
+  // Helper method for testing - not part of interface
+  enqueue(...responses: Array<string | object>): void {
+    this.responses.push(...responses.map(response => this.toText(response)));
+  }
+
+  // Helper method for testing - not part of interface
+  getRequests(): LLMCompletionRequest[] {
+    return [...this.requests];
+  }
+
+  private toText(response: string | object): string {
+    return typeof response === 'string' ? response : JSON.stringify(response, null, 2);
+  }
+}
@@ -0,0 +1,35 @@
+// llm/OpenAIEmbeddingProvider.ts
+
+import OpenAI from 'openai';
+import { IEmbeddingProvider } from '../interfaces/IEmbeddingProvider';
+
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+/**
+ * Embeddings from OpenAI or any server with an OpenAI-compatible `/embeddings` endpoint
+ * (e.g. Ollama at http://localhost:11434/v1), which keeps indexing offline
+ */
+export class OpenAIEmbeddingProvider implements IEmbeddingProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private openai: OpenAI;
+
+  constructor(config: { apiKey?: string; model?: string; baseUrl?: string }) {
+    this.openai = new OpenAI({
+      // Local servers ignore the key, but the client requires one
+      apiKey: config.apiKey || 'local',
+      baseURL: config.baseUrl
+    });
+    this.model = config.model || DEFAULT_OPENAI_EMBEDDING_MODEL;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    const response = await this.openai.embeddings.create({ model: this.model, input: texts });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
@@ -0,0 +1,43 @@
+// llm/OpenAILLMProvider.ts
+
+import OpenAI from 'openai';
+import { ILLMProvider, LLMCompletionRequest, LLMCompletionResponse } from '../interfaces/ILLMProvider';
+import { getModelTokenLimits } from '../tokenBudget';
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o';
+
+export class OpenAILLMProvider implements ILLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private openai: OpenAI;
+
+  constructor(config: { apiKey: string; model?: string }) {
+    this.openai = new OpenAI({
+      apiKey: config.apiKey
+    });
+    this.model = config.model || DEFAULT_OPENAI_MODEL;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const response = await this.openai.chat.completions.create({
+      model: this.model,
+      max_tokens: request.maxTokens ?? getModelTokenLimits(this.model).maxOutputTokens,
+      temperature: request.temperature,
+      messages: request.messages
+    });
+
+    const choice = response.choices[0];
+
+    return {
+      content: choice?.message?.content || '',
+      model: response.model || this.model,
+      finishReason: choice?.finish_reason === 'stop' ? 'stop' :
+        choice?.finish_reason === 'length' ? 'length' : 'other',
+      usage: response.usage ? {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens
+      } : undefined
+    };
+  }
+}
@@ -0,0 +1,5 @@
+// llm/implementations/index.ts
+export * from './OpenAILLMProvider';
+export * from './AnthropicLLMProvider';
+export * from './LocalLLMProvider';
+export * from './OpenAIEmbeddingProvider';
@@ -0,0 +1,7 @@
+// llm/index.ts
+export * from './interfaces';
+export * from './implementations';
+export * from './LLMProviderFactory';
+export * from './structuredCompletion';
+export * from './tokenBudget';
+export * from './responseCache';
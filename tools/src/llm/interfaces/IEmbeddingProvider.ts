@@ -0,0 +1,18 @@
+// llm/IEmbeddingProvider.ts
+
+export interface IEmbeddingProvider {
+  /**
+   * Provider name (e.g. 'openai')
+   */
+  readonly name: string;
+
+  /**
+   * Embedding model; vectors of different models are never compared
+   */
+  readonly model: string;
+
+  /**
+   * Embed texts, returning one vector per text in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
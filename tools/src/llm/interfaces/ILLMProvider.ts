@@ -0,0 +1,44 @@
+// llm/ILLMProvider.ts
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletionResponse {
+  content: string;
+  model: string;
+  finishReason: 'stop' | 'length' | 'other';
+  usage?: LLMUsage;
+}
+
+export interface ILLMProvider {
+  /**
+   * Provider name (e.g. 'openai', 'anthropic', 'local')
+   */
+  readonly name: string;
+
+  /**
+   * Model used for completions
+   */
+  readonly model: string;
+
+  /**
+   * Send a chat completion request and return the generated text
+   */
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>;
+}
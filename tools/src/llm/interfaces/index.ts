@@ -0,0 +1,3 @@
+// llm/interfaces/index.ts
+export * from './ILLMProvider';
+export * from './IEmbeddingProvider';
@@ -0,0 +1,48 @@
+// llm/responseCache.test.ts
+
+import { test, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CachedRequest, ResponseCache } from './responseCache';
+
+const REQUEST: CachedRequest = { prompt: 'Plan the changes.', userContent: '# Auth PRD', model: 'gpt-4o', temperature: 0 };
+
+let cache: ResponseCache;
+
+beforeEach(() => {
+  cache = new ResponseCache(path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'response-cache-')), 'cache'));
+});
+
+test('returns the stored response for the same request', () => {
+  assert.equal(cache.get(REQUEST), null);
+
+  cache.set(REQUEST, '{"newFeatures":[]}');
+
+  assert.equal(cache.get({ ...REQUEST })?.content, '{"newFeatures":[]}');
+  assert.equal(cache.get(REQUEST)?.key, ResponseCache.keyOf(REQUEST));
+});
+
+test('keys responses by prompt, content, model and temperature', () => {
+  const keys = [
+    REQUEST,
+    { ...REQUEST, prompt: 'Plan the changes!' },
+    { ...REQUEST, userContent: '# Auth PRD v2' },
+    { ...REQUEST, model: 'gpt-4o-mini' },
+    { ...REQUEST, temperature: undefined }
+  ].map(ResponseCache.keyOf);
+
+  assert.equal(new Set(keys).size, keys.length);
+});
+
+test('ignores unreadable entries and clears all entries', () => {
+  cache.set(REQUEST, 'First');
+  cache.set({ ...REQUEST, model: 'gpt-4o-mini' }, 'Second');
+  fs.writeFileSync(path.join(cache.directory, `${ResponseCache.keyOf(REQUEST)}.json`), '{');
+
+  assert.equal(cache.get(REQUEST), null);
+  assert.equal(cache.clear(), 2);
+  assert.deepEqual(fs.readdirSync(cache.directory), []);
+  assert.equal(new ResponseCache(path.join(cache.directory, 'missing')).clear(), 0);
+});
@@ -0,0 +1,95 @@
+// llm/responseCache.ts
+// On-disk cache of AI responses, addressed by the hashes of everything that shapes a response.
+// Re-running an unchanged PRD answers from the cache, so runs are reproducible and cost nothing.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { generateContentHash } from '../utils/hash';
+import { createModuleLogger } from '../utils/logger';
+
+const logger = createModuleLogger('ResponseCache');
+
+export const DEFAULT_AI_CACHE_DIRECTORY = '.ai-cache';
+
+export interface CachedRequest {
+  /** System prompt, i.e. the content of the prompt file */
+  prompt: string;
+  userContent: string;
+  model: string;
+  temperature?: number;
+}
+
+export interface CachedResponse {
+  key: string;
+  model: string;
+  temperature: number | null;
+  promptHash: string;
+  userContentHash: string;
+  createdAt: string;
+  /** Raw model response that passed validation */
+  content: string;
+}
+
+export class ResponseCache {
+  constructor(readonly directory: string = DEFAULT_AI_CACHE_DIRECTORY) {}
+
+  static keyOf(request: CachedRequest): string {
+    return generateContentHash(JSON.stringify([
+      generateContentHash(request.prompt),
+      generateContentHash(request.userContent),
+      request.model,
+      request.temperature ?? null
+    ]));
+  }
+
+  get(request: CachedRequest): CachedResponse | null {
+    const entryPath = this.entryPath(ResponseCache.keyOf(request));
+    if (!fs.existsSync(entryPath)) {
+      return null;
+    }
+
+    try {
+      const entry = JSON.parse(fs.readFileSync(entryPath, 'utf8')) as CachedResponse;
+      return typeof entry.content === 'string' ? entry : null;
+    } catch (error) {
+      logger.warn(`⚠️ Ignoring unreadable cached AI response ${entryPath}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  set(request: CachedRequest, content: string): void {
+    const key = ResponseCache.keyOf(request);
+    const entry: CachedResponse = {
+      key,
+      model: request.model,
+      temperature: request.temperature ?? null,
+      promptHash: generateContentHash(request.prompt),
+      userContentHash: generateContentHash(request.userContent),
+      createdAt: new Date().toISOString(),
+      content
+    };
+
+    // Write-then-rename, so an interrupted run never leaves a truncated entry behind
+    fs.mkdirSync(this.directory, { recursive: true });
+    const entryPath = this.entryPath(key);
+    fs.writeFileSync(`${entryPath}.tmp`, JSON.stringify(entry, null, 2));
+    fs.renameSync(`${entryPath}.tmp`, entryPath);
+  }
+
+  /**
+   * Remove all cached responses
+   * @returns Number of entries removed
+   */
+  clear(): number {
+    if (!fs.existsSync(this.directory)) {
+      return 0;
+    }
+    const entries = fs.readdirSync(this.directory).filter(name => name.endsWith('.json'));
+    entries.forEach(name => fs.unlinkSync(path.join(this.directory, name)));
+    return entries.length;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
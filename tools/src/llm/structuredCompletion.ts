@@ -0,0 +1,166 @@
+// llm/structuredCompletion.ts
+
+import { z } from 'zod';
+import { ILLMProvider, LLMCompletionResponse, LLMMessage } from './interfaces/ILLMProvider';
+import { TokenBudget, estimateMessageTokens, estimateTokens } from './tokenBudget';
+
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+export const DEFAULT_MAX_CONTINUATIONS = 2;
+
+export class AIResponseValidationError extends Error {
+  constructor(message: string, public readonly issues: string[], public readonly rawResponse: string) {
+    super(message);
+    this.name = 'AIResponseValidationError';
+  }
+}
+
+export interface StructuredCompletionRequest<T> {
+  messages: LLMMessage[];
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  maxTokens?: number;
+  temperature?: number;
+  maxRepairAttempts?: number;
+  /** Follow-up requests allowed when a response stops at the output token limit */
+  maxContinuations?: number;
+  /** Run budget every request is checked against and charged to */
+  budget?: TokenBudget;
+  onResponse?: (response: LLMCompletionResponse, attempt: number) => void;
+  onValidationFailure?: (issues: string[], attempt: number) => void;
+}
+
+export interface StructuredCompletionResult<T> {
+  data: T;
+  response: LLMCompletionResponse;
+  attempts: number;
+}
+
+/**
+ * Extract the first JSON document from a model response (fenced ```json block or bare object)
+ */
+export function extractJSON(content: string): unknown {
+  const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/) ||
+                    content.match(/({[\s\S]*})/);
+  if (!jsonMatch) {
+    throw new AIResponseValidationError('No valid JSON found in AI response', ['Response did not contain a JSON object'], content);
+  }
+
+  try {
+    return JSON.parse(jsonMatch[1]);
+  } catch (error) {
+    throw new AIResponseValidationError('Failed to parse JSON from AI response', [`Invalid JSON: ${(error as Error).message}`], content);
+  }
+}
+
+export function formatSchemaIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const location = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    return `${location}: ${issue.message}`;
+  });
+}
+
+/**
+ * Parse and validate a model response against a schema
+ */
+export function parseStructuredResponse<T>(content: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  const json = extractJSON(content);
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    throw new AIResponseValidationError('AI response does not match the expected schema', formatSchemaIssues(result.error), content);
+  }
+  return result.data;
+}
+
+function buildRepairMessage(issues: string[]): string {
+  return `Your previous response could not be used because it failed validation:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Respond again with the complete corrected JSON document only, in the exact structure requested. Do not omit any required fields.`;
+}
+
+const CONTINUATION_MESSAGE = 'Your response was cut off at the output token limit. Continue exactly where it stopped, without repeating anything and without any introduction.';
+
+/**
+ * Request a completion; a response cut off at the output token limit is continued in follow-up
+ * requests and the parts are joined
+ */
+async function completeWithContinuation<T>(
+  provider: ILLMProvider,
+  request: StructuredCompletionRequest<T>,
+  messages: LLMMessage[],
+  attempt: number
+): Promise<LLMCompletionResponse> {
+  const maxContinuations = request.maxContinuations ?? DEFAULT_MAX_CONTINUATIONS;
+  let content = '';
+  let conversation = messages;
+
+  for (let continuation = 0; ; continuation++) {
+    const promptTokens = estimateMessageTokens(conversation, provider.model);
+    request.budget?.ensureAvailable(promptTokens, 'the next AI request');
+    const response = await provider.complete({
+      messages: conversation,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature
+    });
+    const completionTokens = estimateTokens(response.content, provider.model);
+    request.budget?.record(response.usage || { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens });
+    request.onResponse?.(response, attempt);
+
+    // Models tend to reopen the code fence when continuing
+    content += content.includes('```') ? response.content.replace(/^\s*```(?:json)?\s*\n/, '') : response.content;
+    if (response.finishReason !== 'length') {
+      return { ...response, content };
+    }
+
+    if (continuation >= maxContinuations) {
+      throw new AIResponseValidationError(
+        `AI response exceeded the output token limit after ${maxContinuations} continuations`,
+        ['Response was cut off at the output token limit'],
+        content
+      );
+    }
+    conversation = [
+      ...messages,
+      { role: 'assistant', content },
+      { role: 'user', content: CONTINUATION_MESSAGE }
+    ];
+  }
+}
+
+/**
+ * Request a completion and validate it against a schema.
+ * Validation errors are fed back to the model in a bounded repair loop.
+ */
+export async function completeStructured<T>(
+  provider: ILLMProvider,
+  request: StructuredCompletionRequest<T>
+): Promise<StructuredCompletionResult<T>> {
+  const maxRepairAttempts = request.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+  const messages: LLMMessage[] = [...request.messages];
+  let lastError: AIResponseValidationError | null = null;
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    const response = await completeWithContinuation(provider, request, messages, attempt);
+
+    try {
+      const data = parseStructuredResponse(response.content, request.schema);
+      return { data, response, attempts: attempt + 1 };
+    } catch (error) {
+      if (!(error instanceof AIResponseValidationError)) {
+        throw error;
+      }
+      lastError = error;
+      request.onValidationFailure?.(error.issues, attempt);
+
+      messages.push(
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: buildRepairMessage(error.issues) }
+      );
+    }
+  }
+
+  throw new AIResponseValidationError(
+    `AI response failed validation after ${maxRepairAttempts + 1} attempts`,
+    lastError?.issues || [],
+    lastError?.rawResponse || ''
+  );
+}
@@ -0,0 +1,60 @@
+// llm/tokenBudget.test.ts
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { TokenBudget, TokenBudgetExceededError, estimateTokens, fitPromptSections, getModelTokenLimits } from './tokenBudget';
+
+const MODEL = 'gpt-4o';
+
+const lines = (prefix: string, count: number) =>
+  Array.from({ length: count }, (_, index) => `${prefix} line ${index + 1} with some words`).join('\n');
+
+test('looks up model limits by the longest matching prefix', () => {
+  assert.equal(getModelTokenLimits('gpt-4o-2024-08-06').contextWindow, 128000);
+  assert.equal(getModelTokenLimits('gpt-4-0613').contextWindow, 8192);
+  assert.equal(getModelTokenLimits('claude-3-5-sonnet-latest').maxOutputTokens, 8192);
+  assert.equal(getModelTokenLimits('llama3').contextWindow, 8192);
+  assert.ok(estimateTokens('x'.repeat(400), MODEL) >= 110);
+});
+
+test('throws before a request the budget cannot cover', () => {
+  const budget = new TokenBudget(1000);
+  budget.record({ promptTokens: 700, completionTokens: 100, totalTokens: 800 });
+
+  assert.equal(budget.remaining, 200);
+  budget.ensureAvailable(200, 'Planning');
+  assert.throws(() => budget.ensureAvailable(201, 'Planning'), (error: unknown) =>
+    error instanceof TokenBudgetExceededError && error.used === 800 && error.limit === 1000);
+  assert.equal(new TokenBudget().remaining, Infinity);
+  assert.throws(() => new TokenBudget(0), /must be positive/);
+});
+
+test('leaves prompts that fit unchanged', () => {
+  const fitted = fitPromptSections([
+    { heading: 'PRD', content: 'Users log in.', priority: 'required' },
+    { heading: 'Issues', content: '', priority: 'low' }
+  ], 1000, MODEL);
+
+  assert.equal(fitted.content, '## PRD:\nUsers log in.');
+  assert.deepEqual(fitted.trimmedSections, []);
+});
+
+test('compacts and truncates low-priority sections before high-priority ones', () => {
+  const sections = [
+    { heading: 'PRD', content: lines('PRD', 20), priority: 'required' as const },
+    { heading: 'Diff', content: lines('Diff', 20), priority: 'high' as const },
+    { heading: 'Issues', content: lines('Issue', 200), compact: lines('Issue', 100), priority: 'low' as const }
+  ];
+
+  const fitted = fitPromptSections(sections, 800, MODEL);
+
+  assert.ok(fitted.estimatedTokens <= 800);
+  assert.deepEqual(fitted.trimmedSections, ['Issues']);
+  assert.match(fitted.content, /## Diff:\n(Diff line \d+ with some words\n){19}Diff line 20 with some words/);
+  assert.match(fitted.content, /\[\.\.\. \d+ more lines omitted to fit the prompt size limit\]$/);
+});
+
+test('never cuts required sections', () => {
+  assert.throws(() => fitPromptSections([{ heading: 'PRD', content: lines('PRD', 200), priority: 'required' }], 100, MODEL),
+    /after trimming optional context/);
+});
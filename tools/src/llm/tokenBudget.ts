@@ -0,0 +1,197 @@
+// llm/tokenBudget.ts
+// Token estimates and limits per model, so prompts are sized before they are sent instead of
+// failing at the provider or coming back as truncated JSON.
+
+import { LLMMessage, LLMUsage } from './interfaces/ILLMProvider';
+
+export interface ModelTokenLimits {
+  contextWindow: number;
+  maxOutputTokens: number;
+  /** Average characters per token of English prose and JSON for the model's tokenizer */
+  charsPerToken: number;
+}
+
+// Matched by model name prefix, longest first; dated snapshots share the limits of their family
+const MODEL_TOKEN_LIMITS: Array<[string, ModelTokenLimits]> = [
+  ['gpt-4o', { contextWindow: 128000, maxOutputTokens: 16384, charsPerToken: 4 }],
+  ['gpt-4.1', { contextWindow: 1047576, maxOutputTokens: 32768, charsPerToken: 4 }],
+  ['gpt-4-turbo', { contextWindow: 128000, maxOutputTokens: 4096, charsPerToken: 4 }],
+  ['gpt-4', { contextWindow: 8192, maxOutputTokens: 4096, charsPerToken: 4 }],
+  ['gpt-3.5-turbo', { contextWindow: 16385, maxOutputTokens: 4096, charsPerToken: 4 }],
+  ['claude-sonnet-4', { contextWindow: 200000, maxOutputTokens: 64000, charsPerToken: 3.5 }],
+  ['claude-opus-4', { contextWindow: 200000, maxOutputTokens: 32000, charsPerToken: 3.5 }],
+  ['claude-3-7', { contextWindow: 200000, maxOutputTokens: 64000, charsPerToken: 3.5 }],
+  ['claude-3-5', { contextWindow: 200000, maxOutputTokens: 8192, charsPerToken: 3.5 }],
+  ['claude-3', { contextWindow: 200000, maxOutputTokens: 4096, charsPerToken: 3.5 }]
+];
+
+// Unknown models (e.g. served locally) are assumed to be small
+const DEFAULT_TOKEN_LIMITS: ModelTokenLimits = { contextWindow: 8192, maxOutputTokens: 4096, charsPerToken: 4 };
+
+// Role markers and separators added by the chat format
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function getModelTokenLimits(model: string): ModelTokenLimits {
+  const match = MODEL_TOKEN_LIMITS
+    .filter(([prefix]) => model.startsWith(prefix))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+  return match ? match[1] : DEFAULT_TOKEN_LIMITS;
+}
+
+/**
+ * Estimated token count of a text. Rounded up by 10%, as estimates without the tokenizer are rough.
+ */
+export function estimateTokens(text: string, model: string): number {
+  return Math.ceil(text.length / getModelTokenLimits(model).charsPerToken * 1.1);
+}
+
+export function estimateMessageTokens(messages: LLMMessage[], model: string): number {
+  return messages.reduce((total, message) => total + MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content, model), 0);
+}
+
+export class TokenBudgetExceededError extends Error {
+  constructor(message: string, public readonly used: number, public readonly limit: number) {
+    super(message);
+    this.name = 'TokenBudgetExceededError';
+  }
+}
+
+/**
+ * Tokens spent by the AI calls of one run, optionally capped
+ */
+export class TokenBudget {
+  private usedTokens = 0;
+
+  /**
+   * @param limit Maximum tokens (prompt and completion) of a run; null is unlimited
+   */
+  constructor(readonly limit: number | null = null) {
+    if (limit !== null && !(limit > 0)) {
+      throw new Error(`Token budget must be positive, not ${limit}`);
+    }
+  }
+
+  get used(): number {
+    return this.usedTokens;
+  }
+
+  get remaining(): number {
+    return this.limit === null ? Infinity : Math.max(0, this.limit - this.usedTokens);
+  }
+
+  /**
+   * Throw before a request whose prompt alone would exceed what is left of the budget
+   */
+  ensureAvailable(promptTokens: number, purpose: string): void {
+    if (this.limit !== null && promptTokens > this.remaining) {
+      throw new TokenBudgetExceededError(
+        `Token budget exhausted: ${purpose} needs about ${promptTokens} tokens, but only ${this.remaining} of the run's ${this.limit} are left`,
+        this.usedTokens,
+        this.limit
+      );
+    }
+  }
+
+  record(usage: LLMUsage): void {
+    this.usedTokens += usage.totalTokens;
+  }
+
+  reset(): void {
+    this.usedTokens = 0;
+  }
+}
+
+/**
+ * Part of a prompt. When the prompt does not fit, low-priority sections are shortened first, then
+ * sections are replaced with their compact form, then high-priority sections are cut off with a note
+ * of what was left out. Required sections are never cut.
+ */
+export interface PromptSection {
+  heading?: string;
+  content: string;
+  priority: 'required' | 'high' | 'low';
+  /** Shorter rendering of the same content, e.g. issue bodies cut to their first lines */
+  compact?: string;
+}
+
+type TrimStep = { priority: PromptSection['priority']; trim: 'compact' | 'truncate' };
+
+const TRIM_STEPS: TrimStep[] = [
+  { priority: 'low', trim: 'compact' },
+  { priority: 'low', trim: 'truncate' },
+  { priority: 'high', trim: 'compact' },
+  { priority: 'required', trim: 'compact' },
+  { priority: 'high', trim: 'truncate' }
+];
+
+export interface FittedPrompt {
+  content: string;
+  estimatedTokens: number;
+  /** Headings of the sections that were shortened */
+  trimmedSections: string[];
+}
+
+function renderSection(section: PromptSection): string {
+  return section.heading ? `## ${section.heading}:\n${section.content}` : section.content;
+}
+
+function renderSections(sections: PromptSection[]): string {
+  return sections.filter(section => section.content.trim()).map(renderSection).join('\n\n');
+}
+
+/**
+ * Cut a text at a line boundary to about the given number of tokens
+ */
+function truncateToTokens(text: string, tokens: number, model: string): string {
+  const lines = text.split('\n');
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    used += estimateTokens(`${line}\n`, model);
+    if (used > tokens) {
+      break;
+    }
+    kept.push(line);
+  }
+  const omitted = lines.length - kept.length;
+  return omitted > 0 ? [...kept, `[... ${omitted} more lines omitted to fit the prompt size limit]`].join('\n') : text;
+}
+
+/**
+ * Render prompt sections within a token limit, shortening low-priority context first
+ */
+export function fitPromptSections(sections: PromptSection[], maxTokens: number, model: string): FittedPrompt {
+  const fitted = sections.map(section => ({ ...section }));
+  const trimmedSections = new Set<string>();
+  const total = () => estimateTokens(renderSections(fitted), model);
+
+  for (const step of TRIM_STEPS) {
+    // Later sections are usually less important than the ones before them
+    for (const section of [...fitted].reverse().filter(candidate => candidate.priority === step.priority && candidate.content.trim())) {
+      const excess = total() - maxTokens;
+      if (excess <= 0) {
+        break;
+      }
+
+      if (step.trim === 'compact') {
+        if (section.compact !== undefined && section.compact.length < section.content.length) {
+          section.content = section.compact;
+          trimmedSections.add(section.heading || '(untitled)');
+        }
+      } else {
+        const truncated = truncateToTokens(section.content, Math.max(0, estimateTokens(section.content, model) - excess), model);
+        if (truncated !== section.content) {
+          section.content = truncated;
+          trimmedSections.add(section.heading || '(untitled)');
+        }
+      }
+    }
+  }
+
+  const content = renderSections(fitted);
+  const estimatedTokens = estimateTokens(content, model);
+  if (estimatedTokens > maxTokens) {
+    throw new Error(`Prompt needs about ${estimatedTokens} tokens after trimming optional context, but only ${Math.max(0, maxTokens)} are available`);
+  }
+  return { content, estimatedTokens, trimmedSections: Array.from(trimmedSections) };
+}
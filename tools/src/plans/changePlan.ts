@@ -0,0 +1,116 @@
+// plans/changePlan.ts
+// Serializable change plans produced by dry runs and executed later by `apply`.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { Issue } from '../services/interfaces/IIssueService';
+import { UnifiedPlanResultSchema } from '../processors/schemas';
+import { formatSchemaIssues } from '../llm/structuredCompletion';
+import { generateContentHash } from '../utils/hash';
+import { renderChangePlanMarkdown } from './planMarkdown';
+import { resolvePRDId } from '../prd/prdId';
+
+export const CHANGE_PLAN_FORMAT_VERSION = 1;
+
+export const IssueSnapshotSchema = z.object({
+  number: z.number().int().positive(),
+  title: z.string(),
+  body: z.string(),
+  labels: z.array(z.string()),
+  state: z.enum(['open', 'closed']),
+  updated_at: z.string()
+});
+
+export const ChangePlanSchema = z.object({
+  formatVersion: z.literal(CHANGE_PLAN_FORMAT_VERSION),
+  createdAt: z.string(),
+  mode: z.enum(['create', 'update']),
+  prdPath: z.string(),
+  /** Absent in plans written before PRD ids existed */
+  prdId: z.string().optional(),
+  prdHash: z.string(),
+  prdContent: z.string(),
+  /** Set on plans replayed from a recorded PRD version; those are for investigation and never applied */
+  replayOf: z.object({ version: z.number().int().positive(), hash: z.string() }).optional(),
+  issueSnapshots: z.array(IssueSnapshotSchema),
+  plan: UnifiedPlanResultSchema
+});
+
+export type IssueSnapshot = z.infer<typeof IssueSnapshotSchema>;
+export type ChangePlan = z.infer<typeof ChangePlanSchema>;
+
+export function createIssueSnapshot(issue: Issue): IssueSnapshot {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    labels: issue.labels,
+    state: issue.state,
+    updated_at: issue.updated_at
+  };
+}
+
+export function createChangePlan(
+  mode: ChangePlan['mode'],
+  prdPath: string,
+  prdContent: string,
+  issues: Issue[],
+  plan: ChangePlan['plan']
+): ChangePlan {
+  return {
+    formatVersion: CHANGE_PLAN_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    mode,
+    prdPath,
+    prdId: resolvePRDId(prdPath, prdContent),
+    prdHash: generateContentHash(prdContent),
+    prdContent,
+    issueSnapshots: issues.map(createIssueSnapshot),
+    plan
+  };
+}
+
+/**
+ * Default location for a plan: prd-plans/<prd-name>-<timestamp>
+ */
+export function defaultChangePlanPath(prdPath: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const prdName = path.basename(prdPath, path.extname(prdPath));
+  return path.join(process.cwd(), 'prd-plans', `${prdName}-${timestamp}`);
+}
+
+/**
+ * Write the plan as JSON (machine-readable, used by apply) and Markdown (for review)
+ * @returns Paths of the written files
+ */
+export function writeChangePlan(plan: ChangePlan, basePath: string): { jsonPath: string; markdownPath: string } {
+  const base = basePath.replace(/\.(json|md)$/, '');
+  const jsonPath = `${base}.json`;
+  const markdownPath = `${base}.md`;
+
+  fs.mkdirSync(path.dirname(jsonPath), { recursive: true });
+  fs.writeFileSync(jsonPath, JSON.stringify(plan, null, 2));
+  fs.writeFileSync(markdownPath, renderChangePlanMarkdown(plan));
+
+  return { jsonPath, markdownPath };
+}
+
+export function loadChangePlan(planPath: string): ChangePlan {
+  if (!fs.existsSync(planPath)) {
+    throw new Error(`Plan file not found: ${planPath}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(planPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Plan file is not valid JSON: ${planPath} (${(error as Error).message})`);
+  }
+
+  const result = ChangePlanSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid plan file ${planPath}:\n${formatSchemaIssues(result.error).map(issue => `- ${issue}`).join('\n')}`);
+  }
+  return result.data;
+}
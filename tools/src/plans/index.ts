@@ -0,0 +1,4 @@
+// plans/index.ts
+export * from './changePlan';
+export * from './planMarkdown';
+export * from './runJournal';
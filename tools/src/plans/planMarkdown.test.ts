@@ -0,0 +1,49 @@
+// plans/planMarkdown.test.ts
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { renderChangePlanMarkdown } from './planMarkdown';
+import { createChangePlan } from './changePlan';
+import { UnifiedPlanResultSchema } from '../processors/schemas';
+import { writeIssueMetadata } from '../utils/issueMetadata';
+
+function planUpdatingBody(currentBody: string, plannedBody: string): string {
+  const issue = {
+    number: 7,
+    title: 'Login',
+    body: currentBody,
+    state: 'open' as const,
+    labels: ['prd-generated'],
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z'
+  };
+  const plan = UnifiedPlanResultSchema.parse({
+    changeAssessment: { hasSignificantChanges: true, changeSummary: 'Login changed', reasoningForSignificance: 'New requirement' },
+    issueUpdates: [{
+      issueNumber: 7,
+      action: 'update',
+      changeSignificance: 'minor',
+      reasoning: 'Login now needs 2FA',
+      updates: { body: plannedBody }
+    }],
+    newFeatures: [],
+    summary: { totalIssuesAnalyzed: 1, issuesRequiringUpdates: 1, issuesMarkedObsolete: 0, newIssuesNeeded: 0, overallRationale: 'Update login' }
+  });
+  return renderChangePlanMarkdown(createChangePlan('update', 'auth.md', '# Auth', [issue], plan));
+}
+
+test('diffs issue bodies without their hidden metadata', () => {
+  const currentBody = writeIssueMetadata('Users log in.', { prdId: 'auth', generatedBody: 'VXNlcnMgbG9nIGluLg==' });
+
+  const markdown = planUpdatingBody(currentBody, 'Users log in with 2FA.');
+
+  assert.match(markdown, /^-Users log in\.$/m);
+  assert.match(markdown, /^\+Users log in with 2FA\.$/m);
+  assert.doesNotMatch(markdown, /eightgent:metadata/);
+});
+
+test('shows no body diff when only the metadata differs', () => {
+  const markdown = planUpdatingBody(writeIssueMetadata('Users log in.', { prdId: 'auth' }), 'Users log in.');
+
+  assert.doesNotMatch(markdown, /\*\*Body\*\*/);
+});
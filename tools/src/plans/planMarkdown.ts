@@ -0,0 +1,188 @@
+// plans/planMarkdown.ts
+
+import type { ChangePlan, IssueSnapshot } from './changePlan';
+import { AnalyzedFeature, IssueUpdatePlan, OpenQuestion } from '../processors/schemas';
+import { createUnifiedDiff } from '../utils/diff';
+import { stripIssueMetadata } from '../utils/issueMetadata';
+import { needsFollowUp } from '../processors/followUps';
+
+function renderBodyDiff(issueNumber: number, before: string, after: string): string {
+  const diff = createUnifiedDiff(before, after, {
+    oldLabel: `#${issueNumber} (current)`,
+    newLabel: `#${issueNumber} (planned)`
+  });
+  return ['```diff', diff.trimEnd(), '```'].join('\n');
+}
+
+function renderIssueUpdate(update: IssueUpdatePlan, snapshot: IssueSnapshot | undefined): string {
+  const title = snapshot ? snapshot.title : '(issue not found when planning)';
+  const lines = [
+    `### #${update.issueNumber}: ${title}`,
+    '',
+    `- **Action:** \`${update.action}\``,
+    `- **Significance:** ${update.changeSignificance}`,
+    `- **Reasoning:** ${update.reasoning}`
+  ];
+
+  if (update.updateSummary) {
+    lines.push(`- **Summary:** ${update.updateSummary}`);
+  }
+
+  if (needsFollowUp(update, snapshot)) {
+    lines.push(`- **Follow-up:** #${update.issueNumber} is ${snapshot?.state ?? 'unknown'}; a new issue linked to it will be created with the changes below`);
+  }
+
+  const updates = update.updates;
+  if (updates?.title !== undefined && updates.title !== snapshot?.title) {
+    lines.push('', '**Title**', '', `- Before: ${snapshot?.title ?? ''}`, `- After: ${updates.title}`);
+  }
+
+  if (updates?.labels !== undefined) {
+    lines.push('', '**Labels**', '', `- Before: ${(snapshot?.labels || []).join(', ') || '(none)'}`, `- After: ${updates.labels.join(', ') || '(none)'}`);
+  }
+
+  // The hidden metadata block is kept when the body is written, so only visible content is compared
+  const currentBody = stripIssueMetadata(snapshot?.body ?? '');
+  if (updates?.body !== undefined && stripIssueMetadata(updates.body) !== currentBody) {
+    lines.push('', '**Body**', '', renderBodyDiff(update.issueNumber, currentBody, stripIssueMetadata(updates.body)));
+  }
+
+  if (update.comment) {
+    lines.push('', '**Comment to add**', '', ...update.comment.split('\n').map(line => `> ${line}`));
+  }
+
+  return lines.join('\n');
+}
+
+function renderNewFeature(feature: AnalyzedFeature): string {
+  const lines = [
+    `### [${feature.type.toUpperCase()}] ${feature.title}`,
+    '',
+    `- **Priority:** ${feature.priority}`,
+    `- **Estimated effort:** ${feature.estimatedEffort}`,
+    `- **Tags:** ${feature.tags.join(', ') || '(none)'}`,
+    `- **Dependencies:** ${feature.dependencies.join(', ') || 'None'}`
+  ];
+
+  if (feature.blockedFeatures.length > 0) {
+    lines.push(`- **Blocks:** ${feature.blockedFeatures.join(', ')}`);
+  }
+  if (feature.reasoning) {
+    lines.push(`- **Reasoning:** ${feature.reasoning}`);
+  }
+
+  lines.push('', feature.description, '', '**Acceptance criteria**', '', ...feature.acceptanceCriteria.map(ac => `- [ ] ${ac}`));
+  return lines.join('\n');
+}
+
+function renderOpenQuestion(question: OpenQuestion): string {
+  return [
+    `### [QUESTION] ${question.question}`,
+    '',
+    `- **Impact:** ${question.impact}`,
+    `- **Blocks:** ${question.blockedFeatures.join(', ') || 'None identified yet'}`,
+    `- **Stakeholders:** ${question.stakeholders.join(', ') || 'To be determined'}`
+  ].join('\n');
+}
+
+/**
+ * Render a change plan as Markdown for human review
+ */
+export function renderChangePlanMarkdown(plan: ChangePlan): string {
+  const snapshots = new Map(plan.issueSnapshots.map(snapshot => [snapshot.number, snapshot]));
+  const { changeAssessment, summary } = plan.plan;
+  const actionable = plan.plan.issueUpdates.filter(update => update.action !== 'no_change');
+  const unchanged = plan.plan.issueUpdates.filter(update => update.action === 'no_change');
+
+  const sections = [
+    `# PRD Change Plan: \`${plan.prdPath}\``,
+    '',
+    `- **Created:** ${plan.createdAt}`,
+    `- **Mode:** ${plan.mode}`,
+    `- **PRD id:** \`${plan.prdId ?? '(not recorded)'}\``,
+    `- **PRD hash:** \`${plan.prdHash}\``,
+    ...(plan.replayOf ? [`- **Replay of:** v${plan.replayOf.version} (\`${plan.replayOf.hash}\`), for investigation only`] : []),
+    '',
+    '## Change Assessment',
+    '',
+    `- **Significant changes:** ${changeAssessment.hasSignificantChanges ? 'yes' : 'no'}`,
+    `- **Summary:** ${changeAssessment.changeSummary}`,
+    `- **Reasoning:** ${changeAssessment.reasoningForSignificance}`,
+    '',
+    '## Summary',
+    '',
+    '| Issues analyzed | Updates | Obsolete | New issues | Follow-ups |',
+    '|---|---|---|---|---|',
+    `| ${summary.totalIssuesAnalyzed} | ${summary.issuesRequiringUpdates} | ${summary.issuesMarkedObsolete} | ${summary.newIssuesNeeded} | ${summary.followUpIssuesNeeded} |`,
+    '',
+    summary.overallRationale,
+    '',
+    `## Issue Changes (${actionable.length})`,
+    ''
+  ];
+
+  if (actionable.length === 0) {
+    sections.push('_No existing issues will be changed._', '');
+  }
+  for (const update of actionable) {
+    sections.push(renderIssueUpdate(update, snapshots.get(update.issueNumber)), '');
+  }
+
+  sections.push(`## New Issues (${plan.plan.newFeatures.length})`, '');
+  if (plan.plan.newFeatures.length === 0) {
+    sections.push('_No new issues will be created._', '');
+  }
+  for (const feature of plan.plan.newFeatures) {
+    sections.push(renderNewFeature(feature), '');
+  }
+
+  if (plan.plan.reopenIssues.length > 0) {
+    sections.push(
+      `## Reopened Obsolete Issues (${plan.plan.reopenIssues.length})`,
+      '',
+      ...plan.plan.reopenIssues.map(({ issueNumber, feature }) =>
+        `- #${issueNumber}: ${snapshots.get(issueNumber)?.title ?? '(obsolete issue)'} - scope reintroduced as "${feature.title}"`),
+      ''
+    );
+  }
+
+  if (plan.plan.duplicateFeatures.length > 0) {
+    const outcomes = { flag: 'created, flagged as a possible duplicate of', skip: 'skipped as a duplicate of', merge: 'merged into' };
+    sections.push(
+      `## Duplicate Features (${plan.plan.duplicateFeatures.length})`,
+      '',
+      ...plan.plan.duplicateFeatures.map(({ feature, issueNumber, issueTitle, similarity, resolution }) =>
+        `- "${feature.title}" - ${outcomes[resolution]} #${issueNumber}: ${issueTitle} (${Math.round(similarity * 100)}% similar)`),
+      ''
+    );
+  }
+
+  const { openQuestions, resolvedQuestionIssues } = plan.plan;
+  if (openQuestions.length > 0 || resolvedQuestionIssues.length > 0) {
+    sections.push(`## Open Questions (${openQuestions.length} new, ${resolvedQuestionIssues.length} resolved)`, '');
+    for (const question of openQuestions) {
+      sections.push(renderOpenQuestion(question), '');
+    }
+    if (resolvedQuestionIssues.length > 0) {
+      sections.push(
+        '**Resolved (will be closed)**',
+        '',
+        ...resolvedQuestionIssues.map(issueNumber => `- #${issueNumber}: ${snapshots.get(issueNumber)?.title ?? '(question issue)'}`),
+        ''
+      );
+    }
+  }
+
+  if (unchanged.length > 0) {
+    sections.push('## Unchanged Issues', '', ...unchanged.map(update => `- #${update.issueNumber}: ${update.reasoning}`), '');
+  }
+
+  if (changeAssessment.trivialChangesIgnored.length > 0) {
+    sections.push('## Trivial Changes Ignored', '', '```', ...changeAssessment.trivialChangesIgnored, '```', '');
+  }
+
+  if (!plan.replayOf) {
+    sections.push('---', '', `Apply this plan with: \`pnpm run apply-plan <path-to-this-plan>.json\``, '');
+  }
+  return sections.join('\n');
+}
@@ -0,0 +1,75 @@
+// plans/runJournal.test.ts
+
+import { test, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RunJournal, loadRunJournal } from './runJournal';
+import { ChangePlan, createChangePlan } from './changePlan';
+import { UnifiedPlanResultSchema } from '../processors/schemas';
+
+let directory: string;
+
+const planFor = (prdContent: string): ChangePlan => createChangePlan('create', 'auth.md', prdContent, [], UnifiedPlanResultSchema.parse({
+  changeAssessment: { hasSignificantChanges: true, changeSummary: 'New PRD', reasoningForSignificance: 'New PRD' },
+  issueUpdates: [],
+  newFeatures: [],
+  summary: { totalIssuesAnalyzed: 0, issuesRequiringUpdates: 0, issuesMarkedObsolete: 0, newIssuesNeeded: 0, overallRationale: 'New PRD' }
+}));
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'run-journal-'));
+});
+
+test('runs each operation once and returns the recorded issue number', async () => {
+  const journal = RunJournal.start(planFor('# Auth'), directory);
+  let calls = 0;
+  const create = async () => ++calls + 100;
+
+  assert.equal(await journal.run('create:login', 'Create Login', create), 101);
+  assert.equal(await journal.run('create:login', 'Create Login', create), 101);
+  assert.equal(calls, 1);
+  assert.equal(journal.completedOperations, 1);
+});
+
+test('records failed operations and retries them', async () => {
+  const journal = RunJournal.start(planFor('# Auth'), directory);
+
+  await assert.rejects(journal.run('create:login', 'Create Login', async () => {
+    throw new Error('Service unavailable');
+  }), /Service unavailable/);
+  journal.fail(new Error('Service unavailable'));
+
+  const failed = loadRunJournal(journal.path);
+  assert.equal(failed.status, 'failed');
+  assert.deepEqual(failed.operations.map(operation => [operation.status, operation.error]), [['failed', 'Service unavailable']]);
+
+  journal.resume();
+  assert.equal(await journal.run('create:login', 'Create Login', async () => 7), 7);
+  journal.complete();
+
+  const completed = loadRunJournal(journal.path);
+  assert.equal(completed.status, 'completed');
+  assert.equal(completed.resumedAt.length, 1);
+  assert.deepEqual(completed.operations.map(operation => [operation.status, operation.issueNumber]), [['done', 7]]);
+});
+
+test('finds the unfinished run of the same PRD content', () => {
+  const plan = planFor('# Auth');
+  const unfinished = RunJournal.start(plan, directory);
+  RunJournal.start(planFor('# Auth, edited'), directory);
+  RunJournal.start(plan, directory).complete();
+
+  const found = RunJournal.findUnfinished(plan.prdId!, plan.prdHash, directory);
+
+  assert.equal(found?.runId, unfinished.runId);
+  assert.equal(RunJournal.findUnfinished(plan.prdId!, plan.prdHash, path.join(directory, 'missing')), null);
+});
+
+test('ignores unreadable journals', () => {
+  const plan = planFor('# Auth');
+  fs.writeFileSync(path.join(directory, 'broken.json'), '{');
+
+  assert.equal(RunJournal.findUnfinished(plan.prdId!, plan.prdHash, directory), null);
+});
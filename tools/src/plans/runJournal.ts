@@ -0,0 +1,201 @@
+// plans/runJournal.ts
+// Persisted journal of a plan execution run. Each operation that touches the issue tracker has an
+// idempotency key; a rerun after a failure resumes the unfinished run and skips what already succeeded.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import { ChangePlan, ChangePlanSchema } from './changePlan';
+import { formatSchemaIssues } from '../llm/structuredCompletion';
+import { createModuleLogger } from '../utils/logger';
+
+const logger = createModuleLogger('RunJournal');
+
+export const RUN_JOURNAL_FORMAT_VERSION = 1;
+
+export const JournalOperationSchema = z.object({
+  /** Idempotency key, stable across reruns of the same plan (e.g. `create:feature:technical:login`) */
+  key: z.string(),
+  description: z.string(),
+  status: z.enum(['done', 'failed']),
+  /** Issue created by the operation */
+  issueNumber: z.number().int().positive().optional(),
+  completedAt: z.string().optional(),
+  error: z.string().optional()
+});
+
+export const RunJournalSchema = z.object({
+  formatVersion: z.literal(RUN_JOURNAL_FORMAT_VERSION),
+  runId: z.string(),
+  status: z.enum(['running', 'failed', 'completed']),
+  startedAt: z.string(),
+  /** Start time of every attempt after the first */
+  resumedAt: z.array(z.string()),
+  finishedAt: z.string().optional(),
+  error: z.string().optional(),
+  prdPath: z.string(),
+  prdId: z.string(),
+  prdHash: z.string(),
+  /** The plan being executed; resumed runs execute this plan instead of planning again */
+  changePlan: ChangePlanSchema,
+  operations: z.array(JournalOperationSchema)
+});
+
+export type JournalOperation = z.infer<typeof JournalOperationSchema>;
+export type RunJournalData = z.infer<typeof RunJournalSchema>;
+
+export const DEFAULT_RUN_JOURNAL_DIRECTORY = 'prd-runs';
+
+function createRunId(): string {
+  return `${new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z')}-${randomBytes(3).toString('hex')}`;
+}
+
+export function loadRunJournal(journalPath: string): RunJournalData {
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(journalPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Run journal is not valid JSON: ${journalPath} (${(error as Error).message})`);
+  }
+
+  const result = RunJournalSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid run journal ${journalPath}:\n${formatSchemaIssues(result.error).map(issue => `- ${issue}`).join('\n')}`);
+  }
+  return result.data;
+}
+
+export class RunJournal {
+  private constructor(private readonly journalPath: string, private data: RunJournalData) {}
+
+  /**
+   * Start journaling a new run of a plan
+   */
+  static start(changePlan: ChangePlan, directory: string = DEFAULT_RUN_JOURNAL_DIRECTORY): RunJournal {
+    const runId = createRunId();
+    const journal = new RunJournal(path.join(directory, `${runId}.json`), {
+      formatVersion: RUN_JOURNAL_FORMAT_VERSION,
+      runId,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      resumedAt: [],
+      prdPath: changePlan.prdPath,
+      prdId: changePlan.prdId ?? changePlan.prdPath,
+      prdHash: changePlan.prdHash,
+      changePlan,
+      operations: []
+    });
+    journal.save();
+    return journal;
+  }
+
+  /**
+   * Latest run of a PRD that did not complete, if it was for the same PRD content
+   * @param planCreatedAt Only match runs of this plan (for plans applied from a file)
+   */
+  static findUnfinished(
+    prdId: string,
+    prdHash: string,
+    directory: string = DEFAULT_RUN_JOURNAL_DIRECTORY,
+    planCreatedAt?: string
+  ): RunJournal | null {
+    if (!fs.existsSync(directory)) {
+      return null;
+    }
+
+    const candidates: RunJournal[] = [];
+    for (const file of fs.readdirSync(directory).filter(name => name.endsWith('.json'))) {
+      const journalPath = path.join(directory, file);
+      try {
+        const data = loadRunJournal(journalPath);
+        if (data.status !== 'completed' && data.prdId === prdId && data.prdHash === prdHash &&
+            (!planCreatedAt || data.changePlan.createdAt === planCreatedAt)) {
+          candidates.push(new RunJournal(journalPath, data));
+        }
+      } catch (error) {
+        logger.warn(`⚠️ Ignoring unreadable run journal: ${(error as Error).message}`);
+      }
+    }
+
+    candidates.sort((a, b) => b.data.startedAt.localeCompare(a.data.startedAt));
+    return candidates[0] || null;
+  }
+
+  get runId(): string {
+    return this.data.runId;
+  }
+
+  get path(): string {
+    return this.journalPath;
+  }
+
+  get changePlan(): ChangePlan {
+    return this.data.changePlan;
+  }
+
+  get completedOperations(): number {
+    return this.data.operations.filter(operation => operation.status === 'done').length;
+  }
+
+  /**
+   * Mark the start of another attempt at an unfinished run
+   */
+  resume(): void {
+    this.data.status = 'running';
+    this.data.resumedAt.push(new Date().toISOString());
+    delete this.data.error;
+    this.save();
+  }
+
+  /**
+   * Run an operation once per run: operations already done are skipped and return the recorded issue number
+   */
+  async run(key: string, description: string, operation: () => Promise<number | void>): Promise<number | undefined> {
+    const recorded = this.data.operations.find(entry => entry.key === key);
+    if (recorded?.status === 'done') {
+      logger.debug(`Skipping completed operation: ${description}`, { action: 'journal_operation_skipped', runId: this.runId, key });
+      return recorded.issueNumber;
+    }
+
+    const entry: JournalOperation = recorded || { key, description, status: 'failed' };
+    if (!recorded) {
+      this.data.operations.push(entry);
+    }
+
+    try {
+      const issueNumber = await operation();
+      entry.status = 'done';
+      entry.issueNumber = typeof issueNumber === 'number' ? issueNumber : undefined;
+      entry.completedAt = new Date().toISOString();
+      delete entry.error;
+      return entry.issueNumber;
+    } catch (error) {
+      entry.status = 'failed';
+      entry.error = (error as Error).message;
+      throw error;
+    } finally {
+      this.save();
+    }
+  }
+
+  complete(): void {
+    this.data.status = 'completed';
+    this.data.finishedAt = new Date().toISOString();
+    this.save();
+  }
+
+  fail(error: Error): void {
+    this.data.status = 'failed';
+    this.data.error = error.message;
+    this.save();
+  }
+
+  private save(): void {
+    // Write-then-rename, so a crash mid-write never leaves a truncated journal behind
+    fs.mkdirSync(path.dirname(this.journalPath), { recursive: true });
+    const temporaryPath = `${this.journalPath}.tmp`;
+    fs.writeFileSync(temporaryPath, JSON.stringify(this.data, null, 2));
+    fs.renameSync(temporaryPath, this.journalPath);
+  }
+}
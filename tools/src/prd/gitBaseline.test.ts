@@ -0,0 +1,72 @@
+// prd/gitBaseline.test.ts
+// Runs against a throwaway git repository
+
+import { test, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { GitPRDBaselineProvider, createGitBaselineProvider, parseGitBaselineSource } from './gitBaseline';
+
+let repository: string;
+let prdPath: string;
+
+const git = (...args: string[]) =>
+  execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: repository, encoding: 'utf8' }).trim();
+
+const commitPRD = (content: string) => {
+  fs.writeFileSync(prdPath, content);
+  git('add', '-A');
+  git('commit', '-q', '-m', 'Update PRD');
+  return git('rev-parse', 'HEAD');
+};
+
+beforeEach(() => {
+  repository = fs.mkdtempSync(path.join(os.tmpdir(), 'git-baseline-'));
+  git('init', '-q');
+  fs.mkdirSync(path.join(repository, 'docs'));
+  prdPath = path.join(repository, 'docs', 'auth.md');
+});
+
+test('parses baseline specs', () => {
+  assert.equal(parseGitBaselineSource('store'), null);
+  assert.deepEqual(parseGitBaselineSource('git:HEAD~1'), { type: 'commit', ref: 'HEAD~1' });
+  assert.deepEqual(parseGitBaselineSource('git:last-processed'), { type: 'last-processed' });
+  assert.deepEqual(parseGitBaselineSource('git:merge-base:'), { type: 'merge-base', ref: 'origin/main' });
+  assert.throws(() => parseGitBaselineSource('git:'), /Unknown PRD baseline/);
+  assert.throws(() => parseGitBaselineSource('HEAD~1'), /Unknown PRD baseline/);
+  assert.equal(createGitBaselineProvider(), null);
+});
+
+test('reads the PRD at a fixed ref relative to its directory', async () => {
+  const first = commitPRD('# Auth v1\n');
+  commitPRD('# Auth v2\n');
+
+  const baseline = await new GitPRDBaselineProvider({ type: 'commit', ref: 'HEAD~1' }).getBaseline('auth', prdPath);
+
+  assert.equal(baseline?.commit, first);
+  assert.equal(baseline?.content, '# Auth v1\n');
+});
+
+test('returns null when the PRD did not exist at the baseline commit', async () => {
+  fs.writeFileSync(path.join(repository, 'README.md'), 'Readme');
+  git('add', '-A');
+  git('commit', '-q', '-m', 'Initial commit');
+  commitPRD('# Auth v1\n');
+
+  assert.equal(await new GitPRDBaselineProvider({ type: 'commit', ref: 'HEAD~1' }).getBaseline('auth', prdPath), null);
+});
+
+test('diffs against the last processed commit once one is recorded', async () => {
+  const statePath = path.join(repository, '.prd-state.json');
+  const provider = new GitPRDBaselineProvider({ type: 'last-processed' }, statePath);
+  commitPRD('# Auth v1\n');
+
+  assert.equal(await provider.getBaseline('auth', prdPath), null);
+
+  await provider.recordProcessed('auth', prdPath);
+  commitPRD('# Auth v2\n');
+
+  assert.equal((await provider.getBaseline('auth', prdPath))?.content, '# Auth v1\n');
+});
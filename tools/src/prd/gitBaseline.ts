@@ -0,0 +1,147 @@
+// prd/gitBaseline.ts
+// Reads the previous version of a PRD from git history, for backends that keep no PRD versions.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { createModuleLogger } from '../utils/logger';
+
+const execFileAsync = promisify(execFile);
+
+// Create module-specific logger
+const logger = createModuleLogger('GitBaseline');
+
+export const DEFAULT_PRD_STATE_PATH = '.prd-state.json';
+
+/**
+ * Where the baseline commit comes from:
+ * - `commit` - a fixed ref such as `HEAD~1` or a sha
+ * - `last-processed` - the commit recorded in the state file when the PRD was last processed
+ * - `merge-base` - the merge-base of HEAD and a ref, e.g. the target branch of a pull request
+ */
+export type GitBaselineSource =
+  | { type: 'commit'; ref: string }
+  | { type: 'last-processed' }
+  | { type: 'merge-base'; ref: string };
+
+export interface GitPRDBaseline {
+  commit: string;
+  committedAt: string;
+  content: string;
+}
+
+interface ProcessedCommit {
+  prdPath: string;
+  commit: string;
+  processedAt: string;
+}
+
+interface PRDState {
+  processed: Record<string, ProcessedCommit>;
+}
+
+/**
+ * Parse `git:<ref>`, `git:last-processed` or `git:merge-base:<ref>`.
+ * Returns null for `store`, the default of diffing against the issue service's stored versions.
+ */
+export function parseGitBaselineSource(spec: string): GitBaselineSource | null {
+  if (spec === 'store') {
+    return null;
+  }
+  if (!spec.startsWith('git:') || spec.length === 'git:'.length) {
+    throw new Error(`Unknown PRD baseline "${spec}" (expected store, git:<ref>, git:last-processed or git:merge-base:<ref>)`);
+  }
+
+  const value = spec.substring('git:'.length);
+  if (value === 'last-processed') {
+    return { type: 'last-processed' };
+  }
+  if (value.startsWith('merge-base:')) {
+    return { type: 'merge-base', ref: value.substring('merge-base:'.length) || 'origin/main' };
+  }
+  return { type: 'commit', ref: value };
+}
+
+export class GitPRDBaselineProvider {
+  private source: GitBaselineSource;
+  private statePath: string;
+
+  constructor(source: GitBaselineSource, statePath: string = DEFAULT_PRD_STATE_PATH) {
+    this.source = source;
+    this.statePath = statePath;
+  }
+
+  private async git(prdPath: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: path.dirname(path.resolve(prdPath)),
+      maxBuffer: 10 * 1024 * 1024
+    });
+    return stdout;
+  }
+
+  private loadState(): PRDState {
+    if (!fs.existsSync(this.statePath)) {
+      return { processed: {} };
+    }
+    return JSON.parse(fs.readFileSync(this.statePath, 'utf8')) as PRDState;
+  }
+
+  private async resolveRef(prdId: string, prdPath: string): Promise<string | null> {
+    switch (this.source.type) {
+      case 'commit':
+        return this.source.ref;
+      case 'merge-base':
+        return (await this.git(prdPath, ['merge-base', 'HEAD', this.source.ref])).trim();
+      case 'last-processed':
+        return this.loadState().processed[prdId]?.commit ?? null;
+    }
+  }
+
+  /**
+   * The PRD as it was at the baseline commit; null when there is no baseline commit yet
+   * or the PRD did not exist at that commit
+   */
+  async getBaseline(prdId: string, prdPath: string): Promise<GitPRDBaseline | null> {
+    const ref = await this.resolveRef(prdId, prdPath);
+    if (!ref) {
+      logger.debug('No baseline commit recorded for PRD', { action: 'git_baseline_missing', prdId });
+      return null;
+    }
+
+    const [commit, committedAt] = (await this.git(prdPath, ['log', '-1', '--format=%H %cI', ref])).trim().split(' ');
+
+    // `./<file>` resolves the path relative to the PRD's directory instead of the repository root
+    let content: string;
+    try {
+      content = await this.git(prdPath, ['show', `${commit}:./${path.basename(prdPath)}`]);
+    } catch (error) {
+      logger.debug('PRD not present at baseline commit', { action: 'git_baseline_not_found', prdId, commit, error: (error as Error).message });
+      return null;
+    }
+
+    logger.debug('PRD baseline read from git', { action: 'git_baseline_read', prdId, ref, commit });
+    return { commit, committedAt, content };
+  }
+
+  /**
+   * Remember HEAD as the last processed commit of the PRD
+   */
+  async recordProcessed(prdId: string, prdPath: string): Promise<void> {
+    const commit = (await this.git(prdPath, ['rev-parse', 'HEAD'])).trim();
+    const state = this.loadState();
+    state.processed[prdId] = { prdPath, commit, processedAt: new Date().toISOString() };
+
+    fs.mkdirSync(path.dirname(path.resolve(this.statePath)), { recursive: true });
+    fs.writeFileSync(this.statePath, JSON.stringify(state, null, 2));
+    logger.debug('Processed commit recorded', { action: 'git_baseline_recorded', prdId, commit });
+  }
+}
+
+/**
+ * Provider for a baseline spec (see parseGitBaselineSource); null when unset or `store`
+ */
+export function createGitBaselineProvider(spec?: string, statePath?: string): GitPRDBaselineProvider | null {
+  const source = spec ? parseGitBaselineSource(spec) : null;
+  return source ? new GitPRDBaselineProvider(source, statePath) : null;
+}
@@ -0,0 +1,7 @@
+// prd/index.ts
+export * from './gitBaseline';
+export * from './prdId';
+export * from './prdParser';
+export * from './sectionDiff';
+export * from './sectionLinks';
+export * from './versionHistory';
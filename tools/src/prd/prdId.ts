@@ -0,0 +1,75 @@
+// prd/prdId.ts
+// Stable PRD identifiers used to scope generated issues to the PRD they came from.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Issue } from '../services/interfaces/IIssueService';
+import { readIssueMetadata } from '../utils/issueMetadata';
+import { slugify } from './prdParser';
+
+export const PRD_LABEL_PREFIX = 'prd:';
+export const DEFAULT_PRD_DIRECTORY = 'spec/prd';
+
+const PRD_ID_MARKER = /<!--\s*prd-id:\s*([a-z0-9][a-z0-9-]*)\s*-->/i;
+const PRD_FILE_PATTERN = /\.(md|txt)$/i;
+
+/**
+ * The PRD's id: an explicit `<!-- prd-id: my-prd -->` marker, otherwise the slugified file name.
+ * Add the marker before renaming a PRD file to keep its issues attached.
+ */
+export function resolvePRDId(prdPath: string, prdContent?: string): string {
+  const explicit = prdContent?.match(PRD_ID_MARKER);
+  if (explicit) {
+    return explicit[1].toLowerCase();
+  }
+  return slugify(path.basename(prdPath).replace(PRD_FILE_PATTERN, ''));
+}
+
+export function prdLabel(prdId: string): string {
+  return `${PRD_LABEL_PREFIX}${prdId}`;
+}
+
+/**
+ * PRD id of an issue from its `prd:<id>` label or, failing that, its stored metadata
+ */
+export function getIssuePRDId(issue: Pick<Issue, 'labels' | 'body'>): string | undefined {
+  const label = issue.labels.find(candidate => candidate.startsWith(PRD_LABEL_PREFIX));
+  if (label) {
+    return label.substring(PRD_LABEL_PREFIX.length);
+  }
+  const metadataId = readIssueMetadata(issue.body).prdId;
+  return typeof metadataId === 'string' ? metadataId : undefined;
+}
+
+/**
+ * Whether an issue belongs to the PRD. Issues created before PRD ids existed carry
+ * neither label nor metadata; they belong to the PRD named in their "Generated from PRD" line.
+ */
+export function belongsToPRD(issue: Pick<Issue, 'labels' | 'body'>, prdId: string): boolean {
+  const issuePRDId = getIssuePRDId(issue);
+  if (issuePRDId) {
+    return issuePRDId === prdId;
+  }
+  const generatedFrom = issue.body.match(/\*\*Generated from PRD:\*\*\s*`([^`]+)`/);
+  return !!generatedFrom && resolvePRDId(generatedFrom[1]) === prdId;
+}
+
+/**
+ * All PRD files below a directory, sorted by path
+ */
+export function listPRDFiles(directory: string = DEFAULT_PRD_DIRECTORY): string[] {
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listPRDFiles(entryPath));
+    } else if (PRD_FILE_PATTERN.test(entry.name)) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
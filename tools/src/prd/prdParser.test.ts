@@ -0,0 +1,81 @@
+// prd/prdParser.test.ts
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { extractListItems, findSection, flattenSections, parsePRD, renderSection, slugify } from './prdParser';
+
+const PRD = `# Checkout PRD
+
+Version 1.2
+
+## Requirements
+
+Must work on mobile.
+
+### Functional Requirements
+
+- Pay by card
+- Pay by invoice
+
+\`\`\`markdown
+## Not a heading
+\`\`\`
+
+### Functional Requirements
+
+Duplicate heading.
+
+## Open Questions
+
+1. Which PSP?
+`;
+
+test('builds a section tree with the first H1 as title', () => {
+  const document = parsePRD(PRD);
+
+  assert.equal(document.title, 'Checkout PRD');
+  assert.equal(document.preamble, 'Version 1.2');
+  assert.deepEqual(document.sections.map(section => section.title), ['Requirements', 'Open Questions']);
+  assert.deepEqual(document.sections[0].children.map(section => section.path), [
+    ['Requirements', 'Functional Requirements'],
+    ['Requirements', 'Functional Requirements']
+  ]);
+  assert.equal(document.sections[0].content, 'Must work on mobile.');
+  assert.equal(document.sections[0].line, 5);
+});
+
+test('gives repeated headings distinct ids and ignores headings in code fences', () => {
+  const ids = flattenSections(parsePRD(PRD)).map(section => section.id);
+
+  assert.deepEqual(ids, [
+    'requirements',
+    'requirements/functional-requirements',
+    'requirements/functional-requirements-2',
+    'open-questions'
+  ]);
+  assert.match(findSection(parsePRD(PRD), 'requirements/functional-requirements')!.content, /## Not a heading/);
+});
+
+test('finds sections by id, heading path or title', () => {
+  const document = parsePRD(PRD);
+
+  assert.equal(findSection(document, 'open-questions')?.title, 'Open Questions');
+  assert.equal(findSection(document, 'Requirements > Functional Requirements')?.id, 'requirements/functional-requirements');
+  assert.equal(findSection(document, 'open questions')?.id, 'open-questions');
+  assert.equal(findSection(document, 'Pricing'), undefined);
+});
+
+test('renders a section with its subsections', () => {
+  const section = parsePRD('## Scope\n\nIn scope.\n\n### Later\n\nOut of scope.').sections[0];
+
+  assert.equal(renderSection(section), '## Scope\n\nIn scope.\n\n### Later\n\nOut of scope.');
+});
+
+test('extracts bullet and numbered list items', () => {
+  assert.deepEqual(extractListItems('Intro\n- one\n* two\n  + three\n1. four\n2) five'), ['one', 'two', 'three', 'four', 'five']);
+});
+
+test('slugifies headings', () => {
+  assert.equal(slugify('`API` (v2) & Webhooks!'), 'api-v2-webhooks');
+  assert.equal(slugify('???'), 'section');
+});
@@ -0,0 +1,175 @@
+// prd/prdParser.ts
+// Builds a section tree from a Markdown PRD so changes can be tracked per section.
+
+export interface PRDSection {
+  /** Stable identifier derived from the heading path, e.g. `requirements/functional-requirements` */
+  id: string;
+  title: string;
+  level: number;
+  /** Heading titles from the top-level section down to this one */
+  path: string[];
+  /** Text directly under this heading, excluding subsections */
+  content: string;
+  children: PRDSection[];
+  /** 1-based line number of the heading */
+  line: number;
+}
+
+export interface PRDDocument {
+  title: string;
+  /** Text between the document title and the first section (e.g. version line) */
+  preamble: string;
+  sections: PRDSection[];
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+export function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[`*_[\]()]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'section';
+}
+
+/**
+ * Parse Markdown into a section tree. The first H1 becomes the document title;
+ * headings inside fenced code blocks are ignored.
+ */
+export function parsePRD(markdown: string): PRDDocument {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const document: PRDDocument = { title: '', preamble: '', sections: [] };
+
+  const stack: PRDSection[] = [];
+  const preambleLines: string[] = [];
+  const contentLines = new Map<PRDSection, string[]>();
+  const usedIds = new Set<string>();
+  let inFence = false;
+
+  lines.forEach((line, index) => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    }
+
+    const match = inFence ? null : line.match(HEADING_PATTERN);
+    if (!match) {
+      const current = stack[stack.length - 1];
+      if (current) {
+        contentLines.get(current)!.push(line);
+      } else {
+        preambleLines.push(line);
+      }
+      return;
+    }
+
+    const level = match[1].length;
+    const title = match[2].trim();
+
+    if (level === 1 && !document.title && document.sections.length === 0) {
+      document.title = title;
+      return;
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    const sectionPath = parent ? [...parent.path, title] : [title];
+    const baseId = sectionPath.map(slugify).join('/');
+
+    // Disambiguate repeated headings under the same parent
+    let id = baseId;
+    for (let suffix = 2; usedIds.has(id); suffix++) {
+      id = `${baseId}-${suffix}`;
+    }
+    usedIds.add(id);
+
+    const section: PRDSection = {
+      id,
+      title,
+      level,
+      path: sectionPath,
+      content: '',
+      children: [],
+      line: index + 1
+    };
+    contentLines.set(section, []);
+
+    if (parent) {
+      parent.children.push(section);
+    } else {
+      document.sections.push(section);
+    }
+    stack.push(section);
+  });
+
+  contentLines.forEach((sectionLines, section) => {
+    section.content = sectionLines.join('\n').trim();
+  });
+  document.preamble = preambleLines.join('\n').trim();
+
+  return document;
+}
+
+/**
+ * All sections in document order (depth-first)
+ */
+export function flattenSections(document: PRDDocument): PRDSection[] {
+  const result: PRDSection[] = [];
+  const visit = (sections: PRDSection[]) => {
+    for (const section of sections) {
+      result.push(section);
+      visit(section.children);
+    }
+  };
+  visit(document.sections);
+  return result;
+}
+
+/**
+ * Find a section by id, heading path ("Requirements > Functional Requirements") or title
+ */
+export function findSection(document: PRDDocument, reference: string): PRDSection | undefined {
+  const sections = flattenSections(document);
+  const normalized = reference.trim().toLowerCase();
+  const asPath = reference.split(/\s*(?:>|\/)\s*/).map(slugify).join('/');
+
+  return sections.find(section => section.id === reference.trim())
+    || sections.find(section => section.id === asPath)
+    || sections.find(section => section.title.toLowerCase() === normalized);
+}
+
+/**
+ * Render a section (including its subsections) back to Markdown
+ */
+export function renderSection(section: PRDSection): string {
+  const parts = [`${'#'.repeat(section.level)} ${section.title}`];
+  if (section.content) {
+    parts.push(section.content);
+  }
+  for (const child of section.children) {
+    parts.push(renderSection(child));
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Indented list of section headings with their ids
+ */
+export function renderOutline(document: PRDDocument): string {
+  return flattenSections(document)
+    .map(section => `${'  '.repeat(Math.max(0, section.level - 2))}- ${section.title} (\`${section.id}\`)`)
+    .join('\n');
+}
+
+/**
+ * Bullet and numbered list items directly under a section
+ */
+export function extractListItems(content: string): string[] {
+  return content
+    .split('\n')
+    .map(line => line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)$/)?.[1]?.trim())
+    .filter((item): item is string => !!item);
+}
@@ -0,0 +1,71 @@
+// prd/sectionDiff.test.ts
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PREAMBLE_SECTION_ID, diffPRDSections, getAffectedSections, normalizeLine } from './sectionDiff';
+
+const PRD = `# Authentication PRD
+
+Owner: identity team
+
+## Login
+
+Users log in with email and password.
+
+- Lock the account after 5 failed attempts
+- Remember the device for 30 days
+
+## Logout
+
+Sessions end on logout.
+`;
+
+const changeOf = (previous: string, current: string, id: string) =>
+  diffPRDSections(previous, current).find(change => change.id === id);
+
+test('reports nothing for an unchanged PRD', () => {
+  assert.deepEqual(getAffectedSections(diffPRDSections(PRD, PRD)), []);
+});
+
+test('reports added and removed list items of a modified section', () => {
+  const change = changeOf(PRD, PRD.replace('5 failed attempts', '3 failed attempts'), 'login');
+
+  assert.equal(change?.type, 'modified');
+  assert.equal(change?.semantic, true);
+  assert.deepEqual(change?.addedItems, ['Lock the account after 3 failed attempts']);
+  assert.deepEqual(change?.removedItems, ['Lock the account after 5 failed attempts']);
+  assert.match(change?.diff || '', /^\+- Lock the account after 3 failed attempts$/m);
+});
+
+test('treats formatting and reordering as non-semantic', () => {
+  const reformatted = PRD
+    .replace('- Lock the account after 5 failed attempts\n- Remember the device for 30 days', '* Remember the device for **30 days**\n* Lock the account after 5 failed attempts.');
+
+  const change = changeOf(PRD, reformatted, 'login');
+
+  assert.equal(change?.type, 'modified');
+  assert.equal(change?.semantic, false);
+  assert.deepEqual(getAffectedSections(diffPRDSections(PRD, reformatted)), []);
+});
+
+test('reports a renamed section as a removal and an addition', () => {
+  const changes = diffPRDSections(PRD, PRD.replace('## Logout', '## Sign out'));
+
+  assert.equal(changes.find(change => change.id === 'logout')?.type, 'removed');
+  assert.equal(changes.find(change => change.id === 'sign-out')?.type, 'added');
+});
+
+test('compares the title and preamble as a pseudo-section', () => {
+  const retitled = changeOf(PRD, PRD.replace('# Authentication PRD', '# Authentication and SSO PRD'), PREAMBLE_SECTION_ID);
+  const reowned = changeOf(PRD, PRD.replace('Owner: identity team', 'Owner: platform team'), PREAMBLE_SECTION_ID);
+
+  assert.equal(retitled?.type, 'modified');
+  assert.equal(retitled?.semantic, true);
+  assert.equal(reowned?.semantic, true);
+  assert.equal(changeOf(PRD, PRD, PREAMBLE_SECTION_ID)?.type, 'unchanged');
+  assert.equal(changeOf('## Login\n\nText', '## Login\n\nText', PREAMBLE_SECTION_ID), undefined);
+});
+
+test('normalizes list markers, emphasis and trailing punctuation', () => {
+  assert.equal(normalizeLine('  1. **Users**  must   log in.'), 'Users must log in');
+});
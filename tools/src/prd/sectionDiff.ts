@@ -0,0 +1,134 @@
+// prd/sectionDiff.ts
+// Per-section comparison of two PRD versions.
+
+import { createUnifiedDiff } from '../utils/diff';
+import { PRDDocument, PRDSection, extractListItems, flattenSections, parsePRD } from './prdParser';
+
+export type SectionChangeType = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface SectionChange {
+  id: string;
+  title: string;
+  path: string[];
+  type: SectionChangeType;
+  /** False when only formatting, whitespace or ordering changed */
+  semantic: boolean;
+  addedItems: string[];
+  removedItems: string[];
+  /** Unified diff of the section's own content */
+  diff: string;
+  previousContent?: string;
+  currentContent?: string;
+}
+
+/** Id of the pseudo-section holding the document title and the text before the first heading */
+export const PREAMBLE_SECTION_ID = '_preamble';
+
+/**
+ * Normalize a line so formatting-only edits compare equal
+ */
+export function normalizeLine(line: string): string {
+  return line
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/[.;,:]+$/, '')
+    .trim();
+}
+
+function normalizedLineSet(content: string): string[] {
+  return content
+    .split('\n')
+    .map(normalizeLine)
+    .filter(line => line.length > 0)
+    .sort();
+}
+
+function isSemanticallyEqual(previous: string, current: string): boolean {
+  const a = normalizedLineSet(previous);
+  const b = normalizedLineSet(current);
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+function compareSection(previous: PRDSection | undefined, current: PRDSection | undefined): SectionChange {
+  const section = (current || previous)!;
+  const previousContent = previous?.content ?? '';
+  const currentContent = current?.content ?? '';
+
+  const previousItems = extractListItems(previousContent).map(normalizeLine);
+  const currentItems = extractListItems(currentContent).map(normalizeLine);
+
+  let type: SectionChangeType;
+  if (!previous) {
+    type = 'added';
+  } else if (!current) {
+    type = 'removed';
+  } else {
+    type = previousContent === currentContent && previous.title === current.title ? 'unchanged' : 'modified';
+  }
+
+  return {
+    id: section.id,
+    title: section.title,
+    path: section.path,
+    type,
+    semantic: type === 'added' || type === 'removed' ||
+      (type === 'modified' && !isSemanticallyEqual(previousContent, currentContent)),
+    addedItems: currentItems.filter(item => !previousItems.includes(item)),
+    removedItems: previousItems.filter(item => !currentItems.includes(item)),
+    diff: type === 'unchanged' ? '' : createUnifiedDiff(previousContent, currentContent, {
+      oldLabel: `${section.id} (previous)`,
+      newLabel: `${section.id} (current)`
+    }),
+    previousContent: previous ? previousContent : undefined,
+    currentContent: current ? currentContent : undefined
+  };
+}
+
+function preambleSection(document: PRDDocument): PRDSection {
+  const title = 'Title and preamble';
+  return {
+    id: PREAMBLE_SECTION_ID,
+    title,
+    level: 0,
+    path: [title],
+    content: [document.title ? `# ${document.title}` : '', document.preamble].filter(Boolean).join('\n\n'),
+    children: [],
+    line: 1
+  };
+}
+
+/**
+ * Compare two parsed PRDs section by section. Sections are matched by their heading-path id,
+ * so a renamed section shows up as one removal and one addition. The title and preamble are
+ * compared as a pseudo-section (PREAMBLE_SECTION_ID) when either version has them.
+ */
+export function diffPRDDocuments(previous: PRDDocument, current: PRDDocument): SectionChange[] {
+  const previousSections = new Map(flattenSections(previous).map(section => [section.id, section]));
+  const currentSections = flattenSections(current);
+  const currentIds = new Set(currentSections.map(section => section.id));
+
+  const changes = currentSections.map(section => compareSection(previousSections.get(section.id), section));
+  const previousPreamble = preambleSection(previous);
+  const currentPreamble = preambleSection(current);
+  if (previousPreamble.content || currentPreamble.content) {
+    changes.unshift(compareSection(previousPreamble, currentPreamble));
+  }
+  for (const [id, section] of previousSections) {
+    if (!currentIds.has(id)) {
+      changes.push(compareSection(section, undefined));
+    }
+  }
+  return changes;
+}
+
+export function diffPRDSections(previousMarkdown: string, currentMarkdown: string): SectionChange[] {
+  return diffPRDDocuments(parsePRD(previousMarkdown), parsePRD(currentMarkdown));
+}
+
+/**
+ * Changes that should reach the planner: semantic additions, removals and modifications
+ */
+export function getAffectedSections(changes: SectionChange[]): SectionChange[] {
+  return changes.filter(change => change.type !== 'unchanged' && change.semantic);
+}
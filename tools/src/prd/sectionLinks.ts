@@ -0,0 +1,79 @@
+// prd/sectionLinks.ts
+// Links issues to the PRD sections they were derived from.
+
+import { Issue } from '../services/interfaces/IIssueService';
+import { readIssueMetadata, stripIssueMetadata } from '../utils/issueMetadata';
+import { PRDDocument, findSection, flattenSections, renderSection } from './prdParser';
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'are', 'our', 'can', 'should',
+  'will', 'need', 'needs', 'have', 'has', 'not', 'all', 'any', 'its', 'their', 'they', 'was', 'were'
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 2 && !STOP_WORDS.has(token));
+}
+
+function overlapScore(issueTokens: Set<string>, sectionTokens: Set<string>): number {
+  if (issueTokens.size === 0 || sectionTokens.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  sectionTokens.forEach(token => {
+    if (issueTokens.has(token)) shared++;
+  });
+  return shared / sectionTokens.size;
+}
+
+/**
+ * Resolve section references returned by the model (titles, paths or ids) to section ids
+ */
+export function resolveSectionIds(document: PRDDocument, references: string[]): string[] {
+  const ids = references
+    .map(reference => findSection(document, reference)?.id)
+    .filter((id): id is string => !!id);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Map issue numbers to PRD section ids. Uses the `prdSections` metadata written at creation time
+ * and falls back to keyword overlap for issues created before section tracking existed.
+ */
+export function linkIssuesToSections(
+  issues: Issue[],
+  document: PRDDocument,
+  options: { minScore?: number; maxLinks?: number } = {}
+): Map<number, string[]> {
+  const minScore = options.minScore ?? 0.2;
+  const maxLinks = options.maxLinks ?? 2;
+  const sections = flattenSections(document);
+  const knownIds = new Set(sections.map(section => section.id));
+  const sectionTokens = sections.map(section => ({
+    id: section.id,
+    tokens: new Set(tokenize(`${section.title}\n${renderSection(section)}`))
+  }));
+
+  const links = new Map<number, string[]>();
+  for (const issue of issues) {
+    const stored = (readIssueMetadata(issue.body).prdSections || []).filter(id => knownIds.has(id));
+    if (stored.length > 0) {
+      links.set(issue.number, stored);
+      continue;
+    }
+
+    const issueTokens = new Set(tokenize(`${issue.title}\n${stripIssueMetadata(issue.body)}`));
+    const inferred = sectionTokens
+      .map(section => ({ id: section.id, score: overlapScore(issueTokens, section.tokens) }))
+      .filter(candidate => candidate.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxLinks)
+      .map(candidate => candidate.id);
+
+    links.set(issue.number, inferred);
+  }
+
+  return links;
+}
@@ -0,0 +1,117 @@
+// prd/versionHistory.ts
+// Browsing the processed versions of a PRD recorded in an IPRDVersionStore.
+
+import type { IPRDVersionStore, PRDVersion, PRDVersionChanges } from '../services/interfaces/IPRDVersionStore';
+import { createUnifiedDiff } from '../utils/diff';
+
+export interface ResolvedPRDVersion {
+  version: PRDVersion;
+  /** 1-based position in the history, as shown by `renderPRDVersionHistory` */
+  number: number;
+}
+
+function mergeIssueNumbers(recorded: number[] | undefined, added: number[]): number[] | undefined {
+  const merged = Array.from(new Set([...(recorded || []), ...added])).sort((a, b) => a - b);
+  return merged.length > 0 ? merged : undefined;
+}
+
+/**
+ * Add issue changes to a version; returns the version itself when nothing new is recorded
+ */
+export function withVersionChanges(version: PRDVersion, changes?: PRDVersionChanges): PRDVersion {
+  const createdIssues = mergeIssueNumbers(version.createdIssues, changes?.createdIssues || []);
+  const updatedIssues = mergeIssueNumbers(version.updatedIssues, changes?.updatedIssues || []);
+  if ((createdIssues || []).length === (version.createdIssues || []).length &&
+      (updatedIssues || []).length === (version.updatedIssues || []).length) {
+    return version;
+  }
+  return { ...version, createdIssues, updatedIssues };
+}
+
+/**
+ * Find a version by reference: `latest`, a version number (`3` or `v3`) or a hash prefix
+ */
+export function findPRDVersion(versions: PRDVersion[], ref: string): ResolvedPRDVersion {
+  if (versions.length === 0) {
+    throw new Error('No versions recorded for this PRD');
+  }
+
+  if (ref === 'latest') {
+    return { version: versions[versions.length - 1], number: versions.length };
+  }
+
+  const numbered = ref.match(/^v?(\d+)$/);
+  if (numbered && Number(numbered[1]) >= 1 && Number(numbered[1]) <= versions.length) {
+    const number = Number(numbered[1]);
+    return { version: versions[number - 1], number };
+  }
+
+  const matches = versions
+    .map((version, index) => ({ version, number: index + 1 }))
+    .filter(({ version }) => version.hash.startsWith(ref));
+  const hashes = new Set(matches.map(({ version }) => version.hash));
+  if (matches.length === 0) {
+    throw new Error(`Unknown PRD version "${ref}" (expected latest, 1-${versions.length} or a hash prefix)`);
+  }
+  if (hashes.size > 1) {
+    throw new Error(`PRD version "${ref}" is ambiguous: ${Array.from(hashes).join(', ')}`);
+  }
+  // Content processed more than once resolves to its most recent occurrence
+  return matches[matches.length - 1];
+}
+
+/**
+ * Get the content of a version, failing when its snapshot is missing
+ */
+export async function loadPRDVersionContent(store: IPRDVersionStore, version: PRDVersion): Promise<string> {
+  const content = await store.getSnapshot(version.hash);
+  if (content === null) {
+    throw new Error(`Snapshot ${version.hash} of PRD "${version.prdId}" is missing`);
+  }
+  return content;
+}
+
+/**
+ * Unified diff between two recorded versions of a PRD
+ */
+export async function diffPRDVersions(store: IPRDVersionStore, prdId: string, fromRef: string, toRef: string): Promise<string> {
+  const versions = await store.getHistory(prdId);
+  const from = findPRDVersion(versions, fromRef);
+  const to = findPRDVersion(versions, toRef);
+
+  const [fromContent, toContent] = await Promise.all([
+    loadPRDVersionContent(store, from.version),
+    loadPRDVersionContent(store, to.version)
+  ]);
+  if (from.version.hash === to.version.hash) {
+    return `No changes between v${from.number} and v${to.number} (${from.version.hash})`;
+  }
+
+  return createUnifiedDiff(fromContent, toContent, {
+    oldLabel: `${from.version.prdPath} (v${from.number}, ${from.version.hash})`,
+    newLabel: `${to.version.prdPath} (v${to.number}, ${to.version.hash})`
+  });
+}
+
+function formatIssueNumbers(issueNumbers: number[] | undefined): string {
+  return (issueNumbers || []).map(number => `#${number}`).join(', ') || 'none';
+}
+
+/**
+ * Plain-text listing of a PRD's versions with the issues each one created or updated
+ */
+export function renderPRDVersionHistory(prdId: string, versions: PRDVersion[]): string {
+  if (versions.length === 0) {
+    return `No versions recorded for PRD "${prdId}"`;
+  }
+
+  const lines = [`PRD "${prdId}": ${versions.length} version(s)`, ''];
+  versions.forEach((version, index) => {
+    lines.push(
+      `v${index + 1}  ${version.hash}  ${version.recordedAt}  ${version.prdPath}`,
+      `    created: ${formatIssueNumbers(version.createdIssues)}`,
+      `    updated: ${formatIssueNumbers(version.updatedIssues)}`
+    );
+  });
+  return lines.join('\n');
+}
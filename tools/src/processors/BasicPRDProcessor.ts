@@ -1,23 +1,19 @@
 // scripts/prd-processor.ts
-import { Anthropic } from '@anthropic-ai/sdk';
 import { Octokit } from '@octokit/rest';
 import * as fs from 'fs';
 import * as path from 'path';
-
-interface AnalyzedFeature {
-  title: string;
-  description: string;
-  type: 'technical' | 'non-technical' | 'enabler';
-  priority: 'high' | 'medium' | 'low';
-  estimatedEffort: string;
-  acceptanceCriteria: string[];
-  dependencies: string[];
-  blockedFeatures: string[];
-  tags: string[];
-}
+import { ILLMProvider } from '../llm/interfaces/ILLMProvider';
+import { LLMProviderFactory } from '../llm/LLMProviderFactory';
+import { completeStructured } from '../llm/structuredCompletion';
+import { loadConfig } from '../config';
+import { AnalyzedFeature, OpenQuestion, PRDAnalysisSchema } from './schemas';
+import { IssueRef, matchBlockedIssues, renderQuestionIssue } from './openQuestions';
+import { prdLabel, resolvePRDId } from '../prd/prdId';
+import { updateIssueMetadata } from '../utils/issueMetadata';
 
 interface PRDAnalysis {
   features: AnalyzedFeature[];
+  openQuestions: OpenQuestion[];
   metadata: {
     prdTitle: string;
     summary: string;
@@ -26,18 +22,17 @@ interface PRDAnalysis {
 }
 
 class ProductManagerAgent {
-  private anthropic: Anthropic;
+  private llmProvider: ILLMProvider;
   private octokit: Octokit;
   private repoOwner: string;
   private repoName: string;
 
-  constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY!
-    });
+  constructor(llmProvider?: ILLMProvider) {
+    this.llmProvider = llmProvider || LLMProviderFactory.createFromEnv('anthropic');
 
     this.octokit = new Octokit({
-      auth: process.env.GITHUB_TOKEN!
+      auth: process.env.GITHUB_TOKEN!,
+      baseUrl: process.env.GITHUB_API_URL || undefined
     });
 
     const [owner, repo] = process.env.GITHUB_REPOSITORY!.split('/');
@@ -48,6 +43,7 @@ class ProductManagerAgent {
   async loadSystemPrompts(): Promise<{
     analysisPrompt: string;
     issueTemplates: Record<string, string>;
+    questionTemplate: string;
   }> {
     const analysisPrompt = fs.readFileSync(path.join(__dirname, '../../prompts/prd-analysis-prompt.md'), 'utf8');
 
@@ -57,19 +53,26 @@ class ProductManagerAgent {
       enabler: fs.readFileSync(path.join(__dirname, '../../templates/enabler-feature-template.md'), 'utf8')
     };
 
-    return { analysisPrompt, issueTemplates };
+    const questionTemplate = fs.readFileSync(path.join(__dirname, '../../templates/open-question-template.md'), 'utf8');
+
+    return { analysisPrompt, issueTemplates, questionTemplate };
   }
 
   async analyzePRD(prdContent: string, prdPath: string): Promise<PRDAnalysis> {
     const { analysisPrompt } = await this.loadSystemPrompts();
 
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 4000,
-      system: analysisPrompt,
-      messages: [{
-        role: 'user',
-        content: `Analyze this PRD document and extract features and open questions:
+    const { data: analysis } = await completeStructured(this.llmProvider, {
+      schema: PRDAnalysisSchema,
+      maxRepairAttempts: loadConfig().llm?.maxRepairAttempts,
+      maxTokens: 4000,
+      messages: [
+        {
+          role: 'system',
+          content: analysisPrompt
+        },
+        {
+          role: 'user',
+          content: `Analyze this PRD document and extract features and open questions:
 
 PRD File Path: ${prdPath}
 
@@ -77,37 +80,27 @@ PRD Content:
 ${prdContent}
 
 Please provide your analysis in JSON format matching the expected structure for features and open questions.`
-      }]
+        }
+      ]
     });
 
-    const analysisText = response.content[0].type === 'text' ? response.content[0].text : '';
-
-    try {
-      // Extract JSON from the response (handle potential markdown code blocks)
-      const jsonMatch = analysisText.match(/```json\s*([\s\S]*?)\s*```/) ||
-        analysisText.match(/({[\s\S]*})/);
-
-      if (!jsonMatch) {
-        throw new Error('No valid JSON found in analysis response');
+    return {
+      features: analysis.features,
+      openQuestions: analysis.openQuestions,
+      metadata: {
+        prdTitle: analysis.metadata?.prdTitle || path.basename(prdPath),
+        summary: analysis.metadata?.summary || 'PRD analysis generated automatically',
+        analysisDate: new Date().toISOString()
       }
-
-      const analysis = JSON.parse(jsonMatch[1]);
-
-      return {
-        features: analysis.features || [],
-        metadata: {
-          prdTitle: analysis.metadata?.prdTitle || path.basename(prdPath),
-          summary: analysis.metadata?.summary || 'PRD analysis generated automatically',
-          analysisDate: new Date().toISOString()
-        }
-      };
-    } catch (error) {
-      console.error('Failed to parse PRD analysis:', error);
-      throw new Error(`Failed to analyze PRD: ${error}`);
-    }
+    };
   }
 
-  async createFeatureIssue(feature: AnalyzedFeature, prdPath: string, allFeatures: AnalyzedFeature[] = []): Promise<number> {
+  async createFeatureIssue(
+    feature: AnalyzedFeature,
+    prdPath: string,
+    allFeatures: AnalyzedFeature[] = [],
+    prdId: string = resolvePRDId(prdPath)
+  ): Promise<number> {
     const { issueTemplates } = await this.loadSystemPrompts();
 
     const templateKey = feature.type === 'non-technical' ? 'nonTechnical' : feature.type;
@@ -128,6 +121,7 @@ Please provide your analysis in JSON format matching the expected structure for
 
     const labels = [
       'prd-generated',
+      prdLabel(prdId),
       `type:${feature.type}`,
       `priority:${feature.priority}`,
       ...feature.tags
@@ -137,13 +131,42 @@ Please provide your analysis in JSON format matching the expected structure for
       owner: this.repoOwner,
       repo: this.repoName,
       title: `[${feature.type.toUpperCase()}] ${feature.title}`,
-      body: issueBody,
+      body: updateIssueMetadata(issueBody, { prdId }),
       labels: labels
     });
 
     return response.data.number;
   }
 
+  async createQuestionIssue(
+    question: OpenQuestion,
+    prdPath: string,
+    featureIssues: IssueRef[],
+    prdId: string = resolvePRDId(prdPath)
+  ): Promise<number> {
+    const { questionTemplate } = await this.loadSystemPrompts();
+    const issue = renderQuestionIssue(questionTemplate, question, prdPath, featureIssues);
+
+    const response = await this.octokit.rest.issues.create({
+      owner: this.repoOwner,
+      repo: this.repoName,
+      title: issue.title,
+      body: updateIssueMetadata(issue.body, { prdId }),
+      labels: [...issue.labels, prdLabel(prdId)]
+    });
+
+    // Reference the blocker from every feature issue it blocks
+    for (const blocked of matchBlockedIssues(question, featureIssues).matched) {
+      await this.octokit.rest.issues.createComment({
+        owner: this.repoOwner,
+        repo: this.repoName,
+        issue_number: blocked.number,
+        body: `⛔ Blocked by #${response.data.number} (open question): ${question.question}`
+      });
+    }
+
+    return response.data.number;
+  }
 
   async processPRD(prdFilePath: string): Promise<void> {
     console.log(`Processing PRD file: ${prdFilePath}`);
@@ -153,30 +176,43 @@ Please provide your analysis in JSON format matching the expected structure for
     }
 
     const prdContent = fs.readFileSync(prdFilePath, 'utf8');
+    const prdId = resolvePRDId(prdFilePath, prdContent);
 
-    console.log('Analyzing PRD with Claude...');
+    console.log(`Analyzing PRD with ${this.llmProvider.name} (${this.llmProvider.model})...`);
     const analysis = await this.analyzePRD(prdContent, prdFilePath);
 
     console.log(`Found ${analysis.features.length} features`);
 
     const createdIssues = {
-      features: [] as number[]
+      features: [] as number[],
+      questions: [] as number[]
     };
+    const featureIssues: IssueRef[] = [];
 
     // Create feature issues
     for (const feature of analysis.features) {
       console.log(`Creating feature issue: ${feature.title} (${feature.type})`);
-      const issueNumber = await this.createFeatureIssue(feature, prdFilePath, analysis.features);
+      const issueNumber = await this.createFeatureIssue(feature, prdFilePath, analysis.features, prdId);
       createdIssues.features.push(issueNumber);
+      featureIssues.push({ number: issueNumber, title: feature.title });
+    }
+
+    // Create clarification-blocker issues for open questions
+    for (const question of analysis.openQuestions) {
+      console.log(`Creating question issue: ${question.question}`);
+      const issueNumber = await this.createQuestionIssue(question, prdFilePath, featureIssues, prdId);
+      createdIssues.questions.push(issueNumber);
     }
 
     // Create summary for workflow
     const summary = {
-      totalIssues: createdIssues.features.length,
+      totalIssues: createdIssues.features.length + createdIssues.questions.length,
       technical: analysis.features.filter(f => f.type === 'technical').length,
       nonTechnical: analysis.features.filter(f => f.type === 'non-technical').length,
       enablers: analysis.features.filter(f => f.type === 'enabler').length,
+      openQuestions: createdIssues.questions.length,
       prdPath: prdFilePath,
+      prdId,
       createdIssues
     };
 
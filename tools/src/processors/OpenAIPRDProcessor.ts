@@ -1,23 +1,19 @@
 // scripts/prd-processor-openai.ts
-import OpenAI from 'openai';
 import { Octokit } from '@octokit/rest';
 import * as fs from 'fs';
 import * as path from 'path';
-
-interface AnalyzedFeature {
-  title: string;
-  description: string;
-  type: 'technical' | 'non-technical' | 'enabler';
-  priority: 'high' | 'medium' | 'low';
-  estimatedEffort: string;
-  acceptanceCriteria: string[];
-  dependencies: string[];
-  blockedFeatures: string[];
-  tags: string[];
-}
+import { ILLMProvider } from '../llm/interfaces/ILLMProvider';
+import { LLMProviderFactory } from '../llm/LLMProviderFactory';
+import { completeStructured } from '../llm/structuredCompletion';
+import { loadConfig } from '../config';
+import { AnalyzedFeature, OpenQuestion, PRDAnalysisSchema } from './schemas';
+import { IssueRef, matchBlockedIssues, renderQuestionIssue } from './openQuestions';
+import { prdLabel, resolvePRDId } from '../prd/prdId';
+import { updateIssueMetadata } from '../utils/issueMetadata';
 
 interface PRDAnalysis {
   features: AnalyzedFeature[];
+  openQuestions: OpenQuestion[];
   metadata: {
     prdTitle: string;
     summary: string;
@@ -26,18 +22,17 @@ interface PRDAnalysis {
 }
 
 class ProductManagerAgent {
-  private openai: OpenAI;
+  private llmProvider: ILLMProvider;
   private octokit: Octokit;
   private repoOwner: string;
   private repoName: string;
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY!
-    });
+  constructor(llmProvider?: ILLMProvider) {
+    this.llmProvider = llmProvider || LLMProviderFactory.createFromEnv('openai');
 
     this.octokit = new Octokit({
-      auth: process.env.GITHUB_TOKEN!
+      auth: process.env.GITHUB_TOKEN!,
+      baseUrl: process.env.GITHUB_API_URL || undefined
     });
 
     const [owner, repo] = process.env.GITHUB_REPOSITORY!.split('/');
@@ -48,6 +43,7 @@ class ProductManagerAgent {
   async loadSystemPrompts(): Promise<{
     analysisPrompt: string;
     issueTemplates: Record<string, string>;
+    questionTemplate: string;
   }> {
     const analysisPrompt = fs.readFileSync(path.join(__dirname, '../../prompts/prd-analysis-prompt.md'), 'utf8');
 
@@ -57,15 +53,18 @@ class ProductManagerAgent {
       enabler: fs.readFileSync(path.join(__dirname, '../../templates/enabler-feature-template.md'), 'utf8')
     };
 
-    return { analysisPrompt, issueTemplates };
+    const questionTemplate = fs.readFileSync(path.join(__dirname, '../../templates/open-question-template.md'), 'utf8');
+
+    return { analysisPrompt, issueTemplates, questionTemplate };
   }
 
   async analyzePRD(prdContent: string, prdPath: string): Promise<PRDAnalysis> {
     const { analysisPrompt } = await this.loadSystemPrompts();
 
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4o',
-      max_tokens: 4000,
+    const { data: analysis } = await completeStructured(this.llmProvider, {
+      schema: PRDAnalysisSchema,
+      maxRepairAttempts: loadConfig().llm?.maxRepairAttempts,
+      maxTokens: 4000,
       temperature: 0.1,
       messages: [
         {
@@ -86,34 +85,23 @@ Please provide your analysis in JSON format matching the expected structure for
       ]
     });
 
-    const analysisText = response.choices[0]?.message?.content || '';
-
-    try {
-      // Extract JSON from the response (handle potential markdown code blocks)
-      const jsonMatch = analysisText.match(/```json\s*([\s\S]*?)\s*```/) ||
-        analysisText.match(/({[\s\S]*})/);
-
-      if (!jsonMatch) {
-        throw new Error('No valid JSON found in analysis response');
+    return {
+      features: analysis.features,
+      openQuestions: analysis.openQuestions,
+      metadata: {
+        prdTitle: analysis.metadata?.prdTitle || path.basename(prdPath),
+        summary: analysis.metadata?.summary || 'PRD analysis generated automatically',
+        analysisDate: new Date().toISOString()
       }
-
-      const analysis = JSON.parse(jsonMatch[1]);
-
-      return {
-        features: analysis.features || [],
-        metadata: {
-          prdTitle: analysis.metadata?.prdTitle || path.basename(prdPath),
-          summary: analysis.metadata?.summary || 'PRD analysis generated automatically',
-          analysisDate: new Date().toISOString()
-        }
-      };
-    } catch (error) {
-      console.error('Failed to parse PRD analysis:', error);
-      throw new Error(`Failed to analyze PRD: ${error}`);
-    }
+    };
   }
 
-  async createFeatureIssue(feature: AnalyzedFeature, prdPath: string, allFeatures: AnalyzedFeature[] = []): Promise<number> {
+  async createFeatureIssue(
+    feature: AnalyzedFeature,
+    prdPath: string,
+    allFeatures: AnalyzedFeature[] = [],
+    prdId: string = resolvePRDId(prdPath)
+  ): Promise<number> {
     const { issueTemplates } = await this.loadSystemPrompts();
 
     const templateKey = feature.type === 'non-technical' ? 'nonTechnical' : feature.type;
@@ -134,6 +122,7 @@ Please provide your analysis in JSON format matching the expected structure for
 
     const labels = [
       'prd-generated',
+      prdLabel(prdId),
       `type:${feature.type}`,
       `priority:${feature.priority}`,
       ...feature.tags
@@ -143,13 +132,42 @@ Please provide your analysis in JSON format matching the expected structure for
       owner: this.repoOwner,
       repo: this.repoName,
       title: `[${feature.type.toUpperCase()}] ${feature.title}`,
-      body: issueBody,
+      body: updateIssueMetadata(issueBody, { prdId }),
       labels: labels
     });
 
     return response.data.number;
   }
 
+  async createQuestionIssue(
+    question: OpenQuestion,
+    prdPath: string,
+    featureIssues: IssueRef[],
+    prdId: string = resolvePRDId(prdPath)
+  ): Promise<number> {
+    const { questionTemplate } = await this.loadSystemPrompts();
+    const issue = renderQuestionIssue(questionTemplate, question, prdPath, featureIssues);
+
+    const response = await this.octokit.rest.issues.create({
+      owner: this.repoOwner,
+      repo: this.repoName,
+      title: issue.title,
+      body: updateIssueMetadata(issue.body, { prdId }),
+      labels: [...issue.labels, prdLabel(prdId)]
+    });
+
+    // Reference the blocker from every feature issue it blocks
+    for (const blocked of matchBlockedIssues(question, featureIssues).matched) {
+      await this.octokit.rest.issues.createComment({
+        owner: this.repoOwner,
+        repo: this.repoName,
+        issue_number: blocked.number,
+        body: `⛔ Blocked by #${response.data.number} (open question): ${question.question}`
+      });
+    }
+
+    return response.data.number;
+  }
 
   async processPRD(prdFilePath: string): Promise<void> {
     console.log(`Processing PRD file: ${prdFilePath}`);
@@ -159,30 +177,43 @@ Please provide your analysis in JSON format matching the expected structure for
     }
 
     const prdContent = fs.readFileSync(prdFilePath, 'utf8');
+    const prdId = resolvePRDId(prdFilePath, prdContent);
 
-    console.log('Analyzing PRD with OpenAI GPT-4...');
+    console.log(`Analyzing PRD with ${this.llmProvider.name} (${this.llmProvider.model})...`);
     const analysis = await this.analyzePRD(prdContent, prdFilePath);
 
     console.log(`Found ${analysis.features.length} features`);
 
     const createdIssues = {
-      features: [] as number[]
+      features: [] as number[],
+      questions: [] as number[]
     };
+    const featureIssues: IssueRef[] = [];
 
     // Create feature issues
     for (const feature of analysis.features) {
       console.log(`Creating feature issue: ${feature.title} (${feature.type})`);
-      const issueNumber = await this.createFeatureIssue(feature, prdFilePath, analysis.features);
+      const issueNumber = await this.createFeatureIssue(feature, prdFilePath, analysis.features, prdId);
       createdIssues.features.push(issueNumber);
+      featureIssues.push({ number: issueNumber, title: feature.title });
+    }
+
+    // Create clarification-blocker issues for open questions
+    for (const question of analysis.openQuestions) {
+      console.log(`Creating question issue: ${question.question}`);
+      const issueNumber = await this.createQuestionIssue(question, prdFilePath, featureIssues, prdId);
+      createdIssues.questions.push(issueNumber);
     }
 
     // Create summary for workflow
     const summary = {
-      totalIssues: createdIssues.features.length,
+      totalIssues: createdIssues.features.length + createdIssues.questions.length,
       technical: analysis.features.filter(f => f.type === 'technical').length,
       nonTechnical: analysis.features.filter(f => f.type === 'non-technical').length,
       enablers: analysis.features.filter(f => f.type === 'enabler').length,
+      openQuestions: createdIssues.questions.length,
       prdPath: prdFilePath,
+      prdId,
       createdIssues
     };
 
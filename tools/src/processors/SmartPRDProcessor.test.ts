@@ -0,0 +1,116 @@
+// processors/SmartPRDProcessor.test.ts
+// End-to-end PRD runs with LocalLLMProvider and in-memory issues
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SmartPRDProcessor } from './SmartPRDProcessor';
+import { InMemoryIssueService } from '../services/implementations/InMemoryIssueService';
+import { GitHubIssueService } from '../services/implementations/GitHubIssueService';
+import { FakeGitHubServer } from '../services/testing/FakeGitHubServer';
+import { createChangePlan } from '../plans/changePlan';
+import { RunJournal } from '../plans/runJournal';
+import { UnifiedPlanResultSchema } from './schemas';
+import { writeIssueMetadata } from '../utils/issueMetadata';
+import { generateContentHash } from '../utils/hash';
+import { LocalLLMProvider } from '../llm/implementations';
+
+const PRD = `# Authentication PRD
+
+## Login
+
+Users log in with email and password.
+
+## Open Questions
+
+- Do we support SSO?
+`;
+
+const analysis = {
+  features: [{
+    title: 'Login',
+    description: 'Users log in with email and password',
+    type: 'technical',
+    priority: 'high',
+    estimatedEffort: 's',
+    acceptanceCriteria: ['Users can log in with valid credentials']
+  }],
+  openQuestions: []
+};
+
+const github = new FakeGitHubServer();
+
+before(async () => {
+  await github.start();
+  // Run journals and plans are written to the working directory
+  process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), 'smart-prd-')));
+  fs.writeFileSync('auth.md', PRD);
+});
+
+after(async () => {
+  await github.stop();
+});
+
+test('files the PRD features and open questions once', async () => {
+  const issueService = new InMemoryIssueService();
+  const llmProvider = new LocalLLMProvider({ defaultResponse: analysis });
+
+  await new SmartPRDProcessor(issueService, llmProvider, null, null).processPRD('auth.md');
+
+  const issues = await issueService.getIssues({ state: 'all' });
+  assert.deepEqual(issues.map(issue => issue.title).sort(), ['[QUESTION] Do we support SSO?', '[TECHNICAL] Login']);
+  assert.ok(llmProvider.getRequests().length > 0);
+
+  // An unchanged PRD, even with its question answered and closed, files nothing new
+  const question = issues.find(issue => issue.labels.includes('type:question'))!;
+  await issueService.closeIssue(question.number);
+  await new SmartPRDProcessor(issueService, llmProvider, null, null).processPRD('auth.md');
+
+  assert.equal((await issueService.getIssues({ state: 'all' })).length, issues.length);
+});
+
+test('compares with the newest PRD version stored with any issue, read from the listed bodies', async () => {
+  const issueService = new GitHubIssueService({ token: 'test-token', owner: github.owner, repo: github.repo, baseUrl: github.baseUrl });
+  const storedWith = (content: string, timestamp: string) => writeIssueMetadata('Generated', {
+    prdVersion: { hash: generateContentHash(content), blobSha: github.addBlob(content), path: 'auth.md', timestamp }
+  });
+  github.seedIssue({ title: 'Logout', labels: ['prd-generated', 'prd:auth'], body: storedWith(PRD, '2026-02-01T00:00:00.000Z') });
+  github.seedIssue({ title: 'Login', labels: ['prd-generated', 'prd:auth'], body: storedWith('# Older PRD', '2026-01-01T00:00:00.000Z') });
+
+  const changed = await new SmartPRDProcessor(issueService, new LocalLLMProvider(), null, null).hasPRDChanged('auth.md');
+
+  assert.equal(changed, false);
+  // Only the newest issue is read again, for its stored version
+  const issueReads = github.getRequests().filter(request => /\/issues\/\d+$/.test(request.path));
+  assert.deepEqual(issueReads.map(request => request.path.split('/').pop()), ['1']);
+});
+
+test('counts only the issues a resumed run created itself', async () => {
+  const issueService = new InMemoryIssueService();
+  const feature = (title: string) => ({ ...analysis.features[0], title });
+  const changePlan = createChangePlan('update', 'auth.md', PRD, [], UnifiedPlanResultSchema.parse({
+    changeAssessment: { hasSignificantChanges: true, changeSummary: 'New features', reasoningForSignificance: 'Scope grew' },
+    issueUpdates: [],
+    newFeatures: [feature('Login'), feature('Logout')],
+    summary: { totalIssuesAnalyzed: 0, issuesRequiringUpdates: 0, issuesMarkedObsolete: 0, newIssuesNeeded: 2, overallRationale: 'Add features' }
+  }));
+  const createIssue = issueService.createIssue.bind(issueService);
+  issueService.createIssue = async issue => {
+    if (issue.title.includes('Logout')) {
+      throw new Error('Service unavailable');
+    }
+    return createIssue(issue);
+  };
+  const processor = new SmartPRDProcessor(issueService, new LocalLLMProvider(), null, null);
+  const journal = RunJournal.start(changePlan, 'prd-runs');
+
+  await assert.rejects(processor.executeChangePlan(changePlan, journal), /Service unavailable/);
+  issueService.createIssue = createIssue;
+  journal.resume();
+  await processor.executeChangePlan(changePlan, journal);
+
+  assert.equal((await issueService.getIssues()).length, 2);
+  assert.equal(JSON.parse(fs.readFileSync('smart-update-summary.json', 'utf8')).created, 1);
+});
@@ -1,135 +1,327 @@
 // scripts/prd-processor-smart.ts
 
-import OpenAI from 'openai';
 import * as fs from 'fs';
 import * as path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { IIssueService, Issue } from '../services/interfaces/IIssueService';
+import { z } from 'zod';
+import { IIssueService, Issue, IssueData } from '../services/interfaces/IIssueService';
+import { IPRDVersionStore, PRDSnapshotNotFoundError, PRDVersion, PRDVersionChanges } from '../services/interfaces/IPRDVersionStore';
 import { IssueServiceFactory } from '../services/IssueServiceFactory';
+import { ILLMProvider } from '../llm/interfaces/ILLMProvider';
+import { IEmbeddingProvider } from '../llm/interfaces/IEmbeddingProvider';
+import { LLMProviderFactory } from '../llm/LLMProviderFactory';
+import { AIResponseValidationError, completeStructured, parseStructuredResponse } from '../llm/structuredCompletion';
+import { CachedRequest, DEFAULT_AI_CACHE_DIRECTORY, ResponseCache } from '../llm/responseCache';
+import { PromptSection, TokenBudget, TokenBudgetExceededError, estimateTokens, fitPromptSections, getModelTokenLimits } from '../llm/tokenBudget';
+import { loadConfig } from '../config';
+import {
+  AnalyzedFeature,
+  DuplicateFeature,
+  IssueUpdatePlan,
+  OpenQuestion,
+  PRDAnalysisSchema,
+  Stage1Result,
+  Stage1ResultSchema,
+  Stage2Result,
+  Stage2ResultSchema,
+  PRDAnalysisResult,
+  UnifiedPlanResult,
+  createUnifiedPlanSchema
+} from './schemas';
+import { ChangePlan, createChangePlan, defaultChangePlanPath, loadChangePlan, writeChangePlan } from '../plans/changePlan';
+import { DEFAULT_RUN_JOURNAL_DIRECTORY, RunJournal } from '../plans/runJournal';
+import { generateContentHash } from '../utils/hash';
+import { createUnifiedDiff, isDiffHeaderLine } from '../utils/diff';
+import { readIssueMetadata, stripIssueMetadata, updateIssueMetadata, writeIssueMetadata } from '../utils/issueMetadata';
+import { parsePRD, renderOutline } from '../prd/prdParser';
+import { DEFAULT_PRD_DIRECTORY, belongsToPRD, getIssuePRDId, listPRDFiles, prdLabel, resolvePRDId } from '../prd/prdId';
+import { SectionChange, diffPRDDocuments, getAffectedSections } from '../prd/sectionDiff';
+import { linkIssuesToSections, resolveSectionIds } from '../prd/sectionLinks';
+import { diffPRDVersions, findPRDVersion, loadPRDVersionContent, renderPRDVersionHistory } from '../prd/versionHistory';
+import { GitPRDBaselineProvider, createGitBaselineProvider } from '../prd/gitBaseline';
+import { IssueIndex } from '../retrieval/issueIndex';
 import { log, createModuleLogger } from '../utils/logger';
+import { normalizeTitle } from '../utils/titles';
+import {
+  IssueRef,
+  extractOpenQuestions,
+  isQuestionIssue,
+  matchBlockedIssues,
+  normalizeQuestion,
+  reconcileOpenQuestions,
+  renderQuestionIssue
+} from './openQuestions';
+import { PlannedIssueLink, resolveFeatureLinks } from './featureLinks';
+import { needsFollowUp, renderFollowUpIssue } from './followUps';
+import {
+  DEFAULT_MIN_RELEVANCE,
+  PlanningRetrievalConfig,
+  chunkItems,
+  mergeBatchPlans,
+  resolvePlanningRetrievalConfig,
+  retrievalQueries
+} from './planBatches';
+import {
+  DuplicatePolicyConfig,
+  findFlaggedDuplicate,
+  flagPossibleDuplicate,
+  matchDuplicateFeatures,
+  planDuplicateMerge,
+  resolveDuplicatePolicy
+} from './duplicates';
+import { planGeneratedBodyUpdate, recordGeneratedBody } from './generatedBody';
+import {
+  ObsoletePolicyConfig,
+  isObsoleteIssue,
+  matchReintroducedFeatures,
+  planObsoleteUpdate,
+  planReopenUpdate,
+  resolveObsoletePolicy
+} from './obsolete';
 
 // Create module-specific logger
 const logger = createModuleLogger('SmartPRDProcessor');
 
-const execAsync = promisify(exec);
-
-interface AnalyzedFeature {
-  title: string;
-  description: string;
-  type: 'technical' | 'non-technical' | 'enabler';
-  priority: 'high' | 'medium' | 'low';
-  estimatedEffort: string;
-  acceptanceCriteria: string[];
-  dependencies: string[];
-  blockedFeatures: string[];
-  tags: string[];
-  reason?: string;
-}
-
-// Legacy interfaces - kept for compatibility during transition
-interface Stage1Result {
-  relevantIssues: Array<{
-    issueNumber: number;
-    title: string;
-    relevance: 'high' | 'medium' | 'low';
-    reason: string;
-    affectedSections: string[];
-  }>;
-  unrelatedIssues: number[];
-  summary: string;
-}
-
-interface Stage2Result {
-  updatePlans: Array<{
-    issueNumber: number;
-    updates: {
-      title?: string;
-      body?: string;
-      labels?: string[];
-    };
-    comment?: string;
-    changeType: 'minor' | 'major' | 'scope_change';
-    updateSummary: string;
-  }>;
-  noUpdateNeeded: number[];
-  summary: string;
-}
+// Issue bodies are cut to this many characters when the planning prompt does not fit otherwise
+const COMPACT_ISSUE_BODY_LENGTH = 600;
 
-interface Stage3Result {
-  metadata: {
-    prdTitle: string;
-    summary: string;
-  };
-  features: AnalyzedFeature[];
+export interface ProcessPRDOptions {
+  /** Write a reviewable change plan instead of modifying issues */
+  dryRun?: boolean;
+  /** Base path (without extension) for the plan files written in dry-run mode */
+  planOutputPath?: string;
+  /** Resume an unfinished run of the same PRD content instead of planning again (default true) */
+  resume?: boolean;
 }
 
-// New unified planning interfaces
-interface ChangeAssessment {
-  hasSignificantChanges: boolean;
-  changeSummary: string;
-  trivialChangesIgnored: string[];
-  reasoningForSignificance: string;
+/**
+ * A recorded PRD version with its content, used as the "before" side of planning
+ */
+export interface PRDBaseline {
+  version: PRDVersion;
+  content: string;
 }
 
-interface IssueUpdatePlan {
-  issueNumber: number;
-  action: 'update' | 'obsolete' | 'no_change';
-  changeSignificance: 'minor' | 'major' | 'scope_change';
-  reasoning: string;
-  updates?: {
-    title?: string;
-    body?: string;
-    labels?: string[];
-  };
-  comment?: string;
-  updateSummary?: string;
+/**
+ * PRD content to plan instead of the file on disk, with the version to compare it against
+ */
+export interface PRDPlanningSource {
+  content: string;
+  baseline: PRDBaseline | null;
 }
 
-interface UnifiedPlanResult {
-  changeAssessment: ChangeAssessment;
-  issueUpdates: IssueUpdatePlan[];
-  newFeatures: AnalyzedFeature[];
-  summary: {
-    totalIssuesAnalyzed: number;
-    issuesRequiringUpdates: number;
-    issuesMarkedObsolete: number;
-    newIssuesNeeded: number;
-    overallRationale: string;
-  };
+export interface PRDBatchResult {
+  prdPath: string;
+  prdId: string;
+  status: 'processed' | 'unchanged' | 'failed';
+  error?: string;
 }
 
 export class SmartPRDProcessor {
-  private openai: OpenAI;
+  private llmProvider: ILLMProvider;
   private issueService: IIssueService;
-
-  constructor(issueService: IIssueService) {
+  private maxRepairAttempts: number;
+  private maxContinuations: number | undefined;
+  // Overrides of the model's known output and prompt limits
+  private maxOutputTokens: number | undefined;
+  private maxPromptTokens: number | undefined;
+  // Tokens spent planning the current PRD; AI_TOKEN_BUDGET caps it
+  private tokenBudget: TokenBudget;
+  private responseCache: ResponseCache | null;
+  private obsoletePolicy: ObsoletePolicyConfig;
+  private duplicatePolicy: DuplicatePolicyConfig;
+  private planningRetrieval: PlanningRetrievalConfig;
+  private embeddingProvider: IEmbeddingProvider | null;
+  private gitBaseline: GitPRDBaselineProvider | null;
+  // Issues created/updated by the plan being executed, recorded with the processed PRD version
+  private versionChanges: PRDVersionChanges = { createdIssues: [], updatedIssues: [] };
+  // Journal of the run being executed; operations it records as done are skipped
+  private journal: RunJournal | null = null;
+  private runJournalDirectory: string;
+
+  /**
+   * @param gitBaseline Where to read the previous PRD version from git; defaults to `PRD_BASELINE`,
+   * null diffs against the issue service's stored versions only
+   * @param embeddingProvider Embeddings for retrieving relevant issues in large backlogs; defaults to
+   * `EMBEDDING_PROVIDER`, null uses TF-IDF
+   * @param responseCache Where AI responses are cached by request; defaults to `AI_CACHE_DIR`, null always
+   * calls the model
+   */
+  constructor(
+    issueService: IIssueService,
+    llmProvider?: ILLMProvider,
+    gitBaseline?: GitPRDBaselineProvider | null,
+    embeddingProvider?: IEmbeddingProvider | null,
+    responseCache?: ResponseCache | null
+  ) {
+    const config = loadConfig();
     this.issueService = issueService;
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY!
-    });
+    this.llmProvider = llmProvider || LLMProviderFactory.createFromEnv('openai');
+    this.maxRepairAttempts = config.llm?.maxRepairAttempts ?? 2;
+    this.maxContinuations = config.llm?.maxContinuations;
+    this.maxOutputTokens = config.llm?.maxOutputTokens;
+    this.maxPromptTokens = config.llm?.maxPromptTokens;
+    this.tokenBudget = new TokenBudget(config.llm?.tokenBudget ?? null);
+    // Canned local responses are reproducible already, and caching them would bypass the response queue
+    this.responseCache = responseCache !== undefined ? responseCache :
+      this.llmProvider.name === 'local' ? null : new ResponseCache(config.llm?.cacheDirectory || DEFAULT_AI_CACHE_DIRECTORY);
+    this.obsoletePolicy = resolveObsoletePolicy(config.prd);
+    this.duplicatePolicy = resolveDuplicatePolicy(config.prd);
+    this.planningRetrieval = resolvePlanningRetrievalConfig(config.retrieval);
+    this.embeddingProvider = embeddingProvider !== undefined ? embeddingProvider : LLMProviderFactory.createEmbeddingProviderFromEnv();
+    this.runJournalDirectory = config.prd?.runJournalDirectory || DEFAULT_RUN_JOURNAL_DIRECTORY;
+    this.gitBaseline = gitBaseline !== undefined ? gitBaseline : createGitBaselineProvider(config.prd?.baseline, config.prd?.stateFile);
   }
 
-  async getPRDDiff(prdContent: string, existingIssues: Issue[]): Promise<string> {
-    // If we have issues with PRD version support, use the first one as reference
-    if (existingIssues.length > 0 && this.issueService.getPRDDiff) {
-      const firstIssue = existingIssues[0];
+  /**
+   * Diff against the baseline (git or last processed version of the PRD); without one
+   * (backends keeping no version history) the newest version stored with an issue is used
+   */
+  async getPRDDiff(prdContent: string, existingIssues: Issue[], baseline: PRDBaseline | null = null): Promise<string> {
+    if (baseline) {
+      if (baseline.version.hash === generateContentHash(prdContent)) {
+        return 'No changes detected between stored and current PRD versions';
+      }
+      const { prdPath, hash, commit, recordedAt } = baseline.version;
+      return createUnifiedDiff(baseline.content, prdContent, {
+        oldLabel: commit ? `${prdPath} (${commit.substring(0, 12)}, committed ${recordedAt})` : `${prdPath} (${hash}, processed ${recordedAt})`,
+        newLabel: `${baseline.version.prdPath} (current)`
+      });
+    }
+
+    const referenceIssue = await this.findPRDVersionReferenceIssue(existingIssues);
+    if (referenceIssue && this.issueService.getPRDDiff) {
       try {
-        const diff = await this.issueService.getPRDDiff(firstIssue.number, prdContent);
+        const diff = await this.issueService.getPRDDiff(referenceIssue.number, prdContent);
         logger.debug('PRD diff generated successfully', {
           action: 'prd_diff_generation',
-          issueNumber: firstIssue.number,
+          issueNumber: referenceIssue.number,
           diffLength: diff.length,
           diffPreview: diff.substring(0, 200) + '...'
         });
         return diff;
       } catch (error) {
+        if (error instanceof PRDSnapshotNotFoundError) {
+          throw error;
+        }
         logger.warn('Could not get PRD diff from stored version:', error);
       }
     }
     return 'No stored PRD version available for comparison';
   }
 
+  async getStoredPRDContent(existingIssues: Issue[], baseline: PRDBaseline | null = null): Promise<string | null> {
+    if (baseline) {
+      return baseline.content;
+    }
+
+    const referenceIssue = await this.findPRDVersionReferenceIssue(existingIssues);
+    if (!referenceIssue || !this.issueService.getPRDVersion) {
+      return null;
+    }
+    try {
+      return await this.issueService.getPRDVersion(referenceIssue.number);
+    } catch (error) {
+      if (error instanceof PRDSnapshotNotFoundError) {
+        throw error;
+      }
+      logger.warn('Could not load stored PRD version:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Issue referencing the most recently stored PRD version. Only the issues a run creates or updates
+   * reference its version, so any other issue may still point at an older one.
+   * Remote backends keep the reference in the issue metadata, which the listed bodies already carry;
+   * only backends storing versions beside their issues (file system, in memory) are asked per issue.
+   */
+  private async findPRDVersionReferenceIssue(issues: Issue[]): Promise<Issue | undefined> {
+    const newestOf = (candidates: Array<{ issue: Issue; storedAt: string }>) =>
+      candidates.reduce<{ issue: Issue; storedAt: string } | undefined>(
+        (newest, candidate) => !newest || candidate.storedAt > newest.storedAt ? candidate : newest, undefined)?.issue;
+
+    const fromMetadata = issues.flatMap(issue => {
+      const prdVersion = readIssueMetadata(issue.body).prdVersion;
+      return prdVersion ? [{ issue, storedAt: prdVersion.timestamp }] : [];
+    });
+    if (fromMetadata.length > 0 || !this.issueService.getPRDVersionReference) {
+      return fromMetadata.length > 0 ? newestOf(fromMetadata) : issues[0];
+    }
+
+    const fromStore: Array<{ issue: Issue; storedAt: string }> = [];
+    for (const issue of issues) {
+      const reference = await this.issueService.getPRDVersionReference(issue.number);
+      if (reference) {
+        fromStore.push({ issue, storedAt: reference.storedAt });
+      }
+    }
+    return newestOf(fromStore);
+  }
+
+  /**
+   * The PRD at the configured git baseline or, without one, the last processed version
+   * if the backend keeps a version history
+   */
+  private async getBaselineVersion(prdId: string, prdPath: string): Promise<PRDBaseline | null> {
+    const gitBaseline = this.gitBaseline ? await this.gitBaseline.getBaseline(prdId, prdPath) : null;
+    if (gitBaseline) {
+      return {
+        version: {
+          prdId,
+          hash: generateContentHash(gitBaseline.content),
+          prdPath,
+          recordedAt: gitBaseline.committedAt,
+          commit: gitBaseline.commit
+        },
+        content: gitBaseline.content
+      };
+    }
+
+    const store = this.issueService.getPRDVersionStore?.();
+    if (!store) {
+      return null;
+    }
+
+    const version = await store.getLatestVersion(prdId);
+    const content = version ? await store.getSnapshot(version.hash) : null;
+    return version && content !== null ? { version, content } : null;
+  }
+
+  private requirePRDVersionStore(): IPRDVersionStore {
+    const store = this.issueService.getPRDVersionStore?.();
+    if (!store) {
+      throw new Error('The issue service does not keep a PRD version history');
+    }
+    return store;
+  }
+
+  /**
+   * Reference the PRD version from the issue and note the issue as changed by that version
+   */
+  private async referencePRDVersion(issueNumber: number, prdContent: string, prdPath: string, change: keyof PRDVersionChanges): Promise<void> {
+    this.versionChanges[change].push(issueNumber);
+    if (this.issueService.storePRDVersion) {
+      await this.issueService.storePRDVersion(issueNumber, prdContent, prdPath);
+    }
+  }
+
+  /**
+   * Make the executed PRD content the baseline of the next run, with the issues it changed
+   */
+  private async recordProcessedVersion(changePlan: ChangePlan): Promise<void> {
+    const prdId = changePlan.prdId ?? resolvePRDId(changePlan.prdPath, changePlan.prdContent);
+    if (this.gitBaseline) {
+      await this.gitBaseline.recordProcessed(prdId, changePlan.prdPath);
+    }
+
+    const store = this.issueService.getPRDVersionStore?.();
+    if (!store) {
+      return;
+    }
+
+    await store.recordVersion(prdId, changePlan.prdPath, changePlan.prdContent, this.versionChanges);
+  }
+
   async loadPrompt(promptFile: string): Promise<string> {
     const promptPath = path.join(__dirname, '../../prompts', promptFile);
     logger.debug('Loading prompt file', {
@@ -151,7 +343,7 @@ export class SmartPRDProcessor {
   analyzeChangeSignificance(prdDiff: string): { isSignificant: boolean, filteredDiff: string, trivialChanges: string[] } {
     const lines = prdDiff.split('\n');
     const trivialPatterns = [
-      /^[+\-]\s*version:\s*\d+\.\d+/i,  // Version numbers
+      /^[+\-]\s*version:?\s*v?\d+\.\d+/i,  // Version numbers
       /^[+\-]\s*date:\s*\d{4}-\d{2}-\d{2}/i,  // Dates
       /^[+\-]\s*updated:\s*\d{4}-\d{2}-\d{2}/i,  // Update dates
       /^[+\-]\s*v\d+\.\d+(\.\d+)?/i,  // Version references
@@ -164,7 +356,7 @@ export class SmartPRDProcessor {
     const significantLines: string[] = [];
 
     for (const line of lines) {
-      if (line.trim() === '') {
+      if (line.trim() === '' || isDiffHeaderLine(line)) {
         continue;
       }
 
@@ -202,7 +394,8 @@ export class SmartPRDProcessor {
   async planComprehensiveChanges(
     prdContent: string,
     prdDiff: string,
-    existingIssues: Issue[]
+    existingIssues: Issue[],
+    previousPRDContent?: string | null
   ): Promise<UnifiedPlanResult> {
     logger.info('🎯 Stage 1: Starting unified comprehensive planning', {
       action: 'unified_planning_start',
@@ -214,7 +407,22 @@ export class SmartPRDProcessor {
     // First, analyze change significance
     const changeAnalysis = this.analyzeChangeSignificance(prdDiff);
 
-    if (!changeAnalysis.isSignificant) {
+    // Section-level view of the change (only possible with a stored baseline)
+    const prdDocument = parsePRD(prdContent);
+    const sectionChanges = previousPRDContent ? diffPRDDocuments(parsePRD(previousPRDContent), prdDocument) : null;
+    const affectedSections = sectionChanges ? getAffectedSections(sectionChanges) : null;
+
+    if (affectedSections) {
+      logger.info(`🧩 Section analysis: ${affectedSections.length} of ${sectionChanges!.length} sections changed semantically`, {
+        action: 'section_change_analysis',
+        affectedSections: affectedSections.map(change => ({ id: change.id, type: change.type })),
+        formattingOnlySections: sectionChanges!
+          .filter(change => change.type === 'modified' && !change.semantic)
+          .map(change => change.id)
+      });
+    }
+
+    if (!changeAnalysis.isSignificant || (affectedSections && affectedSections.length === 0)) {
       logger.info('📋 No significant changes detected - skipping processing', {
         action: 'no_significant_changes',
         trivialChangesCount: changeAnalysis.trivialChanges.length,
@@ -235,11 +443,16 @@ export class SmartPRDProcessor {
           reasoning: 'No significant changes affect this issue'
         })),
         newFeatures: [],
+        openQuestions: [],
+        resolvedQuestionIssues: [],
+        reopenIssues: [],
+        duplicateFeatures: [],
         summary: {
           totalIssuesAnalyzed: existingIssues.length,
           issuesRequiringUpdates: 0,
           issuesMarkedObsolete: 0,
           newIssuesNeeded: 0,
+          followUpIssuesNeeded: 0,
           overallRationale: 'No action required - only trivial changes detected'
         }
       };
@@ -248,68 +461,141 @@ export class SmartPRDProcessor {
     // Load the unified planning prompt
     const prompt = await this.loadPrompt('prd-unified-planning.md');
 
-    // Build comprehensive context for AI analysis
-    const existingIssuesContext = existingIssues.map(issue => ({
-      number: issue.number,
-      title: issue.title,
-      body: issue.body,
-      labels: issue.labels
-    }));
-
-    const userContent = `
-## Current PRD Content:
-${prdContent}
-
-## PRD Changes (Filtered for Significance):
-${changeAnalysis.filteredDiff}
-
-## Trivial Changes Filtered Out:
-${changeAnalysis.trivialChanges.join('\n')}
-
-## Existing Issues:
-${JSON.stringify(existingIssuesContext, null, 2)}
+    // Large backlogs: only issues relevant to the change, planned in prompt-sized batches
+    const sectionLinks = linkIssuesToSections(existingIssues, prdDocument);
+    const { relevant, unrelated } = await this.selectPlanningIssues(existingIssues, sectionLinks, affectedSections, changeAnalysis.filteredDiff);
+    const batches = chunkItems(relevant, this.planningRetrieval.batchSize);
+
+    // With a section-level diff only the affected sections are sent; otherwise the whole PRD
+    const prdContext: PromptSection[] = affectedSections ? [
+      { heading: 'PRD Outline', content: renderOutline(prdDocument), priority: 'low' },
+      { heading: 'Affected PRD Sections', content: this.renderAffectedSections(affectedSections), priority: 'required' }
+    ] : [
+      { heading: 'Current PRD Content', content: prdContent, priority: 'required' }
+    ];
 
-## Previous Processing Context:
-This is an update to an existing PRD. Focus on semantic changes that affect implementation or requirements.
+    const batchResults: UnifiedPlanResult[] = [];
+    for (const [index, batch] of batches.entries()) {
+      const existingIssuesContext = (bodyLength?: number) => JSON.stringify(batch.map(issue => {
+        const body = stripIssueMetadata(issue.body);
+        return {
+          number: issue.number,
+          title: issue.title,
+          state: issue.state,
+          body: bodyLength !== undefined && body.length > bodyLength ? `${body.substring(0, bodyLength)}... (shortened)` : body,
+          labels: issue.labels,
+          linkedSections: sectionLinks.get(issue.number) || []
+        };
+      }), null, 2);
+      // Titles of the issues in other batches, so features they cover are not proposed as new
+      const otherIssues = relevant.filter(issue => !batch.includes(issue));
+
+      // Every issue of the batch must be planned, so long issue bodies are shortened rather than dropped
+      const userContent: PromptSection[] = [
+        ...prdContext,
+        { heading: 'PRD Changes (Filtered for Significance)', content: changeAnalysis.filteredDiff, priority: 'high' },
+        { heading: 'Trivial Changes Filtered Out', content: changeAnalysis.trivialChanges.join('\n'), priority: 'low' },
+        { heading: 'Existing Issues', content: existingIssuesContext(), compact: existingIssuesContext(COMPACT_ISSUE_BODY_LENGTH), priority: 'required' },
+        {
+          heading: 'Other Existing Issues (planned separately - do not update them, and do not propose new features they already cover)',
+          content: otherIssues.map(issue => `- #${issue.number}: ${issue.title}`).join('\n'),
+          priority: 'low'
+        },
+        {
+          heading: 'Previous Processing Context',
+          content: `This is an update to an existing PRD. Focus on semantic changes that affect implementation or requirements.
 Total existing issues: ${existingIssues.length}
-Trivial changes filtered: ${changeAnalysis.trivialChanges.length}
-`;
+Trivial changes filtered: ${changeAnalysis.trivialChanges.length}`,
+          priority: 'required'
+        }
+      ];
+
+      logger.debug('Sending unified planning request to AI', {
+        action: 'unified_planning_ai_request',
+        batch: index + 1,
+        batches: batches.length,
+        promptLength: prompt.length,
+        existingIssuesCount: batch.length,
+        significantChangesOnly: true
+      });
 
-    logger.debug('Sending unified planning request to AI', {
-      action: 'unified_planning_ai_request',
-      promptLength: prompt.length,
-      userContentLength: userContent.length,
-      existingIssuesCount: existingIssues.length,
-      significantChangesOnly: true
-    });
+      batchResults.push(await this.analyzeWithAI(
+        prompt,
+        userContent,
+        createUnifiedPlanSchema(batch.map(issue => issue.number))
+      ));
+    }
 
-    const result = await this.analyzeWithAI(prompt, userContent);
+    const result = mergeBatchPlans(batchResults);
+    result.issueUpdates.push(...unrelated.map(issue => ({
+      issueNumber: issue.number,
+      action: 'no_change' as const,
+      changeSignificance: 'minor' as const,
+      reasoning: 'Not relevant to the changed PRD content (not retrieved for planning)'
+    })));
+    result.summary.totalIssuesAnalyzed = existingIssues.length;
 
     // Add reasoning enhancement
-    if (result.newFeatures) {
-      result.newFeatures = result.newFeatures.map((feature: any) => ({
-        ...feature,
-        reason: feature.reasoning || 'New feature identified from PRD updates'
-      }));
-    }
+    result.newFeatures = result.newFeatures.map(feature => ({
+      ...feature,
+      reason: feature.reasoning || 'New feature identified from PRD updates'
+    }));
 
     logger.info('🎯 Stage 1 Complete: Unified planning finished', {
       action: 'unified_planning_complete',
-      hasSignificantChanges: result.changeAssessment?.hasSignificantChanges || false,
-      issuesRequiringUpdates: result.summary?.issuesRequiringUpdates || 0,
-      newFeaturesIdentified: result.summary?.newIssuesNeeded || 0,
+      hasSignificantChanges: result.changeAssessment.hasSignificantChanges,
+      issuesRequiringUpdates: result.summary.issuesRequiringUpdates,
+      newFeaturesIdentified: result.summary.newIssuesNeeded,
       trivialChangesIgnored: changeAnalysis.trivialChanges.length
     });
 
     return result;
   }
 
+  /**
+   * Split the backlog into the issues planning should see and the ones unrelated to the change.
+   * Backlogs up to the retrieval threshold are planned whole; larger ones keep the issues linked to
+   * an affected section and those the issue index ranks as relevant to the change.
+   */
+  private async selectPlanningIssues(
+    issues: Issue[],
+    sectionLinks: Map<number, string[]>,
+    affectedSections: SectionChange[] | null,
+    filteredDiff: string
+  ): Promise<{ relevant: Issue[]; unrelated: Issue[] }> {
+    if (issues.length <= this.planningRetrieval.retrievalThreshold) {
+      return { relevant: issues, unrelated: [] };
+    }
+
+    const index = new IssueIndex(this.embeddingProvider, this.planningRetrieval.indexPath);
+    await index.build(issues);
+    const matches = await index.search(retrievalQueries(affectedSections, filteredDiff));
+    const minRelevance = this.planningRetrieval.minRelevance ?? DEFAULT_MIN_RELEVANCE[index.method];
+
+    const affectedIds = new Set((affectedSections || []).map(change => change.id));
+    const retrieved = new Set(matches.filter(match => match.score >= minRelevance).map(match => match.issueNumber));
+    const isRelevant = (issue: Issue) =>
+      retrieved.has(issue.number) || (sectionLinks.get(issue.number) || []).some(id => affectedIds.has(id));
+
+    const relevant = issues.filter(isRelevant);
+    const unrelated = issues.filter(issue => !isRelevant(issue));
+    logger.info(`🧭 Retrieval (${index.method}): planning ${relevant.length} of ${issues.length} issues relevant to the change, in ${Math.max(1, Math.ceil(relevant.length / this.planningRetrieval.batchSize))} batches`, {
+      action: 'planning_issue_retrieval',
+      method: index.method,
+      relevant: relevant.map(issue => issue.number),
+      unrelatedCount: unrelated.length,
+      topScores: matches.slice(0, 10)
+    });
+
+    return { relevant, unrelated };
+  }
+
   // Stage 2: Execute the planned changes
   async executeChanges(
     planResult: UnifiedPlanResult,
     prdContent: string,
     prdFilePath: string
-  ): Promise<{ updated: number, created: number, unchanged: number }> {
+  ): Promise<{ updated: number, created: number, unchanged: number, followUps: number }> {
     logger.info('⚡ Stage 2: Starting change execution', {
       action: 'change_execution_start',
       issuesRequiringUpdates: planResult.summary.issuesRequiringUpdates,
@@ -320,9 +606,27 @@ Trivial changes filtered: ${changeAnalysis.trivialChanges.length}
     let updatedCount = 0;
     let createdCount = 0;
     let unchangedCount = 0;
+    let followUpCount = 0;
 
     // Execute issue updates
     for (const updatePlan of planResult.issueUpdates) {
+      // Changes to closed issues become linked follow-up issues
+      if (updatePlan.action === 'update' || updatePlan.action === 'follow_up') {
+        const originalIssue = await this.issueService.getIssue(updatePlan.issueNumber);
+        if (originalIssue && needsFollowUp(updatePlan, originalIssue)) {
+          await this.createFollowUpIssue(originalIssue, updatePlan, prdContent, prdFilePath);
+          followUpCount++;
+          continue;
+        }
+        if (updatePlan.action === 'follow_up') {
+          logger.warn(`⚠️ Issue #${updatePlan.issueNumber} not found - skipping follow-up`, {
+            action: 'follow_up_original_missing',
+            issueNumber: updatePlan.issueNumber
+          });
+          continue;
+        }
+      }
+
       if (updatePlan.action === 'update') {
         logger.info(`🔄 Updating Issue #${updatePlan.issueNumber}: ${updatePlan.updateSummary}`, {
           action: 'issue_update_execution',
@@ -332,24 +636,71 @@ Trivial changes filtered: ${changeAnalysis.trivialChanges.length}
         });
 
         if (updatePlan.updates && Object.keys(updatePlan.updates).length > 0) {
-          await this.issueService.updateIssue(updatePlan.issueNumber, updatePlan.updates);
+          const updates = { ...updatePlan.updates };
+          await this.journaled(`update:#${updatePlan.issueNumber}`, `Update issue #${updatePlan.issueNumber}`, async () => {
+            if (updates.labels !== undefined) {
+              // The planner only sees labels; never let it drop the generation and PRD scope labels
+              updates.labels = Array.from(new Set(['prd-generated', prdLabel(resolvePRDId(prdFilePath, prdContent)), ...updates.labels]));
+            }
+            let bodyProposal: string | null = null;
+            if (updates.body !== undefined) {
+              // Merge with edits made since the body was last generated, keeping the hidden metadata block
+              const currentIssue = await this.issueService.getIssue(updatePlan.issueNumber);
+              if (currentIssue) {
+                const bodyUpdate = planGeneratedBodyUpdate(currentIssue.body, updates.body);
+                updates.body = bodyUpdate.body;
+                if (bodyUpdate.kind === 'merge') {
+                  logger.info(`🔀 Merged the regenerated body of Issue #${updatePlan.issueNumber} with edits made since it was generated`, {
+                    action: 'issue_body_merged',
+                    issueNumber: updatePlan.issueNumber
+                  });
+                } else if (bodyUpdate.kind === 'conflict') {
+                  logger.warn(`⚠️ Regenerated body of Issue #${updatePlan.issueNumber} conflicts with edits made since it was generated - proposing it in a comment`, {
+                    action: 'issue_body_conflict',
+                    issueNumber: updatePlan.issueNumber
+                  });
+                  bodyProposal = bodyUpdate.proposal;
+                }
+              }
+            }
+            await this.issueService.updateIssue(updatePlan.issueNumber, updates);
+
+            if (bodyProposal) {
+              await this.issueService.addComment(updatePlan.issueNumber, bodyProposal);
+            }
+          });
           updatedCount++;
         }
 
         if (updatePlan.comment) {
-          await this.issueService.addComment(updatePlan.issueNumber, updatePlan.comment);
+          const comment = updatePlan.comment;
+          await this.journaled(`comment:update:#${updatePlan.issueNumber}`, `Comment on updated issue #${updatePlan.issueNumber}`,
+            () => this.issueService.addComment(updatePlan.issueNumber, comment));
         }
 
         // Store updated PRD version with the issue
-        if (this.issueService.storePRDVersion) {
-          await this.issueService.storePRDVersion(updatePlan.issueNumber, prdContent, prdFilePath);
-        }
+        await this.referencePRDVersion(updatePlan.issueNumber, prdContent, prdFilePath, 'updatedIssues');
 
       } else if (updatePlan.action === 'obsolete') {
-        logger.info(`🗑️ Marking Issue #${updatePlan.issueNumber} as obsolete: ${updatePlan.reasoning}`);
-        // Add obsolete label or comment instead of closing
-        await this.issueService.addComment(updatePlan.issueNumber,
-          `⚠️ This issue may be obsolete due to PRD changes: ${updatePlan.reasoning}`);
+        const issue = await this.issueService.getIssue(updatePlan.issueNumber);
+        if (!issue) {
+          logger.warn(`⚠️ Issue #${updatePlan.issueNumber} not found - cannot mark obsolete`);
+          continue;
+        }
+
+        logger.info(`🗑️ Marking Issue #${updatePlan.issueNumber} as obsolete (${this.obsoletePolicy.policy}): ${updatePlan.reasoning}`, {
+          action: 'issue_obsolete_execution',
+          issueNumber: updatePlan.issueNumber,
+          policy: this.obsoletePolicy.policy
+        });
+        await this.journaled(`obsolete:#${updatePlan.issueNumber}`, `Mark issue #${updatePlan.issueNumber} obsolete`, async () => {
+          await this.issueService.addComment(updatePlan.issueNumber,
+            `⚠️ This issue is obsolete due to PRD changes: ${updatePlan.reasoning}\n\nIt will be reopened automatically if a later PRD version reintroduces the scope.`);
+          await this.issueService.updateIssue(
+            updatePlan.issueNumber,
+            planObsoleteUpdate(issue, this.obsoletePolicy, updatePlan.reasoning)
+          );
+        });
         updatedCount++;
 
       } else {
@@ -358,6 +709,29 @@ Trivial changes filtered: ${changeAnalysis.trivialChanges.length}
       }
     }
 
+    // Restore obsolete issues whose scope is back
+    for (const { issueNumber, feature } of planResult.reopenIssues) {
+      const issue = await this.issueService.getIssue(issueNumber);
+      if (!issue) {
+        logger.warn(`⚠️ Issue #${issueNumber} not found - cannot reopen`);
+        continue;
+      }
+
+      logger.info(`♻️ Reopening obsolete Issue #${issueNumber}: scope reintroduced as "${feature.title}"`, {
+        action: 'issue_reopen_execution',
+        issueNumber
+      });
+      await this.journaled(`reopen:#${issueNumber}`, `Reopen issue #${issueNumber}`, async () => {
+        await this.issueService.updateIssue(issueNumber, planReopenUpdate(issue));
+        await this.issueService.addComment(issueNumber,
+          `♻️ **Scope reintroduced**: the PRD covers this issue again.\n\n${feature.description}`);
+      });
+      await this.referencePRDVersion(issueNumber, prdContent, prdFilePath, 'updatedIssues');
+      updatedCount++;
+    }
+
+    updatedCount += await this.mergeDuplicateFeatures(planResult.duplicateFeatures);
+
     // Create new issues
     if (planResult.newFeatures && planResult.newFeatures.length > 0) {
       logger.info('➕ Creating new issues for identified features...', {
@@ -365,8 +739,15 @@ Trivial changes filtered: ${changeAnalysis.trivialChanges.length}
         newFeaturesCount: planResult.newFeatures.length
       });
 
-      await this.createNewIssues(planResult.newFeatures, prdFilePath, prdContent);
-      createdCount = planResult.newFeatures.length;
+      const existingIssues = await this.getPRDIssues(resolvePRDId(prdFilePath, prdContent), 'open');
+      const { created } = await this.createNewIssues(
+        planResult.newFeatures,
+        prdFilePath,
+        prdContent,
+        existingIssues.filter(issue => !isQuestionIssue(issue) && !isObsoleteIssue(issue)),
+        planResult.duplicateFeatures
+      );
+      createdCount = created;
     }
 
     logger.info('⚡ Stage 2 Complete: Change execution finished', {
@@ -374,88 +755,130 @@ Trivial changes filtered: ${changeAnalysis.trivialChanges.length}
       issuesUpdated: updatedCount,
       issuesCreated: createdCount,
       issuesUnchanged: unchangedCount,
-      totalProcessed: updatedCount + createdCount + unchangedCount
+      followUpsCreated: followUpCount,
+      totalProcessed: updatedCount + createdCount + unchangedCount + followUpCount
     });
 
     return {
       updated: updatedCount,
       created: createdCount,
-      unchanged: unchangedCount
+      unchanged: unchangedCount,
+      followUps: followUpCount
     };
   }
 
-  async analyzeWithAI(prompt: string, userContent: string): Promise<any> {
+  /**
+   * @param userContent Sections are shortened from the lowest priority up when the prompt does not fit
+   * the model's context window (or AI_MAX_PROMPT_TOKENS); a plain string is sent whole or not at all
+   */
+  async analyzeWithAI<T>(prompt: string, userContent: string | PromptSection[], schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+    const model = this.llmProvider.model;
+    const promptTitle = prompt.substring(prompt.indexOf('#') + 1, prompt.indexOf('\n')).trim();
+
+    const limits = getModelTokenLimits(model);
+    const maxOutputTokens = this.maxOutputTokens ?? limits.maxOutputTokens;
+    const maxPromptTokens = this.maxPromptTokens ?? limits.contextWindow - maxOutputTokens;
+    const sections: PromptSection[] = typeof userContent === 'string' ? [{ content: userContent, priority: 'required' }] : userContent;
+
+    let fitted;
+    try {
+      fitted = fitPromptSections(sections, maxPromptTokens - estimateTokens(prompt, model), model);
+    } catch (error) {
+      throw new Error(`${promptTitle}: ${(error as Error).message} (model ${model}, ${maxOutputTokens} tokens reserved for the response)`);
+    }
+    if (fitted.trimmedSections.length > 0) {
+      logger.warn(`✂️ Shortened ${fitted.trimmedSections.join(', ')} to fit the ${promptTitle} prompt into ${maxPromptTokens} tokens`, {
+        action: 'ai_prompt_trimmed',
+        model,
+        maxPromptTokens,
+        trimmedSections: fitted.trimmedSections
+      });
+    }
+
     logger.debug('Starting AI analysis', {
       action: 'ai_analysis_start',
-      model: 'gpt-4o',
+      provider: this.llmProvider.name,
+      model,
       promptLength: prompt.length,
-      userContentLength: userContent.length,
+      userContentLength: fitted.content.length,
+      estimatedPromptTokens: estimateTokens(prompt, model) + fitted.estimatedTokens,
+      maxOutputTokens,
       promptPreview: prompt.substring(0, 100) + '...',
-      userContentPreview: userContent.substring(0, 200) + '...'
+      userContentPreview: fitted.content.substring(0, 200) + '...'
     });
 
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4o',
-      max_tokens: 4000,
-      temperature: 0.1,
+    const cacheRequest: CachedRequest = { prompt, userContent: fitted.content, model, temperature: 0.1 };
+    const cached = this.responseCache?.get(cacheRequest);
+    if (cached) {
+      try {
+        const data = parseStructuredResponse(cached.content, schema);
+        logger.info(`💾 AI Analysis: Reused the cached response from ${cached.createdAt} for ${promptTitle}`, {
+          action: 'ai_cache_hit',
+          key: cached.key,
+          model
+        });
+        return data;
+      } catch (error) {
+        if (!(error instanceof AIResponseValidationError)) {
+          throw error;
+        }
+        // Cached before the expected structure changed
+        logger.debug('Cached AI response no longer matches the schema', { action: 'ai_cache_stale', key: cached.key });
+      }
+    }
+
+    const result = await completeStructured(this.llmProvider, {
+      maxTokens: maxOutputTokens,
+      temperature: cacheRequest.temperature,
+      maxRepairAttempts: this.maxRepairAttempts,
+      maxContinuations: this.maxContinuations,
+      budget: this.tokenBudget,
+      schema,
       messages: [
         { role: 'system', content: prompt },
-        { role: 'user', content: userContent }
-      ]
-    });
+        { role: 'user', content: fitted.content }
+      ],
+      onResponse: (response, attempt) => {
+        const tokens = response.usage?.totalTokens || 0;
+
+        logger.debug('AI analysis completed', {
+          action: 'ai_analysis_complete',
+          provider: this.llmProvider.name,
+          model: response.model,
+          attempt,
+          responseLength: response.content.length,
+          tokensUsed: tokens,
+          responsePreview: response.content.substring(0, 200) + '...'
+        });
 
-    const content = response.choices[0]?.message?.content || '';
-    const tokens = response.usage?.total_tokens || 0;
+        log.aiInteraction(prompt, response.content, response.model, tokens);
 
-    logger.debug('AI analysis completed', {
-      action: 'ai_analysis_complete',
-      model: 'gpt-4o',
-      responseLength: content.length,
-      tokensUsed: tokens,
-      responsePreview: content.substring(0, 200) + '...'
+        // Log AI interaction summary at info level
+        const budget = this.tokenBudget.limit !== null ? ` (${this.tokenBudget.used}/${this.tokenBudget.limit} of the run's token budget)` : '';
+        logger.info(`🤖 AI Analysis: Used ${tokens} tokens${budget}, generated ${response.content.length} chars response for ${promptTitle}`);
+        if (response.finishReason === 'length') {
+          logger.warn(`✂️ AI response for ${promptTitle} hit the ${maxOutputTokens} token output limit, requesting the rest`, {
+            action: 'ai_response_truncated',
+            model: response.model
+          });
+        }
+      },
+      onValidationFailure: (issues, attempt) => {
+        logger.warn(`🔧 AI response failed validation (attempt ${attempt + 1}/${this.maxRepairAttempts + 1}), requesting repair`, {
+          action: 'ai_response_validation_failed',
+          attempt,
+          issues: issues.slice(0, 10)
+        });
+      }
     });
 
-    log.aiInteraction(prompt, content, 'gpt-4o', tokens);
-
-    // Log AI interaction summary at info level
-    logger.info(`🤖 AI Analysis: Used ${tokens} tokens, generated ${content.length} chars response for ${prompt.substring(prompt.indexOf('#') + 1, prompt.indexOf('\n')).trim()}`);
-
-    return this.parseAIResponse(content);
-  }
-
-  private parseAIResponse(content: string): any {
-    logger.debug('Parsing AI response', {
-      action: 'ai_response_parsing',
-      contentLength: content.length,
-      contentPreview: content.substring(0, 300) + '...'
+    logger.debug('AI response parsed successfully', {
+      action: 'ai_response_parsed',
+      attempts: result.attempts
     });
 
-    const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/) ||
-                      content.match(/({[\s\S]*})/);
-    if (!jsonMatch) {
-      logger.error('No valid JSON found in AI response', {
-        action: 'ai_response_parse_error',
-        content: content.substring(0, 500) + '...'
-      });
-      throw new Error('No valid JSON found in AI response');
-    }
-
-    try {
-      const parsed = JSON.parse(jsonMatch[1]);
-      logger.debug('AI response parsed successfully', {
-        action: 'ai_response_parsed',
-        jsonLength: jsonMatch[1].length,
-        parsedKeys: Object.keys(parsed)
-      });
-      return parsed;
-    } catch (error) {
-      logger.error('Failed to parse JSON from AI response', {
-        action: 'json_parse_error',
-        error: error,
-        jsonContent: jsonMatch[1].substring(0, 500) + '...'
-      });
-      throw error;
-    }
+    this.responseCache?.set(cacheRequest, result.response.content);
+    return result.data;
   }
 
   // Stage 1: Identify relevant issues
@@ -488,14 +911,7 @@ ${existingIssues.map(issue => `
 `).join('\n')}
 `;
 
-    const result = await this.analyzeWithAI(prompt, userContent) as any;
-
-    // Handle potential typos in AI response (e.g., 'unrealtedIssues' instead of 'unrelatedIssues')
-    const stage1Result: Stage1Result = {
-      relevantIssues: result.relevantIssues || [],
-      unrelatedIssues: result.unrelatedIssues || result.unrealtedIssues || [],
-      summary: result.summary || 'No summary provided'
-    };
+    const stage1Result: Stage1Result = await this.analyzeWithAI(prompt, userContent, Stage1ResultSchema);
 
     logger.info(`🎯 Stage 1 Complete: ${stage1Result.relevantIssues.length} relevant issues identified from ${stage1Result.relevantIssues.length + stage1Result.unrelatedIssues.length} total`, {
       action: 'stage1_complete',
@@ -538,7 +954,7 @@ ${existingIssues.map(issue => `
         ...ri,
         currentContent: issue ? {
           title: issue.title,
-          body: issue.body,
+          body: stripIssueMetadata(issue.body),
           labels: issue.labels
         } : null
       };
@@ -555,14 +971,7 @@ ${prdDiff}
 ${prdContent}
 `;
 
-    const result = await this.analyzeWithAI(prompt, userContent) as any;
-
-    // Ensure Stage2Result has required properties with defaults
-    const stage2Result: Stage2Result = {
-      updatePlans: result.updatePlans || [],
-      noUpdateNeeded: result.noUpdateNeeded || [],
-      summary: result.summary || 'No summary provided'
-    };
+    const stage2Result: Stage2Result = await this.analyzeWithAI(prompt, userContent, Stage2ResultSchema);
 
     logger.info(`🛠️ Stage 2 Complete: ${stage2Result.updatePlans.length} updates planned, ${stage2Result.noUpdateNeeded.length} issues need no changes`, {
       action: 'stage2_complete',
@@ -589,7 +998,7 @@ ${prdContent}
     existingIssues: Issue[],
     prdDiff: string,
     updatePlans: Stage2Result['updatePlans']
-  ): Promise<Stage3Result> {
+  ): Promise<PRDAnalysisResult> {
     const prompt = await this.loadPrompt('prd-update-stage3.md');
 
     const userContent = `
@@ -606,19 +1015,141 @@ ${prdDiff}
 ${updatePlans.map(plan => `- #${plan.issueNumber}: ${plan.updateSummary}`).join('\n')}
 `;
 
-    return await this.analyzeWithAI(prompt, userContent);
+    return await this.analyzeWithAI(prompt, userContent, PRDAnalysisSchema);
   }
 
   // Main processing function
-  async processPRD(prdFilePath: string, forceCreate: boolean = false): Promise<void> {
+  async processPRD(prdFilePath: string, forceCreate: boolean = false, options: ProcessPRDOptions = {}): Promise<void> {
     logger.info('🚀 Smart PRD Processing Started', {
       action: 'prd_processing_start',
       prdFilePath,
       forceCreate,
+      dryRun: !!options.dryRun,
       timestamp: new Date().toISOString()
     });
 
-    if (!fs.existsSync(prdFilePath)) {
+    // A rerun after a failed run of the same PRD content picks up where it stopped
+    if (!options.dryRun && options.resume !== false && fs.existsSync(prdFilePath)) {
+      const prdContent = fs.readFileSync(prdFilePath, 'utf8');
+      const unfinished = RunJournal.findUnfinished(resolvePRDId(prdFilePath, prdContent), generateContentHash(prdContent), this.runJournalDirectory);
+      if (unfinished) {
+        logger.info(`♻️ Resuming run ${unfinished.runId}: ${unfinished.completedOperations} operations already done`, {
+          action: 'prd_processing_resume',
+          runId: unfinished.runId,
+          journalPath: unfinished.path
+        });
+        unfinished.resume();
+        await this.executeChangePlan(unfinished.changePlan, unfinished);
+        return;
+      }
+    }
+
+    // Stage 1: Comprehensive Planning (replaces old 3-stage analysis)
+    const changePlan = await this.buildChangePlan(prdFilePath, forceCreate);
+
+    if (options.dryRun) {
+      const { jsonPath, markdownPath } = writeChangePlan(changePlan, options.planOutputPath || defaultChangePlanPath(prdFilePath));
+      logger.info(`📝 Dry run complete: review ${markdownPath}, then apply ${jsonPath}`, {
+        action: 'prd_processing_dry_run_complete',
+        jsonPath,
+        markdownPath,
+        mode: changePlan.mode,
+        issuesRequiringUpdates: changePlan.plan.summary.issuesRequiringUpdates,
+        newIssuesNeeded: changePlan.plan.summary.newIssuesNeeded
+      });
+      return;
+    }
+
+    // Stage 2: Execute Changes
+    await this.executeChangePlan(changePlan, RunJournal.start(changePlan, this.runJournalDirectory));
+  }
+
+  /**
+   * Process every PRD below a directory whose content differs from its last processed version.
+   * A failing PRD is reported and does not stop the others.
+   * @param options.planOutputPath In dry-run mode, the directory the per-PRD plans are written to
+   */
+  async processPRDDirectory(directory: string = DEFAULT_PRD_DIRECTORY, options: ProcessPRDOptions = {}): Promise<PRDBatchResult[]> {
+    const prdFiles = listPRDFiles(directory).map(prdPath => ({
+      prdPath,
+      prdId: resolvePRDId(prdPath, fs.readFileSync(prdPath, 'utf8'))
+    }));
+
+    const seen = new Map<string, string>();
+    for (const { prdPath, prdId } of prdFiles) {
+      const other = seen.get(prdId);
+      if (other) {
+        throw new Error(`PRDs ${other} and ${prdPath} share the id "${prdId}"; add a <!-- prd-id: ... --> marker to one of them`);
+      }
+      seen.set(prdId, prdPath);
+    }
+
+    logger.info(`📚 Batch processing ${prdFiles.length} PRDs in ${directory}`, {
+      action: 'prd_batch_start',
+      directory,
+      prdIds: prdFiles.map(file => file.prdId)
+    });
+
+    const results: PRDBatchResult[] = [];
+    for (const { prdPath, prdId } of prdFiles) {
+      try {
+        if (!(await this.hasPRDChanged(prdPath))) {
+          logger.info(`⏭️ ${prdPath} unchanged since last processing - skipping`, { action: 'prd_batch_skip', prdId });
+          results.push({ prdPath, prdId, status: 'unchanged' });
+          continue;
+        }
+
+        await this.processPRD(prdPath, false, {
+          ...options,
+          planOutputPath: options.dryRun && options.planOutputPath ? path.join(options.planOutputPath, prdId) : undefined
+        });
+        results.push({ prdPath, prdId, status: 'processed' });
+      } catch (error) {
+        logger.error(`❌ Failed to process ${prdPath}: ${(error as Error).message}`, { action: 'prd_batch_failure', prdId });
+        results.push({ prdPath, prdId, status: 'failed', error: (error as Error).message });
+      }
+    }
+
+    logger.info(`📚 Batch complete: ${results.filter(r => r.status === 'processed').length} processed, ${results.filter(r => r.status === 'unchanged').length} unchanged, ${results.filter(r => r.status === 'failed').length} failed`, {
+      action: 'prd_batch_complete',
+      results
+    });
+
+    return results;
+  }
+
+  /**
+   * Whether the PRD has no issues yet or differs from the version stored with its issues
+   */
+  async hasPRDChanged(prdFilePath: string): Promise<boolean> {
+    const prdContent = fs.readFileSync(prdFilePath, 'utf8');
+    const prdId = resolvePRDId(prdFilePath, prdContent);
+
+    const baseline = await this.getBaselineVersion(prdId, prdFilePath);
+    if (baseline) {
+      return baseline.version.hash !== generateContentHash(prdContent);
+    }
+
+    const issues = await this.getPRDIssues(prdId, 'all');
+    const reference = await this.findPRDVersionReferenceIssue(issues.filter(issue => !isQuestionIssue(issue)));
+
+    if (!reference || !this.issueService.getPRDVersion) {
+      return true;
+    }
+
+    const storedContent = await this.issueService.getPRDVersion(reference.number);
+    return storedContent === null || generateContentHash(storedContent) !== generateContentHash(prdContent);
+  }
+
+  /**
+   * Analyze the PRD against existing issues and return the plan without touching any issue
+   * @param source Content to plan instead of the file, e.g. a recorded version being replayed
+   */
+  async buildChangePlan(prdFilePath: string, forceCreate: boolean = false, source?: PRDPlanningSource): Promise<ChangePlan> {
+    // The token budget is per PRD run; planning is the only stage calling the AI
+    this.tokenBudget.reset();
+
+    if (!source && !fs.existsSync(prdFilePath)) {
       logger.error('PRD file not found', {
         action: 'prd_file_not_found',
         prdFilePath
@@ -627,48 +1158,60 @@ ${updatePlans.map(plan => `- #${plan.issueNumber}: ${plan.updateSummary}`).join(
     }
 
     logger.debug('Reading PRD file', { action: 'prd_file_reading', prdFilePath });
-    const prdContent = fs.readFileSync(prdFilePath, 'utf8');
+    const prdContent = source ? source.content : fs.readFileSync(prdFilePath, 'utf8');
     logger.debug('PRD file read successfully', {
       action: 'prd_file_read',
       contentLength: prdContent.length,
       contentPreview: prdContent.substring(0, 200) + '...'
     });
 
-    // Get existing issues
+    // Get existing issues of this PRD
+    // Closed issues are included: changes touching shipped work become follow-up issues
+    const prdId = resolvePRDId(prdFilePath, prdContent);
     logger.debug('Fetching existing issues', {
       action: 'existing_issues_fetch',
-      filters: { state: 'open', labels: ['prd-generated'] }
-    });
-    const existingIssues = await this.issueService.getIssues({
-      state: 'open',
-      labels: ['prd-generated']
+      filters: { state: 'all', labels: ['prd-generated'], prdId }
     });
+    const existingIssues = await this.getPRDIssues(prdId, 'all');
 
-    logger.info(`📊 Found ${existingIssues.length} existing PRD-generated issues: [${existingIssues.map(i => `#${i.number}`).join(', ')}]`, {
+    logger.info(`📊 Found ${existingIssues.length} existing issues for PRD "${prdId}": [${existingIssues.map(i => `#${i.number}`).join(', ')}]`, {
       action: 'existing_issues_found',
+      prdId,
       count: existingIssues.length,
       issueNumbers: existingIssues.map(i => i.number),
-      issueTitles: existingIssues.map(i => ({ number: i.number, title: i.title }))
+      closedCount: existingIssues.filter(i => i.state === 'closed').length,
+      issueTitles: existingIssues.map(i => ({ number: i.number, title: i.title, state: i.state }))
     });
 
-    if (forceCreate || existingIssues.length === 0) {
+    // Question issues are reconciled against the PRD's Open Questions section, not planned by the AI;
+    // closed ones count as tracked, so a question closed by hand is not filed again
+    const questionIssues = existingIssues.filter(issue => isQuestionIssue(issue));
+    const featureIssues = existingIssues.filter(issue => !isQuestionIssue(issue));
+    // Obsolete issues are not planned against; they only come back when new features match them
+    const activeIssues = featureIssues.filter(issue => !isObsoleteIssue(issue));
+    const obsoleteIssues = featureIssues.filter(issue => isObsoleteIssue(issue));
+
+    if (forceCreate || featureIssues.length === 0) {
       const reason = forceCreate ? 'Force create mode enabled' : 'No existing PRD-generated issues found';
       logger.info(`🆕 Creating fresh issues: ${reason}`, {
         action: 'creating_new_issues',
         reason: forceCreate ? 'force_create_mode' : 'no_existing_issues',
         forceCreate,
-        existingIssuesCount: existingIssues.length
+        existingIssuesCount: featureIssues.length
       });
-      await this.createAllNewIssues(prdContent, prdFilePath);
-      return;
+      const plan = await this.planNewIssues(prdContent, prdFilePath, reason);
+      await this.planDuplicateFeatures(plan);
+      this.planOpenQuestions(plan, prdContent, questionIssues);
+      return createChangePlan('create', prdFilePath, prdContent, questionIssues, plan);
     }
 
     // Get PRD diff using stored versions
+    const baseline = source ? source.baseline : await this.getBaselineVersion(prdId, prdFilePath);
     logger.debug('Getting PRD diff using stored versions', {
       action: 'prd_diff_start',
       existingIssuesCount: existingIssues.length
     });
-    const prdDiff = await this.getPRDDiff(prdContent, existingIssues);
+    const prdDiff = await this.getPRDDiff(prdContent, [...activeIssues, ...obsoleteIssues], baseline);
     const diffLines = prdDiff.split('\n').length;
     logger.info(`📋 PRD Analysis: ${diffLines} lines of diff detected`, {
       action: 'prd_diff_complete',
@@ -677,36 +1220,90 @@ ${updatePlans.map(plan => `- #${plan.issueNumber}: ${plan.updateSummary}`).join(
       diffPreview: prdDiff.substring(0, 300) + '...'
     });
 
-    // ===== NEW 2-STAGE PROCESS =====
+    const previousPRDContent = await this.getStoredPRDContent([...activeIssues, ...obsoleteIssues], baseline);
+    const planResult = await this.planComprehensiveChanges(prdContent, prdDiff, activeIssues, previousPRDContent);
+    this.planReopenedIssues(planResult, obsoleteIssues);
+    await this.planDuplicateFeatures(planResult);
+    this.planOpenQuestions(planResult, prdContent, questionIssues);
+    return createChangePlan('update', prdFilePath, prdContent, existingIssues, planResult);
+  }
 
-    // Stage 1: Comprehensive Planning (replaces old 3-stage analysis)
-    const planResult = await this.planComprehensiveChanges(prdContent, prdDiff, existingIssues);
+  /**
+   * Execute a plan created by buildChangePlan (directly or loaded from a reviewed plan file)
+   * @param journal Records completed operations, so a failed run can be resumed without repeating them
+   */
+  async executeChangePlan(changePlan: ChangePlan, journal?: RunJournal): Promise<void> {
+    if (journal) {
+      logger.info(`🧾 Run ${journal.runId} (journal: ${journal.path})`, { action: 'run_start', runId: journal.runId });
+    }
+
+    this.journal = journal || null;
+    try {
+      await this.runChangePlan(changePlan);
+      journal?.complete();
+    } catch (error) {
+      if (journal) {
+        journal.fail(error as Error);
+        logger.error(`❌ Run ${journal.runId} failed; rerun to resume it (${journal.completedOperations} operations done)`, {
+          action: 'run_failed',
+          runId: journal.runId,
+          journalPath: journal.path
+        });
+      }
+      throw error;
+    } finally {
+      this.journal = null;
+    }
+  }
+
+  private async runChangePlan(changePlan: ChangePlan): Promise<void> {
+    const { plan: planResult, prdContent, prdPath: prdFilePath } = changePlan;
+    this.versionChanges = { createdIssues: [], updatedIssues: [] };
+
+    if (changePlan.mode === 'create') {
+      await this.mergeDuplicateFeatures(planResult.duplicateFeatures);
+      const { issues: createdIssues } = await this.createNewIssues(planResult.newFeatures, prdFilePath, prdContent, [], planResult.duplicateFeatures);
+      await this.createQuestionIssues(planResult.openQuestions, createdIssues, prdFilePath, prdContent);
+      await this.closeResolvedQuestions(planResult.resolvedQuestionIssues);
+      await this.recordProcessedVersion(changePlan);
+      return;
+    }
+
+    await this.adoptLegacyIssues(changePlan);
 
     // Early exit if no significant changes detected
     if (!planResult.changeAssessment.hasSignificantChanges) {
+      // Open questions follow the PRD's Open Questions section even when nothing else changed
+      await this.syncOpenQuestions(planResult, prdContent, prdFilePath);
       logger.info(`✅ Smart PRD Processing Complete: No significant changes detected`, {
         action: 'prd_processing_complete_no_changes',
         trivialChangesIgnored: planResult.changeAssessment.trivialChangesIgnored.length,
         reasoning: planResult.changeAssessment.reasoningForSignificance
       });
+      await this.recordProcessedVersion(changePlan);
       return;
     }
 
-    // Stage 2: Execute Changes
     const executionResult = await this.executeChanges(planResult, prdContent, prdFilePath);
+    const { questionsCreated, questionsResolved } = await this.syncOpenQuestions(planResult, prdContent, prdFilePath);
+    await this.recordProcessedVersion(changePlan);
 
     // Generate enhanced summary
     const summary = {
       updated: executionResult.updated,
       created: executionResult.created,
       unchanged: executionResult.unchanged,
+      followUps: executionResult.followUps,
+      questionsCreated,
+      questionsResolved,
       changeAssessment: planResult.changeAssessment,
       overallRationale: planResult.summary.overallRationale,
+      runId: this.journal?.runId,
       timestamp: new Date().toISOString()
     };
 
     fs.writeFileSync('smart-update-summary.json', JSON.stringify(summary, null, 2));
-    logger.info(`✅ Smart PRD Processing Complete: ${summary.updated} updated, ${summary.created} created, ${summary.unchanged} unchanged issues`, {
+    logger.info(`✅ Smart PRD Processing Complete: ${summary.updated} updated, ${summary.created} created, ${summary.followUps} follow-ups, ${summary.unchanged} unchanged issues`, {
       action: 'prd_processing_complete',
       summary: {
         updated: summary.updated,
@@ -719,6 +1316,118 @@ ${updatePlans.map(plan => `- #${plan.issueNumber}: ${plan.updateSummary}`).join(
     });
   }
 
+  /**
+   * Re-run planning for a recorded PRD version against the version processed before it
+   * (or as a fresh PRD for the first version) and the current issues.
+   * Only writes plan files; replayed plans cannot be applied.
+   */
+  async replayPRDVersion(prdId: string, versionRef: string, planOutputPath?: string): Promise<{ jsonPath: string; markdownPath: string }> {
+    const store = this.requirePRDVersionStore();
+    const versions = await store.getHistory(prdId);
+    const { version, number } = findPRDVersion(versions, versionRef);
+    const previous = number > 1 ? versions[number - 2] : null;
+
+    logger.info(`⏪ Replaying planning for PRD "${prdId}" v${number} (${version.hash}) against ${previous ? `v${number - 1} (${previous.hash})` : 'no previous version'}`, {
+      action: 'prd_version_replay_start',
+      prdId,
+      hash: version.hash,
+      previousHash: previous?.hash
+    });
+
+    const changePlan = await this.buildChangePlan(version.prdPath, !previous, {
+      content: await loadPRDVersionContent(store, version),
+      baseline: previous ? { version: previous, content: await loadPRDVersionContent(store, previous) } : null
+    });
+    changePlan.replayOf = { version: number, hash: version.hash };
+
+    const output = writeChangePlan(changePlan, planOutputPath || `${defaultChangePlanPath(version.prdPath)}-replay-v${number}`);
+    logger.info(`📝 Replay complete: review ${output.markdownPath}`, {
+      action: 'prd_version_replay_complete',
+      ...output
+    });
+    return output;
+  }
+
+  /**
+   * Apply a previously reviewed plan file.
+   * Refuses to run if the PRD or any affected issue changed since the plan was made, unless forced.
+   * @param resume Continue an unfinished run of the same plan, skipping the operations it completed
+   */
+  async applyPlanFile(planFilePath: string, force: boolean = false, resume: boolean = true): Promise<void> {
+    const changePlan = loadChangePlan(planFilePath);
+    if (changePlan.replayOf) {
+      throw new Error(`${planFilePath} replays PRD version v${changePlan.replayOf.version} for investigation and cannot be applied`);
+    }
+
+    logger.info(`📥 Applying change plan ${planFilePath}`, {
+      action: 'plan_apply_start',
+      planFilePath,
+      prdPath: changePlan.prdPath,
+      createdAt: changePlan.createdAt,
+      mode: changePlan.mode,
+      force
+    });
+
+    // Issues touched by an interrupted run of this plan are expected to differ from their snapshots
+    const unfinished = resume
+      ? RunJournal.findUnfinished(changePlan.prdId ?? changePlan.prdPath, changePlan.prdHash, this.runJournalDirectory, changePlan.createdAt)
+      : null;
+    const drift: string[] = [];
+
+    if (fs.existsSync(changePlan.prdPath)) {
+      const currentHash = generateContentHash(fs.readFileSync(changePlan.prdPath, 'utf8'));
+      if (currentHash !== changePlan.prdHash) {
+        drift.push(`PRD ${changePlan.prdPath} changed since the plan was created`);
+      }
+    }
+
+    const snapshots = new Map(changePlan.issueSnapshots.map(snapshot => [snapshot.number, snapshot]));
+    for (const update of unfinished ? [] : changePlan.plan.issueUpdates) {
+      if (update.action === 'no_change') {
+        continue;
+      }
+      const snapshot = snapshots.get(update.issueNumber);
+      const issue = await this.issueService.getIssue(update.issueNumber);
+      if (!issue) {
+        drift.push(`Issue #${update.issueNumber} no longer exists`);
+      } else if (snapshot && issue.updated_at !== snapshot.updated_at) {
+        drift.push(`Issue #${update.issueNumber} was modified since the plan was created`);
+      }
+    }
+
+    if (drift.length > 0) {
+      if (!force) {
+        logger.error('Change plan is out of date', { action: 'plan_apply_drift', drift });
+        throw new Error(`Change plan is out of date:\n${drift.map(d => `- ${d}`).join('\n')}\nRe-run with --dry-run to create a fresh plan, or apply with --force.`);
+      }
+      drift.forEach(d => logger.warn(`⚠️ ${d} (applying anyway)`));
+    }
+
+    if (unfinished) {
+      logger.info(`♻️ Resuming run ${unfinished.runId}: ${unfinished.completedOperations} operations already done`, {
+        action: 'plan_apply_resume',
+        runId: unfinished.runId,
+        journalPath: unfinished.path
+      });
+      unfinished.resume();
+      await this.executeChangePlan(changePlan, unfinished);
+      return;
+    }
+
+    await this.executeChangePlan(changePlan, RunJournal.start(changePlan, this.runJournalDirectory));
+  }
+
+  /**
+   * Run an operation unless the run journal records it as done; without a journal it always runs
+   * @param key Idempotency key, stable for the same planned change across reruns
+   */
+  private async journaled<T extends number | void>(key: string, description: string, operation: () => Promise<T>): Promise<T> {
+    if (!this.journal) {
+      return operation();
+    }
+    return await this.journal.run(key, description, operation) as T;
+  }
+
   private async executeUpdates(updatePlans: Stage2Result['updatePlans'], prdContent: string, prdPath: string): Promise<void> {
     for (const plan of updatePlans) {
       logger.info(`🔄 Executing update for Issue #${plan.issueNumber}: ${plan.updateSummary}`);
@@ -734,13 +1443,83 @@ ${updatePlans.map(plan => `- #${plan.issueNumber}: ${plan.updateSummary}`).join(
       }
 
       // Store updated PRD version with the issue
-      if (this.issueService.storePRDVersion) {
-        await this.issueService.storePRDVersion(plan.issueNumber, prdContent, prdPath);
+      await this.referencePRDVersion(plan.issueNumber, prdContent, prdPath, 'updatedIssues');
+    }
+  }
+
+  /**
+   * Generated issues of one PRD, including legacy issues created before PRD ids existed
+   */
+  private async getPRDIssues(prdId: string, state: 'open' | 'all'): Promise<Issue[]> {
+    const issues = await this.issueService.getIssues({ state, labels: ['prd-generated'] });
+    return issues.filter(issue => belongsToPRD(issue, prdId));
+  }
+
+  /**
+   * Add the PRD label to planned issues created before PRD ids existed
+   */
+  private async adoptLegacyIssues(changePlan: ChangePlan): Promise<void> {
+    const prdId = changePlan.prdId ?? resolvePRDId(changePlan.prdPath, changePlan.prdContent);
+    const label = prdLabel(prdId);
+
+    for (const snapshot of changePlan.issueSnapshots) {
+      if (getIssuePRDId(snapshot)) {
+        continue;
+      }
+      const issue = await this.issueService.getIssue(snapshot.number);
+      if (issue && !issue.labels.includes(label)) {
+        await this.issueService.updateIssue(issue.number, { labels: [...issue.labels, label] });
+        logger.debug('Legacy issue assigned to PRD', { action: 'legacy_issue_adopted', issueNumber: issue.number, prdId });
       }
     }
   }
 
-  private async createNewIssues(features: AnalyzedFeature[], prdPath: string, prdContent?: string): Promise<void> {
+  /**
+   * Tag a new issue with the PRD label and record the PRD id and generated body in its metadata
+   */
+  private scopeToPRD(issue: IssueData, prdId: string): IssueData {
+    const label = prdLabel(prdId);
+    return {
+      ...issue,
+      body: recordGeneratedBody(updateIssueMetadata(issue.body, { prdId })),
+      labels: issue.labels.includes(label) ? issue.labels : [...issue.labels, label]
+    };
+  }
+
+  private renderAffectedSections(changes: SectionChange[]): string {
+    return changes.map(change => {
+      const heading = `### ${change.path.join(' > ')} (\`${change.id}\`) - ${change.type}`;
+      if (change.type === 'removed') {
+        return `${heading}\nPrevious content:\n${change.previousContent || '(empty)'}`;
+      }
+      const items = [
+        ...change.addedItems.map(item => `+ ${item}`),
+        ...change.removedItems.map(item => `- ${item}`)
+      ];
+      return `${heading}\n${change.currentContent || '(empty)'}${items.length > 0 ? `\n\nList item changes:\n${items.join('\n')}` : ''}`;
+    }).join('\n\n');
+  }
+
+  /**
+   * Create an issue per feature, then link the new issues to the features they depend on or block
+   * @param existingIssues Issues that dependencies of the new features may also refer to
+   * @param duplicates Planned duplicates; features flagged as possible duplicates are labelled and linked to their match
+   * @returns The issue of every feature, and how many of them this run created (the others the run journal
+   * recorded as created by an earlier attempt)
+   */
+  private async createNewIssues(
+    features: AnalyzedFeature[],
+    prdPath: string,
+    prdContent?: string,
+    existingIssues: IssueRef[] = [],
+    duplicates: DuplicateFeature[] = []
+  ): Promise<{ issues: IssueRef[]; created: number }> {
+    const prdDocument = prdContent ? parsePRD(prdContent) : null;
+    const prdId = resolvePRDId(prdPath, prdContent);
+    const createdIssues: IssueRef[] = [];
+    let created = 0;
+    const duplicateLinks: PlannedIssueLink[] = [];
+
     const issueTemplates = {
       technical: fs.readFileSync(path.join(__dirname, '../../templates/technical-feature-template.md'), 'utf8'),
       nonTechnical: fs.readFileSync(path.join(__dirname, '../../templates/non-technical-feature-template.md'), 'utf8'),
@@ -763,22 +1542,299 @@ ${updatePlans.map(plan => `- #${plan.issueNumber}: ${plan.updateSummary}`).join(
         .replace('{{DEPENDENCIES}}', feature.dependencies.join(', ') || 'None')
         .replace('{{PRD_PATH}}', prdPath) + blockedFeaturesSection;
 
-      const issueNumber = await this.issueService.createIssue({
-        title: `[${feature.type.toUpperCase()}] ${feature.title}`,
-        body: issueBody,
+      const prdSections = prdDocument ? resolveSectionIds(prdDocument, feature.prdSections) : [];
+
+      const title = `[${feature.type.toUpperCase()}] ${feature.title}`;
+      const issueData: IssueData = {
+        title,
+        body: prdSections.length > 0 ? writeIssueMetadata(issueBody, { prdSections }) : issueBody,
         labels: ['prd-generated', `type:${feature.type}`, `priority:${feature.priority}`, ...feature.tags]
-      });
+      };
+      const duplicate = findFlaggedDuplicate(feature, duplicates);
+      const issueNumber = await this.journaled(`create:feature:${feature.type}:${normalizeTitle(feature.title)}`, `Create issue: ${title}`,
+        async () => {
+          const number = await this.issueService.createIssue(this.scopeToPRD(duplicate ? flagPossibleDuplicate(issueData, duplicate) : issueData, prdId));
+          created++;
+          return number;
+        });
+      if (duplicate) {
+        duplicateLinks.push({ issueNumber, type: 'relates-to', targetIssueNumber: duplicate.issueNumber });
+      }
 
       // Store PRD version with new issue
-      if (prdContent && this.issueService.storePRDVersion) {
-        await this.issueService.storePRDVersion(issueNumber, prdContent, prdPath);
+      if (prdContent) {
+        await this.referencePRDVersion(issueNumber, prdContent, prdPath, 'createdIssues');
       }
 
       console.log(`  Created issue #${issueNumber}: ${feature.title}`);
+      createdIssues.push({ number: issueNumber, title });
+    }
+
+    // Links are resolved once all issues exist, so features can reference each other in any order
+    await this.linkIssues([...resolveFeatureLinks(features, createdIssues, [...createdIssues, ...existingIssues]), ...duplicateLinks]);
+
+    return { issues: createdIssues, created };
+  }
+
+  /**
+   * Fold features planned as duplicates (merge policy) into their matching issues
+   * @returns Number of issues merged into
+   */
+  private async mergeDuplicateFeatures(duplicates: DuplicateFeature[]): Promise<number> {
+    let merged = 0;
+    for (const duplicate of duplicates) {
+      if (duplicate.resolution === 'skip') {
+        logger.info(`⏭️ Skipping "${duplicate.feature.title}": duplicate of #${duplicate.issueNumber}`, {
+          action: 'duplicate_feature_skipped',
+          issueNumber: duplicate.issueNumber,
+          similarity: duplicate.similarity
+        });
+        continue;
+      }
+      if (duplicate.resolution !== 'merge') {
+        continue;
+      }
+
+      const { feature, issueNumber } = duplicate;
+      await this.journaled(`merge:feature:${feature.type}:${normalizeTitle(feature.title)}`, `Merge "${feature.title}" into #${issueNumber}`, async () => {
+        const issue = await this.issueService.getIssue(issueNumber);
+        if (!issue) {
+          logger.warn(`⚠️ Issue #${issueNumber} not found - cannot merge "${feature.title}" into it`);
+          return;
+        }
+
+        const { update, addedCriteria } = planDuplicateMerge(issue, feature);
+        if (Object.keys(update).length > 0) {
+          await this.issueService.updateIssue(issueNumber, update);
+        }
+        await this.issueService.addComment(issueNumber, [
+          `👯 **Merged duplicate feature**: the PRD plans "${feature.title}", which matches this issue (${Math.round(duplicate.similarity * 100)}% similar), so no separate issue was created.`,
+          '',
+          feature.description,
+          ...(addedCriteria.length > 0 ? ['', 'Added acceptance criteria:', ...addedCriteria.map(criterion => `- ${criterion}`)] : [])
+        ].join('\n'));
+        logger.info(`👯 Merged "${feature.title}" into Issue #${issueNumber}`, {
+          action: 'duplicate_feature_merged',
+          issueNumber,
+          addedCriteria
+        });
+      });
+      merged++;
+    }
+    return merged;
+  }
+
+  private async createFollowUpIssue(
+    originalIssue: Issue,
+    updatePlan: IssueUpdatePlan,
+    prdContent: string,
+    prdPath: string
+  ): Promise<number> {
+    logger.info(`🔁 Issue #${originalIssue.number} is closed - creating follow-up: ${updatePlan.updateSummary || updatePlan.reasoning}`, {
+      action: 'follow_up_creation',
+      originalIssueNumber: originalIssue.number,
+      changeSignificance: updatePlan.changeSignificance
+    });
+
+    const issueNumber = await this.journaled(`create:follow-up:#${originalIssue.number}`, `Create follow-up to #${originalIssue.number}`,
+      () => this.issueService.createIssue(
+        this.scopeToPRD(renderFollowUpIssue(originalIssue, updatePlan, prdPath), resolvePRDId(prdPath, prdContent))
+      ));
+
+    await this.referencePRDVersion(issueNumber, prdContent, prdPath, 'createdIssues');
+
+    if (this.issueService.addIssueLink) {
+      await this.linkIssues([{ issueNumber, type: 'relates-to', targetIssueNumber: originalIssue.number }]);
+    } else {
+      await this.journaled(`comment:follow-up:#${originalIssue.number}`, `Reference follow-up #${issueNumber} from #${originalIssue.number}`,
+        () => this.issueService.addComment(originalIssue.number, `🔁 Follow-up created for PRD changes: #${issueNumber}`));
+    }
+
+    return issueNumber;
+  }
+
+  private async linkIssues(links: PlannedIssueLink[]): Promise<void> {
+    if (!this.issueService.addIssueLink || links.length === 0) {
+      return;
+    }
+
+    const addIssueLink = this.issueService.addIssueLink.bind(this.issueService);
+    for (const link of links) {
+      await this.journaled(`link:#${link.issueNumber}:${link.type}:#${link.targetIssueNumber}`, `Link #${link.issueNumber} ${link.type} #${link.targetIssueNumber}`,
+        () => addIssueLink(link.issueNumber, link.type, link.targetIssueNumber));
+    }
+
+    logger.info(`🔗 Linked ${links.length} issue dependencies`, {
+      action: 'issue_links_created',
+      links
+    });
+  }
+
+  /**
+   * Create and close question issues of an update plan, linking new questions to the current feature issues
+   */
+  private async syncOpenQuestions(
+    planResult: UnifiedPlanResult,
+    prdContent: string,
+    prdPath: string
+  ): Promise<{ questionsCreated: number; questionsResolved: number }> {
+    let featureIssues: Issue[] = [];
+    if (planResult.openQuestions.length > 0) {
+      const openIssues = await this.getPRDIssues(resolvePRDId(prdPath, prdContent), 'open');
+      featureIssues = openIssues.filter(issue => !isQuestionIssue(issue) && !isObsoleteIssue(issue));
+    }
+
+    return {
+      questionsCreated: await this.createQuestionIssues(planResult.openQuestions, featureIssues, prdPath, prdContent),
+      questionsResolved: await this.closeResolvedQuestions(planResult.resolvedQuestionIssues)
+    };
+  }
+
+  /**
+   * Create a clarification-blocker issue per open question and reference it from the features it blocks
+   * @returns Number of question issues created
+   */
+  private async createQuestionIssues(
+    questions: OpenQuestion[],
+    featureIssues: IssueRef[],
+    prdPath: string,
+    prdContent: string
+  ): Promise<number> {
+    if (questions.length === 0) {
+      return 0;
+    }
+
+    const template = fs.readFileSync(path.join(__dirname, '../../templates/open-question-template.md'), 'utf8');
+    const prdId = resolvePRDId(prdPath, prdContent);
+
+    for (const question of questions) {
+      const issueNumber = await this.journaled(`create:question:${normalizeQuestion(question.question)}`, `Create question issue: ${question.question}`,
+        () => this.issueService.createIssue(
+          this.scopeToPRD(renderQuestionIssue(template, question, prdPath, featureIssues), prdId)
+        ));
+
+      await this.referencePRDVersion(issueNumber, prdContent, prdPath, 'createdIssues');
+
+      const { matched } = matchBlockedIssues(question, featureIssues);
+      if (this.issueService.addIssueLink) {
+        await this.linkIssues(matched.map(blocked => ({ issueNumber, type: 'blocks' as const, targetIssueNumber: blocked.number })));
+      } else {
+        for (const blocked of matched) {
+          await this.journaled(`comment:blocked:#${blocked.number}:#${issueNumber}`, `Mark #${blocked.number} blocked by #${issueNumber}`,
+            () => this.issueService.addComment(blocked.number, `⛔ Blocked by #${issueNumber} (open question): ${question.question}`));
+        }
+      }
+
+      logger.info(`❓ Created question issue #${issueNumber}: ${question.question}`, {
+        action: 'question_issue_created',
+        issueNumber,
+        blockedIssues: matched.map(issue => issue.number)
+      });
     }
+
+    return questions.length;
+  }
+
+  /**
+   * Close question issues whose question is no longer listed in the PRD
+   * @returns Number of question issues closed
+   */
+  private async closeResolvedQuestions(issueNumbers: number[]): Promise<number> {
+    for (const issueNumber of issueNumbers) {
+      await this.journaled(`close-question:#${issueNumber}`, `Close resolved question #${issueNumber}`, async () => {
+        await this.issueService.addComment(
+          issueNumber,
+          '✅ **Question resolved**: this question is no longer listed in the PRD\'s Open Questions section. Closing automatically.'
+        );
+        await this.issueService.closeIssue(issueNumber);
+      });
+      logger.info(`✅ Closed resolved question issue #${issueNumber}`, {
+        action: 'question_issue_closed',
+        issueNumber
+      });
+    }
+
+    return issueNumbers.length;
+  }
+
+  /**
+   * Turn new features that match an obsolete issue into reopen actions for that issue
+   */
+  private planReopenedIssues(plan: UnifiedPlanResult, obsoleteIssues: Issue[]): void {
+    // Always overwritten: reopen targets come from matching, never from the model's response
+    const { reopen, remaining } = matchReintroducedFeatures(plan.newFeatures, obsoleteIssues);
+    plan.reopenIssues = reopen;
+    if (reopen.length === 0) {
+      return;
+    }
+
+    plan.newFeatures = remaining;
+    plan.summary.newIssuesNeeded = remaining.length;
+
+    logger.info(`♻️ ${reopen.length} obsolete issues reintroduced by the PRD: [${reopen.map(entry => `#${entry.issueNumber}`).join(', ')}]`, {
+      action: 'obsolete_issues_reintroduced',
+      issueNumbers: reopen.map(entry => entry.issueNumber)
+    });
+  }
+
+  /**
+   * Compare new features with the open issues (of any PRD, or filed by hand) and resolve matches with the duplicate policy
+   */
+  private async planDuplicateFeatures(plan: UnifiedPlanResult): Promise<void> {
+    // Always overwritten, like reopenIssues: merge targets the model made up must not reach execution
+    plan.duplicateFeatures = [];
+    if (plan.newFeatures.length === 0) {
+      return;
+    }
+
+    const openIssues = (await this.issueService.getIssues({ state: 'open' }))
+      .filter(issue => !isQuestionIssue(issue) && !isObsoleteIssue(issue));
+    const { duplicates, remaining } = matchDuplicateFeatures(plan.newFeatures, openIssues, this.duplicatePolicy);
+    plan.duplicateFeatures = duplicates;
+    if (duplicates.length === 0) {
+      return;
+    }
+
+    plan.newFeatures = remaining;
+    plan.summary.newIssuesNeeded = remaining.length;
+
+    logger.info(`👯 ${duplicates.length} planned features match open issues (${this.duplicatePolicy.policy}): ${duplicates.map(duplicate => `"${duplicate.feature.title}" ~ #${duplicate.issueNumber}`).join(', ')}`, {
+      action: 'duplicate_features_found',
+      policy: this.duplicatePolicy.policy,
+      duplicates: duplicates.map(duplicate => ({ title: duplicate.feature.title, issueNumber: duplicate.issueNumber, similarity: duplicate.similarity }))
+    });
   }
 
-  private async createAllNewIssues(prdContent: string, prdPath: string): Promise<void> {
+  /**
+   * Replace the planner's open questions with the ones that still need an issue
+   * and record the question issues the PRD no longer lists
+   */
+  private planOpenQuestions(plan: UnifiedPlanResult, prdContent: string, questionIssues: Issue[]): void {
+    const { toCreate, resolved, closedButListed } = reconcileOpenQuestions(
+      extractOpenQuestions(prdContent),
+      plan.openQuestions,
+      questionIssues
+    );
+
+    plan.openQuestions = toCreate;
+    plan.resolvedQuestionIssues = resolved.map(issue => issue.number);
+
+    if (toCreate.length > 0 || resolved.length > 0) {
+      logger.info(`❓ Open questions: ${toCreate.length} new, ${resolved.length} resolved`, {
+        action: 'open_questions_reconciled',
+        newQuestions: toCreate.map(question => question.question),
+        resolvedIssues: plan.resolvedQuestionIssues
+      });
+    }
+    if (closedButListed.length > 0) {
+      logger.info(`❓ ${closedButListed.length} closed question issues are still listed in the PRD's open questions; remove them from the PRD if they are answered`, {
+        action: 'open_questions_closed_but_listed',
+        issues: closedButListed.map(issue => issue.number)
+      });
+    }
+  }
+
+  private async planNewIssues(prdContent: string, prdPath: string, reason: string): Promise<UnifiedPlanResult> {
     // Use existing PRD analysis prompt for new issues
     const analysisPrompt = fs.readFileSync(path.join(__dirname, '../../prompts/prd-analysis-prompt.md'), 'utf8');
 
@@ -791,28 +1847,158 @@ ${prdContent}
 
 Please provide your analysis in JSON format matching the expected structure for features.`;
 
-    const analysis = await this.analyzeWithAI(analysisPrompt, userContent);
-    await this.createNewIssues(analysis.features || [], prdPath, prdContent);
+    const analysis = await this.analyzeWithAI(analysisPrompt, userContent, PRDAnalysisSchema);
+
+    return {
+      changeAssessment: {
+        hasSignificantChanges: true,
+        changeSummary: analysis.metadata?.summary || 'Initial analysis of the PRD',
+        trivialChangesIgnored: [],
+        reasoningForSignificance: reason
+      },
+      issueUpdates: [],
+      newFeatures: analysis.features,
+      openQuestions: analysis.openQuestions,
+      resolvedQuestionIssues: [],
+      reopenIssues: [],
+      duplicateFeatures: [],
+      summary: {
+        totalIssuesAnalyzed: 0,
+        issuesRequiringUpdates: 0,
+        issuesMarkedObsolete: 0,
+        newIssuesNeeded: analysis.features.length,
+        followUpIssuesNeeded: 0,
+        overallRationale: `${reason}: creating ${analysis.features.length} issues from the PRD`
+      }
+    };
   }
 }
 
 // Main execution for standalone use
 async function main() {
-  const prdFilePath = process.argv[2];
-  const serviceType = process.argv[3] || 'filesystem';
-  const forceCreate = process.argv[4] === '--force-create';
+  const args = process.argv.slice(2);
+  const flags = args.filter(arg => arg.startsWith('--'));
+  const valueFlags = ['--plan-output', '--baseline'];
+  const flagValue = (flag: string) => args.includes(flag) ? args[args.indexOf(flag) + 1] : undefined;
+  const planOutputPath = flagValue('--plan-output');
+  const baselineSpec = flagValue('--baseline');
+  const positional = args.filter((arg, index) => !arg.startsWith('--') && !valueFlags.includes(args[index - 1]));
+  // --baseline overrides PRD_BASELINE; `--baseline store` disables the git baseline
+  const gitBaseline = baselineSpec ? createGitBaselineProvider(baselineSpec, loadConfig().prd?.stateFile) : undefined;
+  // --no-cache calls the model even for requests answered before
+  const responseCache = flags.includes('--no-cache') ? null : undefined;
+
+  if (flags.includes('--clear-cache')) {
+    const cache = new ResponseCache(loadConfig().llm?.cacheDirectory || DEFAULT_AI_CACHE_DIRECTORY);
+    console.log(`🧹 Removed ${cache.clear()} cached AI responses from ${cache.directory}`);
+    if (positional.length === 0) {
+      return;
+    }
+  }
+
+  if (positional[0] === 'apply') {
+    const planFilePath = positional[1];
+    const serviceType = positional[2] || 'filesystem';
+
+    if (!planFilePath) {
+      console.error('Usage: ts-node prd-processor-smart.ts apply <plan-file.json> [service-type] [--force] [--no-resume]');
+      process.exit(1);
+    }
+
+    try {
+      const issueService = IssueServiceFactory.createFromSpec(serviceType);
+      const processor = new SmartPRDProcessor(issueService, LLMProviderFactory.createFromEnv('openai'), gitBaseline, undefined, responseCache);
+      await processor.applyPlanFile(planFilePath, flags.includes('--force'), !flags.includes('--no-resume'));
+    } catch (error) {
+      console.error('Error applying change plan:', error);
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (positional[0] === 'history') {
+    const [, command, prdRef] = positional;
+    const refCount = command === 'diff' ? 2 : command === 'replay' ? 1 : 0;
+    const versionRefs = positional.slice(3, 3 + refCount);
+    const serviceType = positional[3 + refCount] || 'filesystem';
+
+    if (!['list', 'diff', 'replay'].includes(command) || !prdRef || versionRefs.length < refCount) {
+      console.error('Usage: ts-node prd-processor-smart.ts history list <prd-file|prd-id> [service-type]');
+      console.error('       ts-node prd-processor-smart.ts history diff <prd-file|prd-id> <from-version> <to-version> [service-type]');
+      console.error('       ts-node prd-processor-smart.ts history replay <prd-file|prd-id> <version> [service-type] [--plan-output <path>] [--no-cache]');
+      console.error('Versions: latest, a version number (3 or v3) or a hash prefix');
+      process.exit(1);
+    }
+
+    try {
+      const prdId = fs.existsSync(prdRef) ? resolvePRDId(prdRef, fs.readFileSync(prdRef, 'utf8')) : prdRef;
+      const issueService = IssueServiceFactory.createFromSpec(serviceType);
+      const store = issueService.getPRDVersionStore?.();
+      if (!store) {
+        throw new Error(`The ${serviceType} issue service does not keep a PRD version history`);
+      }
+
+      if (command === 'list') {
+        console.log(renderPRDVersionHistory(prdId, await store.getHistory(prdId)));
+      } else if (command === 'diff') {
+        console.log(await diffPRDVersions(store, prdId, versionRefs[0], versionRefs[1]));
+      } else {
+        const processor = new SmartPRDProcessor(issueService, LLMProviderFactory.createFromEnv('openai'), gitBaseline, undefined, responseCache);
+        await processor.replayPRDVersion(prdId, versionRefs[0], planOutputPath);
+      }
+    } catch (error) {
+      console.error('Error reading PRD version history:', error);
+      process.exit(1);
+    }
+    return;
+  }
+
+  const dryRun = flags.includes('--dry-run');
+  const resume = !flags.includes('--no-resume');
+
+  if (positional[0] === 'batch') {
+    const directory = positional[1] || DEFAULT_PRD_DIRECTORY;
+    const serviceType = positional[2] || 'filesystem';
+
+    try {
+      const issueService = IssueServiceFactory.createFromSpec(serviceType);
+      const processor = new SmartPRDProcessor(issueService, LLMProviderFactory.createFromEnv('openai'), gitBaseline, undefined, responseCache);
+      const results = await processor.processPRDDirectory(directory, { dryRun, planOutputPath, resume });
+      if (results.some(result => result.status === 'failed')) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('Error processing PRD directory:', error);
+      process.exit(1);
+    }
+    return;
+  }
+
+  const prdFilePath = positional[0];
+  const serviceType = positional[1] || 'filesystem';
+  const forceCreate = flags.includes('--force-create');
 
   if (!prdFilePath) {
-    console.error('Usage: ts-node prd-processor-smart.ts <prd-file-path> [service-type] [--force-create]');
-    console.error('Service types: github, filesystem, memory');
+    console.error('Usage: ts-node prd-processor-smart.ts <prd-file-path> [service-type] [--force-create] [--dry-run] [--plan-output <path>] [--baseline <baseline>] [--no-resume] [--no-cache] [--clear-cache]');
+    console.error('       ts-node prd-processor-smart.ts apply <plan-file.json> [service-type] [--force] [--no-resume]');
+    console.error(`       ts-node prd-processor-smart.ts batch [prd-directory=${DEFAULT_PRD_DIRECTORY}] [service-type] [--dry-run] [--plan-output <directory>] [--no-resume] [--no-cache] [--clear-cache]`);
+    console.error('       ts-node prd-processor-smart.ts history list|diff|replay <prd-file|prd-id> ...');
+    console.error('       ts-node prd-processor-smart.ts --clear-cache');
+    console.error('Service types: github, gitlab, jira, filesystem, memory');
+    console.error('Baselines: store (default), git:<ref>, git:last-processed, git:merge-base:<ref>');
     process.exit(1);
   }
 
   try {
-    const issueService = IssueServiceFactory.create(serviceType as any);
-    const processor = new SmartPRDProcessor(issueService);
-    await processor.processPRD(prdFilePath, forceCreate);
+    const issueService = IssueServiceFactory.createFromSpec(serviceType);
+    const processor = new SmartPRDProcessor(issueService, LLMProviderFactory.createFromEnv('openai'), gitBaseline, undefined, responseCache);
+    await processor.processPRD(prdFilePath, forceCreate, { dryRun, planOutputPath, resume });
   } catch (error) {
+    if (error instanceof TokenBudgetExceededError) {
+      // Planning is the only stage calling the AI, so nothing was changed yet
+      console.error(`${error.message}. No issues were changed; raise AI_TOKEN_BUDGET to process this PRD.`);
+      process.exit(1);
+    }
     console.error('Error processing PRD:', error);
     process.exit(1);
   }
@@ -0,0 +1,85 @@
+// processors/duplicates.test.ts
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  POSSIBLE_DUPLICATE_LABEL,
+  featureSimilarity,
+  flagPossibleDuplicate,
+  matchDuplicateFeatures,
+  planDuplicateMerge,
+  resolveDuplicatePolicy
+} from './duplicates';
+import { AnalyzedFeature, AnalyzedFeatureSchema } from './schemas';
+import { Issue } from '../services/interfaces/IIssueService';
+import { readIssueMetadata, writeIssueMetadata } from '../utils/issueMetadata';
+
+const feature = (title: string, description: string, acceptanceCriteria: string[] = [], tags: string[] = []): AnalyzedFeature =>
+  AnalyzedFeatureSchema.parse({ title, description, type: 'technical', priority: 'high', estimatedEffort: 's', acceptanceCriteria, tags });
+
+const issue = (number: number, title: string, body: string, labels: string[] = []): Issue => ({
+  number,
+  title,
+  body,
+  state: 'open',
+  labels,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z'
+});
+
+const LOGIN_ISSUE = issue(3, '[TECHNICAL] Email login', [
+  'Users log in with email and password.',
+  '',
+  '### Acceptance Criteria',
+  '- [ ] Users can log in with email and password',
+  '- [x] Failed attempts are rate limited',
+  '',
+  '### Dependencies',
+  'None'
+].join('\n'), ['prd-generated']);
+
+test('matches identical titles regardless of type prefix and punctuation', () => {
+  assert.equal(featureSimilarity(feature('Email Login!', 'Anything'), LOGIN_ISSUE), 1);
+});
+
+test('scores unrelated features low', () => {
+  assert.ok(featureSimilarity(feature('Invoice export', 'Export invoices as PDF'), LOGIN_ISSUE) < 0.2);
+});
+
+test('resolves matches with the policy', () => {
+  const features = [feature('Email login', 'Log in'), feature('Invoice export', 'Export invoices as PDF')];
+  const config = resolveDuplicatePolicy({ duplicatePolicy: 'skip' });
+
+  const { duplicates, remaining } = matchDuplicateFeatures(features, [LOGIN_ISSUE], config);
+
+  assert.deepEqual(duplicates.map(duplicate => [duplicate.feature.title, duplicate.issueNumber, duplicate.resolution]), [['Email login', 3, 'skip']]);
+  assert.deepEqual(remaining.map(candidate => candidate.title), ['Invoice export']);
+  assert.equal(matchDuplicateFeatures(features, [LOGIN_ISSUE], resolveDuplicatePolicy()).remaining.length, 2);
+});
+
+test('rejects unknown policies and thresholds out of range', () => {
+  assert.throws(() => resolveDuplicatePolicy({ duplicatePolicy: 'ignore' }), /Unknown duplicate policy/);
+  assert.throws(() => resolveDuplicatePolicy({ duplicateThreshold: 1.5 }), /between 0 and 1/);
+});
+
+test('labels and annotates flagged duplicates', () => {
+  const [duplicate] = matchDuplicateFeatures([feature('Email login', 'Log in')], [LOGIN_ISSUE], resolveDuplicatePolicy()).duplicates;
+
+  const flagged = flagPossibleDuplicate({ title: 'Email login', body: 'Body', labels: ['prd-generated'] }, duplicate);
+
+  assert.deepEqual(flagged.labels, ['prd-generated', POSSIBLE_DUPLICATE_LABEL]);
+  assert.match(flagged.body, /^> ⚠️ \*\*Possible duplicate\*\* of #3 /);
+});
+
+test('merges missing acceptance criteria and tags into the matching issue', () => {
+  const existing = { ...LOGIN_ISSUE, body: writeIssueMetadata(LOGIN_ISSUE.body, { prdId: 'auth' }) };
+  const merging = feature('Email login', 'Log in', ['Failed attempts are rate limited', 'Users can reset their password'], ['area:auth']);
+
+  const { update, addedCriteria } = planDuplicateMerge(existing, merging);
+
+  assert.deepEqual(addedCriteria, ['Users can reset their password']);
+  assert.match(update.body || '', /- \[x\] Failed attempts are rate limited\n- \[ \] Users can reset their password\n\n### Dependencies/);
+  assert.equal(readIssueMetadata(update.body || '').prdId, 'auth');
+  assert.deepEqual(update.labels, ['prd-generated', 'area:auth']);
+  assert.deepEqual(planDuplicateMerge(existing, feature('Email login', 'Log in', ['Failed attempts are rate limited'])).update, {});
+});
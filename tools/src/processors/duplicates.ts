@@ -0,0 +1,155 @@
+// processors/duplicates.ts
+// Planned features are compared with the open issues before they are created, so a rerun or
+// --force-create does not produce a second issue for scope that is already tracked.
+
+import { Issue, IssueData, IssueUpdate } from '../services/interfaces/IIssueService';
+import { tokenize } from '../prd/sectionLinks';
+import { readIssueMetadata, stripIssueMetadata, writeIssueMetadata } from '../utils/issueMetadata';
+import { readIssueSection, readListItems } from '../utils/issueSections';
+import { normalizeTitle } from '../utils/titles';
+import { AnalyzedFeature, DuplicateFeature } from './schemas';
+
+export const POSSIBLE_DUPLICATE_LABEL = 'status:possible-duplicate';
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.6;
+
+/**
+ * - `flag`: create the issue anyway, labelled `status:possible-duplicate` and linked to the match
+ * - `skip`: do not create the issue
+ * - `merge`: add the feature's missing acceptance criteria and tags to the matching issue instead
+ */
+export type DuplicatePolicy = 'flag' | 'skip' | 'merge';
+
+export interface DuplicatePolicyConfig {
+  policy: DuplicatePolicy;
+  /** Minimum similarity (0-1) for a near-duplicate; identical normalized titles always match */
+  threshold: number;
+}
+
+export function resolveDuplicatePolicy(config?: { duplicatePolicy?: string; duplicateThreshold?: number }): DuplicatePolicyConfig {
+  const policy = config?.duplicatePolicy || 'flag';
+  if (policy !== 'flag' && policy !== 'skip' && policy !== 'merge') {
+    throw new Error(`Unknown duplicate policy "${policy}". Use flag, skip or merge.`);
+  }
+  const threshold = config?.duplicateThreshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+  if (!(threshold > 0 && threshold <= 1)) {
+    throw new Error(`Duplicate threshold must be between 0 and 1, not ${threshold}`);
+  }
+  return { policy, threshold };
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Weighted title and scope (description and acceptance criteria against the issue body) similarity
+ */
+export function featureSimilarity(feature: AnalyzedFeature, issue: Pick<Issue, 'title' | 'body'>): number {
+  if (normalizeTitle(feature.title) === normalizeTitle(issue.title)) {
+    return 1;
+  }
+  const titleScore = jaccard(new Set(tokenize(normalizeTitle(feature.title))), new Set(tokenize(normalizeTitle(issue.title))));
+  const scopeScore = jaccard(
+    new Set(tokenize(`${feature.description}\n${feature.acceptanceCriteria.join('\n')}`)),
+    new Set(tokenize(stripIssueMetadata(issue.body)))
+  );
+  return 0.6 * titleScore + 0.4 * scopeScore;
+}
+
+/**
+ * Split planned new features into duplicates of an open issue (resolved with the policy) and the rest.
+ * Flagged duplicates are still created, so they stay in `remaining` as well.
+ */
+export function matchDuplicateFeatures(
+  features: AnalyzedFeature[],
+  openIssues: Issue[],
+  config: DuplicatePolicyConfig
+): { duplicates: DuplicateFeature[]; remaining: AnalyzedFeature[] } {
+  const duplicates: DuplicateFeature[] = [];
+  const remaining: AnalyzedFeature[] = [];
+
+  for (const feature of features) {
+    const best = openIssues
+      .map(issue => ({ issue, similarity: featureSimilarity(feature, issue) }))
+      .filter(candidate => candidate.similarity >= config.threshold)
+      .sort((a, b) => b.similarity - a.similarity)[0];
+
+    if (!best) {
+      remaining.push(feature);
+      continue;
+    }
+
+    duplicates.push({
+      feature,
+      issueNumber: best.issue.number,
+      issueTitle: best.issue.title,
+      similarity: Math.round(best.similarity * 100) / 100,
+      resolution: config.policy
+    });
+    if (config.policy === 'flag') {
+      remaining.push(feature);
+    }
+  }
+
+  return { duplicates, remaining };
+}
+
+/**
+ * Flagged duplicate a feature is created as, if any
+ */
+export function findFlaggedDuplicate(feature: AnalyzedFeature, duplicates: DuplicateFeature[]): DuplicateFeature | undefined {
+  const key = normalizeTitle(feature.title);
+  return duplicates.find(duplicate => duplicate.resolution === 'flag' && normalizeTitle(duplicate.feature.title) === key);
+}
+
+export function flagPossibleDuplicate(issue: IssueData, duplicate: DuplicateFeature): IssueData {
+  const note = `> ⚠️ **Possible duplicate** of #${duplicate.issueNumber} (${duplicate.issueTitle}, ${Math.round(duplicate.similarity * 100)}% similar). Review before starting work; close one of them if they cover the same scope.`;
+  return {
+    ...issue,
+    body: `${note}\n\n${issue.body}`,
+    labels: issue.labels.includes(POSSIBLE_DUPLICATE_LABEL) ? issue.labels : [...issue.labels, POSSIBLE_DUPLICATE_LABEL]
+  };
+}
+
+/**
+ * Acceptance criteria and tags of a duplicate feature that the matching issue does not have yet
+ */
+export function planDuplicateMerge(issue: Issue, feature: AnalyzedFeature): { update: IssueUpdate; addedCriteria: string[] } {
+  const visible = stripIssueMetadata(issue.body);
+  const existing = new Set(readListItems(readIssueSection(visible, 'Acceptance Criteria') || '').map(normalizeTitle));
+  const addedCriteria = feature.acceptanceCriteria.filter(criterion => !existing.has(normalizeTitle(criterion)));
+  const update: IssueUpdate = {};
+
+  if (addedCriteria.length > 0) {
+    const items = addedCriteria.map(criterion => `- [ ] ${criterion}`);
+    const lines = visible.split('\n');
+    const start = lines.findIndex(line => line.trim().toLowerCase() === '### acceptance criteria');
+    if (start === -1) {
+      lines.push('', '### Acceptance Criteria', ...items);
+    } else {
+      // After the last list item of the section
+      let insertAt = start + 1;
+      for (let index = start + 1; index < lines.length && !/^#{1,3} /.test(lines[index]) && lines[index].trim() !== '---'; index++) {
+        if (/^\s*[-*]\s+/.test(lines[index])) {
+          insertAt = index + 1;
+        }
+      }
+      lines.splice(insertAt, 0, ...items);
+    }
+    update.body = writeIssueMetadata(lines.join('\n'), readIssueMetadata(issue.body));
+  }
+
+  const addedTags = feature.tags.filter(tag => !issue.labels.includes(tag));
+  if (addedTags.length > 0) {
+    update.labels = [...issue.labels, ...addedTags];
+  }
+
+  return { update, addedCriteria };
+}
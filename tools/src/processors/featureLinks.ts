@@ -0,0 +1,55 @@
+// processors/featureLinks.ts
+// Turns the free-text dependencies of analyzed features into typed links between issue numbers.
+
+import { IssueLinkType } from '../services/interfaces/IIssueService';
+import { inverseLinkType } from '../utils/issueLinks';
+import { findIssueByTitle } from '../utils/titles';
+import { IssueRef } from './openQuestions';
+import { AnalyzedFeature } from './schemas';
+
+export interface PlannedIssueLink {
+  issueNumber: number;
+  type: IssueLinkType;
+  targetIssueNumber: number;
+}
+
+/**
+ * Resolve `dependencies` (blocked-by) and `blockedFeatures` (blocks) of newly created features.
+ * References that match no issue, such as external systems, are skipped.
+ * @param createdIssues The issue created for each feature, in the same order as `features`
+ * @param candidates All issues references may point to, including `createdIssues`
+ */
+export function resolveFeatureLinks(
+  features: AnalyzedFeature[],
+  createdIssues: IssueRef[],
+  candidates: IssueRef[]
+): PlannedIssueLink[] {
+  const links: PlannedIssueLink[] = [];
+
+  const addResolved = (issue: IssueRef, type: IssueLinkType, reference: string) => {
+    const target = findIssueByTitle(reference, candidates.filter(candidate => candidate.number !== issue.number));
+    if (!target) {
+      return;
+    }
+    // The same relationship may be declared from both sides (A blocks B, B depends on A)
+    const duplicate = links.some(link =>
+      (link.issueNumber === issue.number && link.type === type && link.targetIssueNumber === target.number) ||
+      (link.issueNumber === target.number && link.targetIssueNumber === issue.number &&
+        link.type === inverseLinkType(type))
+    );
+    if (!duplicate) {
+      links.push({ issueNumber: issue.number, type, targetIssueNumber: target.number });
+    }
+  };
+
+  features.forEach((feature, index) => {
+    const issue = createdIssues[index];
+    if (!issue) {
+      return;
+    }
+    feature.dependencies.forEach(dependency => addResolved(issue, 'blocked-by', dependency));
+    feature.blockedFeatures.forEach(blocked => addResolved(issue, 'blocks', blocked));
+  });
+
+  return links;
+}
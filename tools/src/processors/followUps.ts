@@ -0,0 +1,73 @@
+// processors/followUps.ts
+// Closed issues are never reopened or rewritten: a PRD change touching shipped work
+// becomes a follow-up issue that references and summarizes the original (see WORKFLOW.md).
+
+import { Issue, IssueData } from '../services/interfaces/IIssueService';
+import { flattenSections, parsePRD } from '../prd/prdParser';
+import { readIssueMetadata, stripIssueMetadata, writeIssueMetadata } from '../utils/issueMetadata';
+import { stripTypePrefix } from '../utils/titles';
+import { IssueUpdatePlan } from './schemas';
+
+export const FOLLOW_UP_LABEL = 'follow-up';
+
+const SUMMARY_MAX_LENGTH = 500;
+
+/**
+ * Description section of the original issue, or its first paragraph for free-form bodies
+ */
+export function summarizeIssue(issue: Issue): string {
+  const body = stripIssueMetadata(issue.body);
+  const description = flattenSections(parsePRD(body)).find(section => /^description$/i.test(section.title));
+  const text = (description
+    ? description.content
+    : body.split(/\n\s*\n/).find(paragraph => paragraph.trim() && !paragraph.trim().startsWith('#')) || ''
+  ).trim();
+
+  if (text.length <= SUMMARY_MAX_LENGTH) {
+    return text || '_No description_';
+  }
+  return `${text.substring(0, SUMMARY_MAX_LENGTH - 3).trimEnd()}...`;
+}
+
+/**
+ * Whether a planned change must become a follow-up issue instead of touching the original
+ */
+export function needsFollowUp(update: IssueUpdatePlan, issue: Pick<Issue, 'state'> | null | undefined): boolean {
+  if (update.action === 'follow_up') {
+    return true;
+  }
+  return update.action === 'update' && issue?.state === 'closed';
+}
+
+export function renderFollowUpIssue(original: Issue, update: IssueUpdatePlan, prdPath: string): IssueData {
+  const prefix = original.title.match(/^\[[A-Z-]+\]/)?.[0];
+  const plannedTitle = update.updates?.title ? stripTypePrefix(update.updates.title) : stripTypePrefix(original.title);
+
+  const sections = [
+    `## 🔁 Follow-up to #${original.number}`,
+    '',
+    `The PRD changed after #${original.number} (${original.title}) was closed. This issue covers the change; the original stays closed.`,
+    '',
+    `### Summary of #${original.number}`,
+    summarizeIssue(original),
+    '',
+    '### What Changed',
+    update.updateSummary || update.reasoning
+  ];
+
+  if (update.updates?.body) {
+    sections.push('', '### Updated Scope', stripIssueMetadata(update.updates.body));
+  }
+
+  sections.push('', '---', '', `**Generated from PRD:** \`${prdPath}\``);
+
+  const labels = (update.updates?.labels || original.labels).filter(label => label !== FOLLOW_UP_LABEL);
+  return {
+    title: `${prefix ? `${prefix} ` : ''}${plannedTitle} (follow-up to #${original.number})`,
+    body: writeIssueMetadata(sections.join('\n'), {
+      prdSections: readIssueMetadata(original.body).prdSections,
+      followUpOf: original.number
+    }),
+    labels: [...labels, FOLLOW_UP_LABEL]
+  };
+}
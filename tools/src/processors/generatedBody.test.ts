@@ -0,0 +1,45 @@
+// processors/generatedBody.test.ts
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { planGeneratedBodyUpdate, readGeneratedBody, recordGeneratedBody } from './generatedBody';
+import { readIssueMetadata, stripIssueMetadata, writeIssueMetadata } from '../utils/issueMetadata';
+
+const GENERATED = '## Login\n\n- [ ] Email and password\n- [ ] Lock after 5 attempts';
+
+test('replaces a body nobody edited, keeping its metadata', () => {
+  const current = recordGeneratedBody(writeIssueMetadata(GENERATED, { prdId: 'auth' }));
+  const next = GENERATED.replace('5 attempts', '3 attempts');
+
+  const update = planGeneratedBodyUpdate(current, next);
+
+  assert.equal(update.kind, 'replace');
+  assert.equal(stripIssueMetadata(update.body), next);
+  assert.equal(readIssueMetadata(update.body).prdId, 'auth');
+  assert.equal(readGeneratedBody(update.body), next);
+});
+
+test('merges edits made since the body was generated', () => {
+  const current = recordGeneratedBody(GENERATED).replace('- [ ] Email and password', '- [x] Email and password');
+  const next = GENERATED.replace('## Login', '## Sign in');
+
+  const update = planGeneratedBodyUpdate(current, next);
+
+  assert.equal(update.kind, 'merge');
+  assert.equal(stripIssueMetadata(update.body), '## Sign in\n\n- [x] Email and password\n- [ ] Lock after 5 attempts');
+  assert.equal(readGeneratedBody(update.body), next);
+});
+
+test('proposes conflicting changes instead of overwriting edits', () => {
+  const current = recordGeneratedBody(GENERATED).replace('5 attempts', '10 attempts');
+  const next = GENERATED.replace('5 attempts', '3 attempts');
+
+  const update = planGeneratedBodyUpdate(current, next);
+
+  assert.equal(update.kind, 'conflict');
+  assert.equal(stripIssueMetadata(update.body), stripIssueMetadata(current));
+  assert.equal(readGeneratedBody(update.body), next);
+  if (update.kind === 'conflict') {
+    assert.match(update.proposal, /\+- \[ \] Lock after 3 attempts/);
+  }
+});
@@ -0,0 +1,94 @@
+// processors/generatedBody.ts
+// The last generated body of each issue is kept in its metadata, so a regenerated body can be
+// three-way merged with what engineers changed since (notes, checked-off criteria) instead of replacing it.
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { createUnifiedDiff } from '../utils/diff';
+import { readIssueMetadata, stripIssueMetadata, writeIssueMetadata } from '../utils/issueMetadata';
+import { mergeThreeWay } from '../utils/merge';
+
+/**
+ * - `replace`: the issue was not edited since it was generated (or predates generated body tracking)
+ * - `merge`: the edits were merged with the new generated body
+ * - `conflict`: the edits conflict with the new generated body; the visible body is left as is and
+ *   `proposal` is a comment describing the change
+ */
+export type GeneratedBodyUpdate =
+  | { kind: 'replace'; body: string }
+  | { kind: 'merge'; body: string }
+  | { kind: 'conflict'; body: string; proposal: string };
+
+function normalizeBody(body: string): string {
+  return stripIssueMetadata(body).replace(/\r\n/g, '\n').trimEnd();
+}
+
+/**
+ * Stored deflated and base64 encoded: keeps the metadata small and free of `-->`, which would end the comment
+ */
+function encodeBody(body: string): string {
+  return deflateRawSync(Buffer.from(normalizeBody(body), 'utf8')).toString('base64');
+}
+
+/**
+ * Visible body the issue was last generated with, or null for issues created before it was recorded
+ */
+export function readGeneratedBody(body: string): string | null {
+  const encoded = readIssueMetadata(body).generatedBody;
+  if (typeof encoded !== 'string') {
+    return null;
+  }
+  try {
+    return inflateRawSync(Buffer.from(encoded, 'base64')).toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record the visible text of a freshly generated body in its own metadata
+ */
+export function recordGeneratedBody(body: string): string {
+  return writeIssueMetadata(body, { ...readIssueMetadata(body), generatedBody: encodeBody(body) });
+}
+
+/**
+ * Work out how to apply a newly generated body to an issue whose current body may have been edited
+ * @param currentBody Current issue body, including its metadata
+ * @param generatedBody Newly generated visible body
+ */
+export function planGeneratedBodyUpdate(currentBody: string, generatedBody: string): GeneratedBodyUpdate {
+  const metadata = readIssueMetadata(currentBody);
+  const previous = readGeneratedBody(currentBody);
+  const current = normalizeBody(currentBody);
+  const next = normalizeBody(generatedBody);
+
+  if (previous === null || previous === current) {
+    return { kind: 'replace', body: recordGeneratedBody(writeIssueMetadata(next, metadata)) };
+  }
+
+  // Either way the new generated body becomes the base, so the edits still count as edits next time
+  const withBase = (body: string) => writeIssueMetadata(body, { ...metadata, generatedBody: encodeBody(next) });
+  const merged = mergeThreeWay(previous, current, next);
+  if (merged.conflicts === 0) {
+    return { kind: 'merge', body: withBase(merged.text) };
+  }
+
+  // Proposed once: later runs merge against the new base and keep whatever the engineers made of it
+  const proposal = [
+    '🤖 **Proposed update from the PRD**',
+    '',
+    'This issue was edited since it was generated, and the regenerated description conflicts with those edits, so the description was left unchanged. The PRD change would make these changes to the generated description; apply what still makes sense by hand:',
+    '',
+    '```diff',
+    createUnifiedDiff(previous, next, { oldLabel: 'previously generated', newLabel: 'newly generated' }).trimEnd(),
+    '```',
+    '',
+    '<details><summary>Full regenerated description</summary>',
+    '',
+    next,
+    '',
+    '</details>'
+  ].join('\n');
+
+  return { kind: 'conflict', body: withBase(current), proposal };
+}
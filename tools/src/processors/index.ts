@@ -1,4 +1,12 @@
 // processors/index.ts
 export * from './BasicPRDProcessor';
 export * from './OpenAIPRDProcessor';
-export * from './SmartPRDProcessor';
\ No newline at end of file
+export * from './SmartPRDProcessor';
+export * from './duplicates';
+export * from './featureLinks';
+export * from './followUps';
+export * from './generatedBody';
+export * from './obsolete';
+export * from './openQuestions';
+export * from './planBatches';
+export * from './schemas';
\ No newline at end of file
@@ -0,0 +1,111 @@
+// processors/obsolete.ts
+// Obsolete issues are labelled (and optionally closed or moved to a milestone) instead of only
+// commented on, so they can be filtered, kept out of planning and restored when the scope returns.
+
+import { Issue, IssueUpdate } from '../services/interfaces/IIssueService';
+import { readIssueMetadata, writeIssueMetadata } from '../utils/issueMetadata';
+import { normalizeTitle } from '../utils/titles';
+import { AnalyzedFeature } from './schemas';
+
+export const OBSOLETE_LABEL = 'status:obsolete';
+export const DEFAULT_OBSOLETE_MILESTONE = 'Obsolete';
+
+/**
+ * - `label`: add the `status:obsolete` label
+ * - `close`: label and close the issue
+ * - `milestone`: label and move the issue to the obsolete milestone
+ */
+export type ObsoletePolicy = 'label' | 'close' | 'milestone';
+
+export interface ObsoletePolicyConfig {
+  policy: ObsoletePolicy;
+  milestone: string;
+}
+
+/** What the issue looked like before it was marked obsolete, kept in the body metadata */
+interface ObsoleteRecord {
+  previousState: 'open' | 'closed';
+  previousMilestone?: string;
+  reason: string;
+  markedAt: string;
+}
+
+export function resolveObsoletePolicy(config?: { obsoletePolicy?: string; obsoleteMilestone?: string }): ObsoletePolicyConfig {
+  const policy = config?.obsoletePolicy || 'label';
+  if (policy !== 'label' && policy !== 'close' && policy !== 'milestone') {
+    throw new Error(`Unknown obsolete policy "${policy}". Use label, close or milestone.`);
+  }
+  return { policy, milestone: config?.obsoleteMilestone || DEFAULT_OBSOLETE_MILESTONE };
+}
+
+export function isObsoleteIssue(issue: Issue): boolean {
+  return issue.labels.includes(OBSOLETE_LABEL);
+}
+
+export function planObsoleteUpdate(issue: Issue, config: ObsoletePolicyConfig, reason: string): IssueUpdate {
+  const record: ObsoleteRecord = {
+    previousState: issue.state,
+    previousMilestone: issue.milestone,
+    reason,
+    markedAt: new Date().toISOString()
+  };
+
+  const update: IssueUpdate = {
+    labels: issue.labels.includes(OBSOLETE_LABEL) ? issue.labels : [...issue.labels, OBSOLETE_LABEL],
+    body: writeIssueMetadata(issue.body, { ...readIssueMetadata(issue.body), obsolete: record })
+  };
+
+  if (config.policy === 'close') {
+    update.state = 'closed';
+  } else if (config.policy === 'milestone') {
+    update.milestone = config.milestone;
+  }
+
+  return update;
+}
+
+/**
+ * Undo planObsoleteUpdate: drop the label and restore the recorded state and milestone
+ */
+export function planReopenUpdate(issue: Issue): IssueUpdate {
+  const { obsolete, ...metadata } = readIssueMetadata(issue.body);
+  const record = obsolete as ObsoleteRecord | undefined;
+
+  const update: IssueUpdate = {
+    labels: issue.labels.filter(label => label !== OBSOLETE_LABEL),
+    body: writeIssueMetadata(issue.body, metadata),
+    state: record?.previousState || 'open'
+  };
+
+  if (issue.milestone !== record?.previousMilestone) {
+    update.milestone = record?.previousMilestone ?? null;
+  }
+
+  return update;
+}
+
+/**
+ * Split planned new features into those that reintroduce the scope of an obsolete issue
+ * (same normalized title) and those that are genuinely new
+ */
+export function matchReintroducedFeatures(
+  features: AnalyzedFeature[],
+  obsoleteIssues: Issue[]
+): { reopen: Array<{ issueNumber: number; feature: AnalyzedFeature }>; remaining: AnalyzedFeature[] } {
+  const reopen: Array<{ issueNumber: number; feature: AnalyzedFeature }> = [];
+  const remaining: AnalyzedFeature[] = [];
+
+  for (const feature of features) {
+    const key = normalizeTitle(feature.title);
+    const issue = obsoleteIssues.find(candidate =>
+      normalizeTitle(candidate.title) === key && !reopen.some(entry => entry.issueNumber === candidate.number)
+    );
+    if (issue) {
+      reopen.push({ issueNumber: issue.number, feature });
+    } else {
+      remaining.push(feature);
+    }
+  }
+
+  return { reopen, remaining };
+}
@@ -0,0 +1,139 @@
+// processors/openQuestions.ts
+// Open questions from the PRD are tracked as `type:question` blocker issues.
+
+import { Issue, IssueData } from '../services/interfaces/IIssueService';
+import { extractListItems, flattenSections, parsePRD } from '../prd/prdParser';
+import { readIssueMetadata, writeIssueMetadata } from '../utils/issueMetadata';
+import { findIssueByTitle } from '../utils/titles';
+import { OpenQuestion } from './schemas';
+
+export const QUESTION_LABELS = ['prd-generated', 'type:question', 'blocker', 'priority:high'];
+
+const MAX_TITLE_LENGTH = 100;
+
+export interface IssueRef {
+  number: number;
+  title: string;
+}
+
+export function normalizeQuestion(question: string): string {
+  return question
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function isQuestionIssue(issue: Issue): boolean {
+  return issue.labels.includes('type:question');
+}
+
+/**
+ * List items of the PRD's "Open Questions" section(s)
+ */
+export function extractOpenQuestions(prdContent: string): string[] {
+  return flattenSections(parsePRD(prdContent))
+    .filter(section => /open questions?/i.test(section.title))
+    .flatMap(section => extractListItems(section.content));
+}
+
+function questionKey(issue: Issue): string | undefined {
+  const key = readIssueMetadata(issue.body).questionKey;
+  return typeof key === 'string' ? key : undefined;
+}
+
+/**
+ * Compare the questions listed in the PRD with the tracked question issues, open and closed.
+ * A question issue closed by hand while the PRD still lists the question is left closed, not filed again.
+ * @returns Questions that need a new issue, open question issues that were resolved and closed
+ * question issues the PRD still lists
+ */
+export function reconcileOpenQuestions(
+  prdQuestions: string[],
+  questionDetails: OpenQuestion[],
+  questionIssues: Issue[]
+): { toCreate: OpenQuestion[]; resolved: Issue[]; closedButListed: Issue[] } {
+  const listed = new Map(prdQuestions.map(question => [normalizeQuestion(question), question]));
+  const details = new Map(questionDetails.map(detail => [normalizeQuestion(detail.question), detail]));
+  const tracked = new Set(questionIssues.map(issue => questionKey(issue)).filter((key): key is string => !!key));
+
+  const toCreate: OpenQuestion[] = [];
+  listed.forEach((question, key) => {
+    if (!tracked.has(key)) {
+      toCreate.push(details.get(key) || {
+        question,
+        impact: 'To be assessed with stakeholders',
+        blockedFeatures: [],
+        stakeholders: ['Product Owner']
+      });
+    }
+  });
+
+  const resolved = questionIssues.filter(issue => {
+    const key = questionKey(issue);
+    return issue.state === 'open' && !!key && !listed.has(key);
+  });
+
+  const closedButListed = questionIssues.filter(issue => {
+    const key = questionKey(issue);
+    return issue.state === 'closed' && !!key && listed.has(key);
+  });
+
+  return { toCreate, resolved, closedButListed };
+}
+
+/**
+ * Resolve the feature names a question blocks to issues, by normalized title
+ * @returns The matching issues and the feature names without an issue
+ */
+export function matchBlockedIssues(
+  question: OpenQuestion,
+  issues: IssueRef[]
+): { matched: IssueRef[]; unmatched: string[] } {
+  const matched: IssueRef[] = [];
+  const unmatched: string[] = [];
+
+  for (const feature of question.blockedFeatures) {
+    const issue = findIssueByTitle(feature, issues);
+    if (!issue) {
+      unmatched.push(feature);
+    } else if (!matched.some(existing => existing.number === issue.number)) {
+      matched.push(issue);
+    }
+  }
+
+  return { matched, unmatched };
+}
+
+/**
+ * Build the issue for an open question from the open-question template
+ * @param featureIssues Feature issues the blocked features are resolved against
+ */
+export function renderQuestionIssue(
+  template: string,
+  question: OpenQuestion,
+  prdPath: string,
+  featureIssues: IssueRef[]
+): IssueData {
+  const { matched, unmatched } = matchBlockedIssues(question, featureIssues);
+  const blockedLines = [
+    ...matched.map(issue => `- #${issue.number} ${issue.title}`),
+    ...unmatched.map(feature => `- ${feature}`)
+  ];
+
+  const body = template
+    .replace('{{DESCRIPTION}}', question.question)
+    .replace('{{IMPACT}}', question.impact)
+    .replace('{{BLOCKED_FEATURES}}', blockedLines.join('\n') || 'None identified yet')
+    .replace('{{STAKEHOLDERS}}', question.stakeholders.map(stakeholder => `- ${stakeholder}`).join('\n') || 'To be determined')
+    .replace('{{PRD_PATH}}', prdPath);
+
+  const title = question.question.length > MAX_TITLE_LENGTH
+    ? `${question.question.substring(0, MAX_TITLE_LENGTH - 3)}...`
+    : question.question;
+
+  return {
+    title: `[QUESTION] ${title}`,
+    body: writeIssueMetadata(body, { questionKey: normalizeQuestion(question.question) }),
+    labels: [...QUESTION_LABELS]
+  };
+}
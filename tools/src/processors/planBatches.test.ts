@@ -0,0 +1,61 @@
+// processors/planBatches.test.ts
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { chunkItems, mergeBatchPlans, resolvePlanningRetrievalConfig, retrievalQueries } from './planBatches';
+import { UnifiedPlanResult, UnifiedPlanResultSchema } from './schemas';
+
+const feature = (title: string) =>
+  ({ title, description: title, type: 'technical', priority: 'medium', estimatedEffort: 's', acceptanceCriteria: [] });
+
+const batchPlan = (issueNumber: number, features: string[], questions: string[], significant: boolean): UnifiedPlanResult =>
+  UnifiedPlanResultSchema.parse({
+    changeAssessment: {
+      hasSignificantChanges: significant,
+      changeSummary: 'Login changed',
+      trivialChangesIgnored: ['Typo in Login'],
+      reasoningForSignificance: 'Scope changed'
+    },
+    issueUpdates: [{ issueNumber, action: 'update', changeSignificance: 'minor', reasoning: 'Scope changed' }],
+    newFeatures: features.map(feature),
+    openQuestions: questions.map(question => ({ question, impact: 'Blocks login' })),
+    summary: {
+      totalIssuesAnalyzed: 20,
+      issuesRequiringUpdates: 1,
+      issuesMarkedObsolete: 0,
+      newIssuesNeeded: features.length,
+      overallRationale: 'Login changed'
+    }
+  });
+
+test('splits items into batches and always returns one batch', () => {
+  assert.deepEqual(chunkItems([1, 2, 3, 4, 5], 2), [[1, 2], [3, 4], [5]]);
+  assert.deepEqual(chunkItems([], 2), [[]]);
+});
+
+test('merges batch plans and keeps features and questions proposed twice once', () => {
+  const merged = mergeBatchPlans([
+    batchPlan(1, ['Password reset'], ['Do we support SSO?'], false),
+    batchPlan(2, ['[TECHNICAL] Password Reset', 'Login audit log'], ['Do we support SSO'], true)
+  ]);
+
+  assert.equal(merged.changeAssessment.hasSignificantChanges, true);
+  assert.deepEqual(merged.changeAssessment.trivialChangesIgnored, ['Typo in Login']);
+  assert.deepEqual(merged.issueUpdates.map(update => update.issueNumber), [1, 2]);
+  assert.deepEqual(merged.newFeatures.map(candidate => candidate.title), ['Password reset', 'Login audit log']);
+  assert.equal(merged.openQuestions.length, 1);
+  assert.equal(merged.summary.totalIssuesAnalyzed, 40);
+  assert.equal(merged.summary.newIssuesNeeded, 2);
+  assert.equal(merged.summary.overallRationale, 'Login changed');
+});
+
+test('queries with the diff hunks without a section diff', () => {
+  const diff = '--- a/auth.md\n+++ b/auth.md\n@@ -1,2 +1,2 @@\n-Old login\n+New login\n@@ -9 +9 @@\n+Logout';
+
+  assert.deepEqual(retrievalQueries(null, diff), ['-Old login\n+New login', '+Logout']);
+});
+
+test('rejects a batch size that is not positive', () => {
+  assert.throws(() => resolvePlanningRetrievalConfig({ batchSize: 0 }), /must be positive/);
+  assert.equal(resolvePlanningRetrievalConfig().batchSize, 20);
+});
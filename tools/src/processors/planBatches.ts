@@ -0,0 +1,105 @@
+// processors/planBatches.ts
+// Large backlogs are planned in batches of issues: only the issues relevant to the PRD change are
+// selected, split into prompt-sized batches, and the per-batch plans merged into one.
+
+import { SectionChange } from '../prd/sectionDiff';
+import { DEFAULT_ISSUE_INDEX_PATH } from '../retrieval/issueIndex';
+import { isDiffHeaderLine } from '../utils/diff';
+import { normalizeTitle } from '../utils/titles';
+import { normalizeQuestion } from './openQuestions';
+import { UnifiedPlanResult } from './schemas';
+
+export const DEFAULT_RETRIEVAL_THRESHOLD = 30;
+export const DEFAULT_PLANNING_BATCH_SIZE = 20;
+// Cosine similarities of unrelated texts are much higher with embeddings than with TF-IDF
+export const DEFAULT_MIN_RELEVANCE = { embedding: 0.4, tfidf: 0.08 };
+
+export interface PlanningRetrievalConfig {
+  /** Backlogs up to this size are planned in one prompt without retrieval */
+  retrievalThreshold: number;
+  /** Minimum relevance score of a retrieved issue; defaults depend on the index method */
+  minRelevance?: number;
+  batchSize: number;
+  /** Where issue embeddings are cached */
+  indexPath: string;
+}
+
+export function resolvePlanningRetrievalConfig(
+  config?: { retrievalThreshold?: number; minRelevance?: number; batchSize?: number; indexPath?: string }
+): PlanningRetrievalConfig {
+  const batchSize = config?.batchSize ?? DEFAULT_PLANNING_BATCH_SIZE;
+  if (!(batchSize > 0)) {
+    throw new Error(`Planning batch size must be positive, not ${batchSize}`);
+  }
+  return {
+    retrievalThreshold: config?.retrievalThreshold ?? DEFAULT_RETRIEVAL_THRESHOLD,
+    minRelevance: config?.minRelevance,
+    batchSize,
+    indexPath: config?.indexPath || DEFAULT_ISSUE_INDEX_PATH
+  };
+}
+
+/**
+ * Texts to retrieve issues with: one per affected section, or the diff hunks without a section diff
+ */
+export function retrievalQueries(affectedSections: SectionChange[] | null, filteredDiff: string): string[] {
+  if (affectedSections) {
+    return affectedSections.map(change => [
+      change.path.join(' > '),
+      change.currentContent || change.previousContent || '',
+      ...change.addedItems,
+      ...change.removedItems
+    ].join('\n'));
+  }
+
+  const hunks = filteredDiff.split(/^@@.*$/m)
+    .map(hunk => hunk.split('\n').filter(line => line.trim() && !isDiffHeaderLine(line)).join('\n'))
+    .filter(hunk => hunk.trim());
+  return hunks.length > 0 ? hunks : [filteredDiff];
+}
+
+export function chunkItems<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks.length > 0 ? chunks : [[]];
+}
+
+/**
+ * Combine the plans of several batches. Every batch sees the same PRD change, so new features and
+ * open questions proposed by more than one batch are kept once.
+ */
+export function mergeBatchPlans(plans: UnifiedPlanResult[]): UnifiedPlanResult {
+  if (plans.length === 1) {
+    return plans[0];
+  }
+
+  const unique = <T>(items: T[], key: (item: T) => string) =>
+    items.filter((item, index) => items.findIndex(other => key(other) === key(item)) === index);
+
+  const newFeatures = unique(plans.flatMap(plan => plan.newFeatures), feature => normalizeTitle(feature.title));
+  const issueUpdates = plans.flatMap(plan => plan.issueUpdates);
+
+  return {
+    changeAssessment: {
+      ...plans[0].changeAssessment,
+      hasSignificantChanges: plans.some(plan => plan.changeAssessment.hasSignificantChanges),
+      trivialChangesIgnored: unique(plans.flatMap(plan => plan.changeAssessment.trivialChangesIgnored), change => change)
+    },
+    issueUpdates,
+    newFeatures,
+    openQuestions: unique(plans.flatMap(plan => plan.openQuestions), question => normalizeQuestion(question.question)),
+    resolvedQuestionIssues: [],
+    reopenIssues: [],
+    duplicateFeatures: [],
+    summary: {
+      totalIssuesAnalyzed: plans.reduce((total, plan) => total + plan.summary.totalIssuesAnalyzed, 0),
+      issuesRequiringUpdates: plans.reduce((total, plan) => total + plan.summary.issuesRequiringUpdates, 0),
+      issuesMarkedObsolete: plans.reduce((total, plan) => total + plan.summary.issuesMarkedObsolete, 0),
+      newIssuesNeeded: newFeatures.length,
+      followUpIssuesNeeded: plans.reduce((total, plan) => total + plan.summary.followUpIssuesNeeded, 0),
+      overallRationale: unique(plans.map(plan => plan.summary.overallRationale), rationale => rationale).join('\n\n')
+    }
+  };
+}
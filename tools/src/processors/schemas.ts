@@ -0,0 +1,149 @@
+// processors/schemas.ts
+// Runtime schemas for AI responses. Types are inferred from the schemas so validation and typing never drift apart.
+
+import { z } from 'zod';
+
+export const FeatureTypeSchema = z.enum(['technical', 'non-technical', 'enabler']);
+export const PrioritySchema = z.enum(['high', 'medium', 'low']);
+
+export const AnalyzedFeatureSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  type: FeatureTypeSchema,
+  priority: PrioritySchema,
+  estimatedEffort: z.string().min(1),
+  acceptanceCriteria: z.array(z.string()),
+  dependencies: z.array(z.string()).default([]),
+  blockedFeatures: z.array(z.string()).default([]),
+  tags: z.array(z.string()).default([]),
+  prdSections: z.array(z.string()).default([]),
+  reasoning: z.string().optional(),
+  reason: z.string().optional()
+});
+
+export const OpenQuestionSchema = z.object({
+  question: z.string().min(1),
+  impact: z.string().min(1),
+  blockedFeatures: z.array(z.string()).default([]),
+  stakeholders: z.array(z.string()).default([])
+});
+
+/** Planned feature that matches an open issue, with how it is resolved (see processors/duplicates.ts) */
+export const DuplicateFeatureSchema = z.object({
+  feature: AnalyzedFeatureSchema,
+  issueNumber: z.number().int().positive(),
+  issueTitle: z.string(),
+  similarity: z.number().min(0).max(1),
+  resolution: z.enum(['flag', 'skip', 'merge'])
+});
+
+export const PRDAnalysisSchema = z.object({
+  metadata: z.object({
+    prdTitle: z.string(),
+    summary: z.string()
+  }).partial().optional(),
+  features: z.array(AnalyzedFeatureSchema),
+  openQuestions: z.array(OpenQuestionSchema).default([])
+});
+
+export const ChangeAssessmentSchema = z.object({
+  hasSignificantChanges: z.boolean(),
+  changeSummary: z.string(),
+  trivialChangesIgnored: z.array(z.string()).default([]),
+  reasoningForSignificance: z.string()
+});
+
+export const IssueUpdatesSchema = z.object({
+  title: z.string().min(1).optional(),
+  body: z.string().min(1).optional(),
+  labels: z.array(z.string()).optional()
+});
+
+export const IssueUpdatePlanSchema = z.object({
+  issueNumber: z.number().int().positive(),
+  /** `follow_up` is for closed issues: the change becomes a new issue linked to the original */
+  action: z.enum(['update', 'obsolete', 'no_change', 'follow_up']),
+  changeSignificance: z.enum(['minor', 'major', 'scope_change']),
+  reasoning: z.string(),
+  updates: IssueUpdatesSchema.optional(),
+  comment: z.string().optional(),
+  updateSummary: z.string().optional()
+});
+
+export const UnifiedPlanResultSchema = z.object({
+  changeAssessment: ChangeAssessmentSchema,
+  issueUpdates: z.array(IssueUpdatePlanSchema),
+  newFeatures: z.array(AnalyzedFeatureSchema),
+  /** Open questions that need a new clarification-blocker issue */
+  openQuestions: z.array(OpenQuestionSchema).default([]),
+  /** Question issues whose question was removed from the PRD */
+  resolvedQuestionIssues: z.array(z.number().int().positive()).default([]),
+  /** Obsolete issues whose scope the PRD reintroduced, with the feature that matched them */
+  reopenIssues: z.array(z.object({
+    issueNumber: z.number().int().positive(),
+    feature: AnalyzedFeatureSchema
+  })).default([]),
+  /** New features matching an open issue; skipped and merged ones are no longer in newFeatures */
+  duplicateFeatures: z.array(DuplicateFeatureSchema).default([]),
+  summary: z.object({
+    totalIssuesAnalyzed: z.number().int().nonnegative(),
+    issuesRequiringUpdates: z.number().int().nonnegative(),
+    issuesMarkedObsolete: z.number().int().nonnegative(),
+    newIssuesNeeded: z.number().int().nonnegative(),
+    followUpIssuesNeeded: z.number().int().nonnegative().default(0),
+    overallRationale: z.string()
+  })
+});
+
+// Legacy 3-stage schemas - kept for compatibility during transition
+export const Stage1ResultSchema = z.object({
+  relevantIssues: z.array(z.object({
+    issueNumber: z.number().int().positive(),
+    title: z.string(),
+    relevance: PrioritySchema,
+    reason: z.string(),
+    affectedSections: z.array(z.string()).default([])
+  })),
+  unrelatedIssues: z.array(z.number().int().positive()),
+  summary: z.string()
+});
+
+export const Stage2ResultSchema = z.object({
+  updatePlans: z.array(z.object({
+    issueNumber: z.number().int().positive(),
+    updates: IssueUpdatesSchema,
+    comment: z.string().optional(),
+    changeType: z.enum(['minor', 'major', 'scope_change']),
+    updateSummary: z.string()
+  })),
+  noUpdateNeeded: z.array(z.number().int().positive()),
+  summary: z.string()
+});
+
+export type AnalyzedFeature = z.infer<typeof AnalyzedFeatureSchema>;
+export type OpenQuestion = z.infer<typeof OpenQuestionSchema>;
+export type DuplicateFeature = z.infer<typeof DuplicateFeatureSchema>;
+export type PRDAnalysisResult = z.infer<typeof PRDAnalysisSchema>;
+export type ChangeAssessment = z.infer<typeof ChangeAssessmentSchema>;
+export type IssueUpdatePlan = z.infer<typeof IssueUpdatePlanSchema>;
+export type UnifiedPlanResult = z.infer<typeof UnifiedPlanResultSchema>;
+export type Stage1Result = z.infer<typeof Stage1ResultSchema>;
+export type Stage2Result = z.infer<typeof Stage2ResultSchema>;
+
+/**
+ * Build a plan schema that also rejects references to issues that were not part of the planning input
+ */
+export function createUnifiedPlanSchema(knownIssueNumbers: number[]) {
+  const known = new Set(knownIssueNumbers);
+  return UnifiedPlanResultSchema.superRefine((plan, ctx) => {
+    plan.issueUpdates.forEach((update, index) => {
+      if (!known.has(update.issueNumber)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['issueUpdates', index, 'issueNumber'],
+          message: `Issue #${update.issueNumber} is not one of the existing issues provided`
+        });
+      }
+    });
+  });
+}
@@ -0,0 +1,2 @@
+// retrieval/index.ts
+export * from './issueIndex';
@@ -0,0 +1,84 @@
+// retrieval/issueIndex.test.ts
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IssueIndex } from './issueIndex';
+import { Issue } from '../services/interfaces/IIssueService';
+import { IEmbeddingProvider } from '../llm/interfaces/IEmbeddingProvider';
+
+const issue = (number: number, title: string, body: string): Issue => ({
+  number,
+  title,
+  body,
+  state: 'open',
+  labels: [],
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z'
+});
+
+const ISSUES = [
+  issue(1, 'Email login', 'Users log in with email and password. Lock the account after failed attempts.'),
+  issue(2, 'Invoice export', 'Export invoices as PDF from the billing page.'),
+  issue(3, 'Dark mode', 'Switch the interface to a dark color scheme.')
+];
+
+/** Embeds texts as counts of a few keywords and records every embedded text */
+class KeywordEmbeddings implements IEmbeddingProvider {
+  readonly name = 'keywords';
+  readonly model = 'keywords-1';
+  embedded: string[] = [];
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.embedded.push(...texts);
+    return texts.map(text => ['login', 'invoice', 'dark'].map(keyword => text.toLowerCase().split(keyword).length - 1));
+  }
+}
+
+test('ranks issues by TF-IDF without an embedding provider', async () => {
+  const index = new IssueIndex(null, null);
+  await index.build(ISSUES);
+
+  const matches = await index.search(['Export invoices as CSV', 'Billing page layout']);
+
+  assert.equal(index.method, 'tfidf');
+  assert.equal(matches[0].issueNumber, 2);
+  assert.equal(matches.length, 3);
+  assert.ok(matches[0].score > matches[1].score);
+});
+
+test('ranks issues by embedding and caches the issue vectors by content', async () => {
+  const cachePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'issue-index-')), 'index.json');
+  const embeddings = new KeywordEmbeddings();
+  const index = new IssueIndex(embeddings, cachePath);
+  await index.build(ISSUES);
+
+  const matches = await index.search(['Dark theme']);
+
+  assert.equal(index.method, 'embedding');
+  assert.equal(matches[0].issueNumber, 3);
+  assert.equal(embeddings.embedded.length, 4);
+
+  embeddings.embedded = [];
+  await new IssueIndex(embeddings, cachePath).build([...ISSUES.slice(0, 2), issue(3, 'Dark mode', 'Follow the system dark setting.')]);
+
+  assert.deepEqual(embeddings.embedded, ['Dark mode\n\nFollow the system dark setting.']);
+  assert.equal(Object.keys(JSON.parse(fs.readFileSync(cachePath, 'utf8')).vectors).length, 3);
+});
+
+test('falls back to TF-IDF when embedding fails', async () => {
+  const failing: IEmbeddingProvider = {
+    name: 'failing',
+    model: 'failing-1',
+    embed: async () => {
+      throw new Error('Rate limited');
+    }
+  };
+  const index = new IssueIndex(failing, null);
+  await index.build(ISSUES);
+
+  assert.equal(index.method, 'tfidf');
+  assert.equal((await index.search(['Email login lockout']))[0].issueNumber, 1);
+});
@@ -0,0 +1,220 @@
+// retrieval/issueIndex.ts
+// Ranks issues by relevance to query texts, so planning only sends the issues a PRD change is about.
+// Uses an embedding provider when one is configured and TF-IDF otherwise, or when the provider fails.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Issue } from '../services/interfaces/IIssueService';
+import { IEmbeddingProvider } from '../llm/interfaces/IEmbeddingProvider';
+import { tokenize } from '../prd/sectionLinks';
+import { generateContentHash } from '../utils/hash';
+import { stripIssueMetadata } from '../utils/issueMetadata';
+import { createModuleLogger } from '../utils/logger';
+
+const logger = createModuleLogger('IssueIndex');
+
+export const DEFAULT_ISSUE_INDEX_PATH = '.issue-index.json';
+
+// Long bodies add little to an embedding but can exceed the model's input limit
+const MAX_EMBEDDED_TEXT_LENGTH = 8000;
+const EMBEDDING_BATCH_SIZE = 64;
+
+export type IssueIndexMethod = 'embedding' | 'tfidf';
+
+export interface IssueMatch {
+  issueNumber: number;
+  score: number;
+}
+
+/** Embeddings of issue texts by content hash, so unchanged issues are not embedded again */
+interface EmbeddingCache {
+  model: string;
+  vectors: Record<string, number[]>;
+}
+
+type SparseVector = Map<string, number>;
+
+function issueText(issue: Issue): string {
+  return `${issue.title}\n\n${stripIssueMetadata(issue.body)}`;
+}
+
+function denseCosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function sparseCosine(a: SparseVector, b: SparseVector): number {
+  let dot = 0;
+  a.forEach((weight, term) => {
+    dot += weight * (b.get(term) || 0);
+  });
+  return dot;
+}
+
+export class IssueIndex {
+  private issues: Issue[] = [];
+  private activeMethod: IssueIndexMethod = 'tfidf';
+  private idf = new Map<string, number>();
+  private termVectors = new Map<number, SparseVector>();
+  private embeddingVectors = new Map<number, number[]>();
+
+  /**
+   * @param embeddings Embedding provider; null indexes with TF-IDF only
+   * @param cachePath File the issue embeddings are cached in between runs; null keeps them in memory
+   */
+  constructor(private embeddings: IEmbeddingProvider | null = null, private cachePath: string | null = DEFAULT_ISSUE_INDEX_PATH) {}
+
+  get method(): IssueIndexMethod {
+    return this.activeMethod;
+  }
+
+  async build(issues: Issue[]): Promise<void> {
+    this.issues = issues;
+    this.buildTermVectors(issues);
+    this.activeMethod = 'tfidf';
+
+    if (this.embeddings) {
+      try {
+        await this.buildEmbeddings(issues, this.embeddings);
+        this.activeMethod = 'embedding';
+      } catch (error) {
+        logger.warn(`⚠️ Embedding issues with ${this.embeddings.name}/${this.embeddings.model} failed, using TF-IDF: ${(error as Error).message}`, {
+          action: 'issue_index_embedding_failed'
+        });
+      }
+    }
+
+    logger.debug('Issue index built', { action: 'issue_index_built', issues: issues.length, method: this.activeMethod });
+  }
+
+  /**
+   * Best score of every indexed issue over all queries, highest first
+   */
+  async search(queries: string[]): Promise<IssueMatch[]> {
+    let scores: (issue: Issue) => number;
+
+    const queryEmbeddings = this.activeMethod === 'embedding' ? await this.embedQueries(queries) : null;
+    if (queryEmbeddings) {
+      scores = issue => Math.max(0, ...queryEmbeddings.map(query => denseCosine(query, this.embeddingVectors.get(issue.number) || [])));
+    } else {
+      const queryVectors = queries.map(query => this.termVector(tokenize(query)));
+      scores = issue => Math.max(0, ...queryVectors.map(query => sparseCosine(query, this.termVectors.get(issue.number) || new Map())));
+    }
+
+    return this.issues
+      .map(issue => ({ issueNumber: issue.number, score: scores(issue) }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private buildTermVectors(issues: Issue[]): void {
+    // The title is counted twice: it names the scope more precisely than the body
+    const documents = issues.map(issue => tokenize(`${issue.title}\n${issueText(issue)}`));
+
+    const documentFrequency = new Map<string, number>();
+    for (const tokens of documents) {
+      new Set(tokens).forEach(token => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1));
+    }
+
+    this.idf = new Map();
+    documentFrequency.forEach((count, token) => {
+      this.idf.set(token, Math.log((issues.length + 1) / (count + 1)) + 1);
+    });
+
+    this.termVectors = new Map(issues.map((issue, index) => [issue.number, this.termVector(documents[index])]));
+  }
+
+  /**
+   * L2-normalized TF-IDF vector; terms unknown to the index are dropped
+   */
+  private termVector(tokens: string[]): SparseVector {
+    const counts = new Map<string, number>();
+    tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+
+    const vector: SparseVector = new Map();
+    let norm = 0;
+    counts.forEach((count, token) => {
+      const idf = this.idf.get(token);
+      if (idf !== undefined) {
+        const weight = (1 + Math.log(count)) * idf;
+        vector.set(token, weight);
+        norm += weight * weight;
+      }
+    });
+
+    norm = Math.sqrt(norm);
+    vector.forEach((weight, token) => vector.set(token, weight / norm));
+    return vector;
+  }
+
+  private async buildEmbeddings(issues: Issue[], embeddings: IEmbeddingProvider): Promise<void> {
+    const cache = this.loadCache(embeddings.model);
+    const texts = issues.map(issue => issueText(issue).substring(0, MAX_EMBEDDED_TEXT_LENGTH));
+    const hashes = texts.map(text => generateContentHash(text));
+
+    const missing = hashes
+      .map((hash, index) => ({ hash, text: texts[index] }))
+      .filter((entry, index, all) => !cache.vectors[entry.hash] && all.findIndex(other => other.hash === entry.hash) === index);
+
+    for (let start = 0; start < missing.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = missing.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const vectors = await embeddings.embed(batch.map(entry => entry.text));
+      batch.forEach((entry, index) => {
+        cache.vectors[entry.hash] = vectors[index];
+      });
+    }
+
+    this.embeddingVectors = new Map(issues.map((issue, index) => [issue.number, cache.vectors[hashes[index]]]));
+
+    if (missing.length > 0) {
+      logger.info(`🧭 Embedded ${missing.length} issues with ${embeddings.model} (${issues.length - missing.length} cached)`, {
+        action: 'issue_index_embedded',
+        embedded: missing.length
+      });
+    }
+
+    // Only the current issues are kept, so the cache does not grow with every edit
+    const current = new Set(hashes);
+    this.saveCache({
+      model: cache.model,
+      vectors: Object.fromEntries(Object.entries(cache.vectors).filter(([hash]) => current.has(hash)))
+    });
+  }
+
+  private async embedQueries(queries: string[]): Promise<number[][] | null> {
+    try {
+      return await this.embeddings!.embed(queries.map(query => query.substring(0, MAX_EMBEDDED_TEXT_LENGTH)));
+    } catch (error) {
+      logger.warn(`⚠️ Embedding the queries failed, using TF-IDF: ${(error as Error).message}`, { action: 'issue_index_query_embedding_failed' });
+      return null;
+    }
+  }
+
+  private loadCache(model: string): EmbeddingCache {
+    if (this.cachePath && fs.existsSync(this.cachePath)) {
+      try {
+        const cache = JSON.parse(fs.readFileSync(this.cachePath, 'utf8')) as EmbeddingCache;
+        if (cache.model === model && cache.vectors) {
+          return cache;
+        }
+      } catch (error) {
+        logger.warn(`⚠️ Ignoring unreadable issue index ${this.cachePath}: ${(error as Error).message}`);
+      }
+    }
+    return { model, vectors: {} };
+  }
+
+  private saveCache(cache: EmbeddingCache): void {
+    if (!this.cachePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(path.resolve(this.cachePath)), { recursive: true });
+    fs.writeFileSync(this.cachePath, JSON.stringify(cache));
+  }
+}
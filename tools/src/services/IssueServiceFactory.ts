@@ -2,18 +2,26 @@
 
 import * as path from 'path';
 import { IIssueService } from './interfaces/IIssueService';
-import { GitHubIssueService } from './implementations/GitHubIssueService';
+import { GitHubIssueService, GitHubRetryOptions } from './implementations/GitHubIssueService';
+import { GitLabIssueService, GitLabServiceConfig } from './implementations/GitLabIssueService';
+import { JiraIssueService, JiraServiceConfig, JiraFieldMapping } from './implementations/JiraIssueService';
 import { FileSystemIssueService } from './implementations/FileSystemIssueService';
 import { InMemoryIssueService } from './implementations/InMemoryIssueService';
 
-export type ServiceType = 'github' | 'filesystem' | 'memory';
+export type ServiceType = 'github' | 'gitlab' | 'jira' | 'filesystem' | 'memory';
 
-export interface GitHubConfig {
+export interface GitHubConfig extends GitHubRetryOptions {
   token: string;
   owner: string;
   repo: string;
+  /** API root, e.g. GitHub Enterprise or FakeGitHubServer (default https://api.github.com) */
+  baseUrl?: string;
 }
 
+export type GitLabConfig = GitLabServiceConfig;
+
+export type JiraConfig = JiraServiceConfig;
+
 export interface FileSystemConfig {
   path?: string;
 }
@@ -28,7 +36,39 @@ export class IssueServiceFactory {
         return new GitHubIssueService({
           token: config.token,
           owner: config.owner,
-          repo: config.repo
+          repo: config.repo,
+          baseUrl: config.baseUrl,
+          maxRetries: config.maxRetries,
+          retryBaseDelayMs: config.retryBaseDelayMs,
+          maxRetryDelayMs: config.maxRetryDelayMs
+        });
+
+      case 'gitlab':
+        if (!config?.token || !config?.projectId) {
+          throw new Error('GitLab service requires token and projectId in config');
+        }
+        return new GitLabIssueService({
+          token: config.token,
+          projectId: config.projectId,
+          baseUrl: config.baseUrl,
+          prdVersionsPath: config.prdVersionsPath || path.join(__dirname, '../../../.issues/prd-versions'),
+          maxRetries: config.maxRetries,
+          retryBaseDelayMs: config.retryBaseDelayMs
+        });
+
+      case 'jira':
+        if (!config?.baseUrl || !config?.projectKey || !config?.token) {
+          throw new Error('Jira service requires baseUrl, projectKey, and token in config');
+        }
+        return new JiraIssueService({
+          baseUrl: config.baseUrl,
+          projectKey: config.projectKey,
+          token: config.token,
+          email: config.email,
+          fields: config.fields,
+          prdVersionsPath: config.prdVersionsPath || path.join(__dirname, '../../../.issues/prd-versions'),
+          maxRetries: config.maxRetries,
+          retryBaseDelayMs: config.retryBaseDelayMs
         });
 
       case 'filesystem':
@@ -42,24 +82,113 @@ export class IssueServiceFactory {
     }
   }
 
+  /**
+   * GitHub settings as provided to workflow runs: GITHUB_TOKEN, GITHUB_REPOSITORY (owner/repo) and GITHUB_API_URL
+   */
+  static githubConfigFromEnv(): GitHubConfig {
+    const githubToken = process.env.GITHUB_TOKEN;
+    const githubRepo = process.env.GITHUB_REPOSITORY;
+
+    if (!githubToken || !githubRepo) {
+      throw new Error('GitHub service requires GITHUB_TOKEN and GITHUB_REPOSITORY env vars');
+    }
+
+    const [owner, repo] = githubRepo.split('/');
+    return {
+      token: githubToken,
+      owner,
+      repo,
+      baseUrl: process.env.GITHUB_API_URL || undefined
+    };
+  }
+
+  /**
+   * GitLab settings from GITLAB_TOKEN, GITLAB_PROJECT_ID and GITLAB_API_URL; inside GitLab CI the
+   * predefined CI_PROJECT_ID and CI_API_V4_URL are used when the GITLAB_ variables are not set.
+   * PRD snapshots are kept with the filesystem backend's, below ISSUE_STORAGE_PATH.
+   */
+  static gitlabConfigFromEnv(): GitLabConfig {
+    const gitlabToken = process.env.GITLAB_TOKEN;
+    const projectId = process.env.GITLAB_PROJECT_ID || process.env.CI_PROJECT_ID;
+
+    if (!gitlabToken || !projectId) {
+      throw new Error('GitLab service requires GITLAB_TOKEN and GITLAB_PROJECT_ID env vars');
+    }
+
+    return {
+      token: gitlabToken,
+      projectId,
+      baseUrl: process.env.GITLAB_API_URL || process.env.CI_API_V4_URL || undefined,
+      prdVersionsPath: path.join(process.env.ISSUE_STORAGE_PATH || path.join(__dirname, '../../../.issues'), 'prd-versions')
+    };
+  }
+
+  /**
+   * Jira settings from JIRA_BASE_URL, JIRA_PROJECT_KEY, JIRA_API_TOKEN and JIRA_EMAIL (Cloud only).
+   * Field mapping: JIRA_ISSUE_TYPES / JIRA_PRIORITIES as `label-value=Jira name` lists,
+   * JIRA_STORY_POINTS_FIELD and JIRA_ACCEPTANCE_CRITERIA_FIELD as custom field ids.
+   */
+  static jiraConfigFromEnv(): JiraConfig {
+    const baseUrl = process.env.JIRA_BASE_URL;
+    const projectKey = process.env.JIRA_PROJECT_KEY;
+    const token = process.env.JIRA_API_TOKEN;
+
+    if (!baseUrl || !projectKey || !token) {
+      throw new Error('Jira service requires JIRA_BASE_URL, JIRA_PROJECT_KEY and JIRA_API_TOKEN env vars');
+    }
+
+    const mapping = (value?: string) => value
+      ? Object.fromEntries(value.split(',').map(entry => entry.split('=').map(part => part.trim())).filter(entry => entry.length === 2))
+      : undefined;
+    const fields: JiraFieldMapping = {
+      issueTypes: mapping(process.env.JIRA_ISSUE_TYPES),
+      priorities: mapping(process.env.JIRA_PRIORITIES),
+      storyPointsField: process.env.JIRA_STORY_POINTS_FIELD || undefined,
+      acceptanceCriteriaField: process.env.JIRA_ACCEPTANCE_CRITERIA_FIELD || undefined
+    };
+
+    return {
+      baseUrl,
+      projectKey,
+      token,
+      email: process.env.JIRA_EMAIL || undefined,
+      fields,
+      prdVersionsPath: path.join(process.env.ISSUE_STORAGE_PATH || path.join(__dirname, '../../../.issues'), 'prd-versions')
+    };
+  }
+
+  /**
+   * Service named on a command line: `filesystem[:<path>]`, `memory`, or `github` / `gitlab` / `jira`
+   * configured from the environment
+   */
+  static createFromSpec(spec: string): IIssueService {
+    const separator = spec.indexOf(':');
+    const type = (separator === -1 ? spec : spec.substring(0, separator)) as ServiceType;
+    const storagePath = separator === -1 ? undefined : spec.substring(separator + 1);
+    switch (type) {
+      case 'github':
+        return IssueServiceFactory.create(type, IssueServiceFactory.githubConfigFromEnv());
+      case 'gitlab':
+        return IssueServiceFactory.create(type, IssueServiceFactory.gitlabConfigFromEnv());
+      case 'jira':
+        return IssueServiceFactory.create(type, IssueServiceFactory.jiraConfigFromEnv());
+      default:
+        return IssueServiceFactory.create(type, { path: storagePath || undefined });
+    }
+  }
+
   static createFromEnv(): IIssueService {
     const serviceType = process.env.ISSUE_SERVICE_TYPE as ServiceType || 'filesystem';
 
     switch (serviceType) {
       case 'github':
-        const githubToken = process.env.GITHUB_TOKEN;
-        const githubRepo = process.env.GITHUB_REPOSITORY;
+        return new GitHubIssueService(IssueServiceFactory.githubConfigFromEnv());
 
-        if (!githubToken || !githubRepo) {
-          throw new Error('GitHub service requires GITHUB_TOKEN and GITHUB_REPOSITORY env vars');
-        }
+      case 'gitlab':
+        return new GitLabIssueService(IssueServiceFactory.gitlabConfigFromEnv());
 
-        const [owner, repo] = githubRepo.split('/');
-        return new GitHubIssueService({
-          token: githubToken,
-          owner,
-          repo
-        });
+      case 'jira':
+        return new JiraIssueService(IssueServiceFactory.jiraConfigFromEnv());
 
       case 'filesystem':
         return new FileSystemIssueService(process.env.ISSUE_STORAGE_PATH || path.join(__dirname, '../../../.issues'));
@@ -2,19 +2,25 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as crypto from 'crypto';
 import * as yaml from 'js-yaml';
-import { IIssueService, Issue, IssueData, IssueUpdate, IssueFilters, Comment } from '../interfaces/IIssueService';
+import { IIssueService, Issue, IssueData, IssueUpdate, IssueFilters, Comment, IssueLink, IssueLinkType, PRDVersionReference } from '../interfaces/IIssueService';
 import { log, createModuleLogger } from '../../utils/logger';
+import { createUnifiedDiff } from '../../utils/diff';
+import { addLink, inverseLinkType, removeLink } from '../../utils/issueLinks';
+import { generateContentHash } from '../../utils/hash';
+import { IPRDVersionStore } from '../interfaces/IPRDVersionStore';
+import { FileSystemPRDVersionStore } from './FileSystemPRDVersionStore';
 
 // Create module-specific logger
 const logger = createModuleLogger('FileSystemIssueService');
 
+/** Reference from an issue to the PRD snapshot it was last generated or updated from */
 interface PRDVersion {
-  contentFile: string;
   hash: string;
   timestamp: string;
   filePath: string;
+  /** Full per-issue copy written before the snapshot store existed */
+  contentFile?: string;
 }
 
 interface StoredIssue {
@@ -27,6 +33,8 @@ interface StoredIssue {
   updated_at: string;
   commentsDirectory?: string;
   prdVersion?: PRDVersion;
+  milestone?: string;
+  links?: IssueLink[];
 }
 
 interface Counter {
@@ -37,11 +45,13 @@ export class FileSystemIssueService implements IIssueService {
   private basePath: string;
   private counterPath: string;
   private prdVersionsPath: string;
+  private prdVersionStore: FileSystemPRDVersionStore;
 
   constructor(basePath: string = '.issues') {
     this.basePath = basePath;
     this.counterPath = path.join(basePath, 'counter.yaml');
     this.prdVersionsPath = path.join(basePath, 'prd-versions');
+    this.prdVersionStore = new FileSystemPRDVersionStore(this.prdVersionsPath);
 
     logger.debug('FileSystemIssueService initialized', {
       action: 'service_initialization',
@@ -100,47 +110,6 @@ export class FileSystemIssueService implements IIssueService {
     return path.join(this.getCommentsDirectoryPath(issueNumber), `comment-${commentIndex + 1}.md`);
   }
 
-  private getPRDVersionPath(issueNumber: number, timestamp: string): string {
-    return path.join(this.prdVersionsPath, `issue-${issueNumber}-${timestamp}.md`);
-  }
-
-  private getPRDVersionFilename(issueNumber: number, timestamp: string): string {
-    return `issue-${issueNumber}-${timestamp}.md`;
-  }
-
-  private generateContentHash(content: string): string {
-    return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
-  }
-
-  private generateDiff(oldContent: string, newContent: string): string {
-    const oldLines = oldContent.split('\n');
-    const newLines = newContent.split('\n');
-
-    let diff = '';
-    let i = 0, j = 0;
-
-    while (i < oldLines.length || j < newLines.length) {
-      if (i >= oldLines.length) {
-        diff += `+ ${newLines[j]}\n`;
-        j++;
-      } else if (j >= newLines.length) {
-        diff += `- ${oldLines[i]}\n`;
-        i++;
-      } else if (oldLines[i] === newLines[j]) {
-        diff += `  ${oldLines[i]}\n`;
-        i++;
-        j++;
-      } else {
-        diff += `- ${oldLines[i]}\n`;
-        diff += `+ ${newLines[j]}\n`;
-        i++;
-        j++;
-      }
-    }
-
-    return diff;
-  }
-
   private saveIssue(issue: StoredIssue, body?: string, comments?: Comment[]): void {
     // Save body to markdown file if provided
     if (body !== undefined) {
@@ -283,6 +252,7 @@ export class FileSystemIssueService implements IIssueService {
         hasTitle: updates.title !== undefined,
         hasState: updates.state !== undefined,
         hasLabels: updates.labels !== undefined,
+        hasMilestone: updates.milestone !== undefined,
         hasBody: updates.body !== undefined
       }
     });
@@ -313,6 +283,11 @@ export class FileSystemIssueService implements IIssueService {
       issue.labels = updates.labels;
       changes.push(`labels: [${oldLabels.join(', ')}] → [${updates.labels.join(', ')}]`);
     }
+    if (updates.milestone !== undefined) {
+      const oldMilestone = issue.milestone;
+      issue.milestone = updates.milestone ?? undefined;
+      changes.push(`milestone: ${oldMilestone || 'none'} → ${updates.milestone || 'none'}`);
+    }
     if (updates.body !== undefined) {
       changes.push(`body: updated (${updates.body.length} characters)`);
     }
@@ -386,7 +361,9 @@ export class FileSystemIssueService implements IIssueService {
         labels: storedIssue.labels,
         created_at: storedIssue.created_at,
         updated_at: storedIssue.updated_at,
+        milestone: storedIssue.milestone,
         comments: comments,
+        links: storedIssue.links || [],
         html_url: `file://${this.getIssuePath(storedIssue.number)}`
       });
     }
@@ -412,7 +389,9 @@ export class FileSystemIssueService implements IIssueService {
       labels: storedIssue.labels,
       created_at: storedIssue.created_at,
       updated_at: storedIssue.updated_at,
+      milestone: storedIssue.milestone,
       comments: comments,
+      links: storedIssue.links || [],
       html_url: `file://${this.getIssuePath(storedIssue.number)}`
     };
   }
@@ -443,53 +422,127 @@ export class FileSystemIssueService implements IIssueService {
     await this.updateIssue(issueNumber, { state: 'closed' });
   }
 
-  async storePRDVersion(issueNumber: number, prdContent: string, prdPath: string): Promise<void> {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const hash = this.generateContentHash(prdContent);
-    const versionPath = this.getPRDVersionPath(issueNumber, timestamp);
-    const versionFilename = this.getPRDVersionFilename(issueNumber, timestamp);
-
-    // Store PRD content to file
-    fs.writeFileSync(versionPath, prdContent);
+  getPRDVersionStore(): IPRDVersionStore {
+    return this.prdVersionStore;
+  }
 
-    // Update issue with PRD version reference
+  async storePRDVersion(issueNumber: number, prdContent: string, prdPath: string): Promise<void> {
     const issue = this.loadIssue(issueNumber);
-    if (issue) {
-      issue.prdVersion = {
-        contentFile: versionFilename,
-        hash,
-        timestamp,
-        filePath: prdPath
-      };
-      this.saveIssue(issue);
-      console.log(`Stored PRD version for issue #${issueNumber}: ${versionPath}`);
+    if (!issue) {
+      return;
     }
+
+    // The snapshot is written once per distinct content; the issue only references its hash
+    const hash = await this.prdVersionStore.saveSnapshot(prdContent);
+    issue.prdVersion = {
+      hash,
+      timestamp: new Date().toISOString().replace(/[:.]/g, '-'),
+      filePath: prdPath
+    };
+    this.saveIssue(issue);
+    logger.debug('PRD version referenced by issue', {
+      action: 'prd_version_stored',
+      issueNumber,
+      hash
+    });
   }
 
   async getPRDVersion(issueNumber: number): Promise<string | null> {
     const issue = this.loadIssue(issueNumber);
-    if (!issue?.prdVersion?.contentFile) {
+    if (!issue?.prdVersion) {
       return null;
     }
 
-    const versionPath = path.join(this.prdVersionsPath, issue.prdVersion.contentFile);
-    if (fs.existsSync(versionPath)) {
-      return fs.readFileSync(versionPath, 'utf8');
+    const snapshot = await this.prdVersionStore.getSnapshot(issue.prdVersion.hash);
+    if (snapshot !== null) {
+      return snapshot;
+    }
+
+    // Issues stored before the snapshot store existed point at a per-issue copy
+    if (issue.prdVersion.contentFile) {
+      const versionPath = path.join(this.prdVersionsPath, issue.prdVersion.contentFile);
+      if (fs.existsSync(versionPath)) {
+        return fs.readFileSync(versionPath, 'utf8');
+      }
     }
 
     return null;
   }
 
+  async getPRDVersionReference(issueNumber: number): Promise<PRDVersionReference | null> {
+    const prdVersion = this.loadIssue(issueNumber)?.prdVersion;
+    if (!prdVersion) {
+      return null;
+    }
+
+    // Timestamps are stored file-name safe (2024-01-31T10-20-30-123Z)
+    const storedAt = prdVersion.timestamp.replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, 'T$1:$2:$3.$4Z');
+    return { hash: prdVersion.hash, prdPath: prdVersion.filePath, storedAt };
+  }
+
   async getPRDDiff(issueNumber: number, currentContent: string): Promise<string> {
     const storedContent = await this.getPRDVersion(issueNumber);
     if (!storedContent) {
       return `No stored PRD version found for issue #${issueNumber}`;
     }
 
-    if (this.generateContentHash(storedContent) === this.generateContentHash(currentContent)) {
+    if (generateContentHash(storedContent) === generateContentHash(currentContent)) {
       return 'No changes detected between stored and current PRD versions';
     }
 
-    return this.generateDiff(storedContent, currentContent);
+    const issue = this.loadIssue(issueNumber);
+    const prdPath = issue?.prdVersion?.filePath || 'PRD';
+    return createUnifiedDiff(storedContent, currentContent, {
+      oldLabel: `${prdPath} (stored ${issue?.prdVersion?.timestamp || 'version'})`,
+      newLabel: `${prdPath} (current)`
+    });
+  }
+
+  async addIssueLink(issueNumber: number, type: IssueLinkType, targetIssueNumber: number): Promise<void> {
+    const [issue, target] = this.loadLinkPair(issueNumber, targetIssueNumber);
+
+    issue.links = addLink(issue.links, { type, issueNumber: targetIssueNumber });
+    target.links = addLink(target.links, { type: inverseLinkType(type), issueNumber });
+    this.saveIssue(issue);
+    this.saveIssue(target);
+
+    logger.info(`🔗 Linked Issue #${issueNumber} ${type} #${targetIssueNumber}`, {
+      action: 'issue_linked',
+      issueNumber,
+      type,
+      targetIssueNumber
+    });
+  }
+
+  async removeIssueLink(issueNumber: number, type: IssueLinkType, targetIssueNumber: number): Promise<void> {
+    const [issue, target] = this.loadLinkPair(issueNumber, targetIssueNumber);
+
+    issue.links = removeLink(issue.links, { type, issueNumber: targetIssueNumber });
+    target.links = removeLink(target.links, { type: inverseLinkType(type), issueNumber });
+    this.saveIssue(issue);
+    this.saveIssue(target);
+
+    logger.debug('Issue link removed', {
+      action: 'issue_unlinked',
+      issueNumber,
+      type,
+      targetIssueNumber
+    });
+  }
+
+  async getIssueLinks(issueNumber: number): Promise<IssueLink[]> {
+    return this.loadIssue(issueNumber)?.links || [];
+  }
+
+  private loadLinkPair(issueNumber: number, targetIssueNumber: number): [StoredIssue, StoredIssue] {
+    if (issueNumber === targetIssueNumber) {
+      throw new Error(`Issue #${issueNumber} cannot be linked to itself`);
+    }
+    const issue = this.loadIssue(issueNumber);
+    const target = this.loadIssue(targetIssueNumber);
+    if (!issue || !target) {
+      throw new Error(`Issue #${!issue ? issueNumber : targetIssueNumber} not found`);
+    }
+    return [issue, target];
   }
 }
\ No newline at end of file
@@ -0,0 +1,93 @@
+// services/FileSystemPRDVersionStore.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { IPRDVersionStore, PRDVersion, PRDVersionChanges } from '../interfaces/IPRDVersionStore';
+import { generateContentHash } from '../../utils/hash';
+import { withVersionChanges } from '../../prd/versionHistory';
+import { createModuleLogger } from '../../utils/logger';
+
+// Create module-specific logger
+const logger = createModuleLogger('FileSystemPRDVersionStore');
+
+/**
+ * Layout below the base path:
+ * - `snapshots/<hash>.md` - one file per distinct PRD content
+ * - `history/<prd-id>.yaml` - processed versions of each PRD, oldest first
+ */
+export class FileSystemPRDVersionStore implements IPRDVersionStore {
+  private snapshotsPath: string;
+  private historyPath: string;
+
+  constructor(basePath: string = '.issues/prd-versions') {
+    this.snapshotsPath = path.join(basePath, 'snapshots');
+    this.historyPath = path.join(basePath, 'history');
+
+    for (const directory of [this.snapshotsPath, this.historyPath]) {
+      if (!fs.existsSync(directory)) {
+        fs.mkdirSync(directory, { recursive: true });
+      }
+    }
+  }
+
+  private getSnapshotPath(hash: string): string {
+    return path.join(this.snapshotsPath, `${hash}.md`);
+  }
+
+  private getHistoryPath(prdId: string): string {
+    return path.join(this.historyPath, `${prdId}.yaml`);
+  }
+
+  async saveSnapshot(content: string): Promise<string> {
+    const hash = generateContentHash(content);
+    const snapshotPath = this.getSnapshotPath(hash);
+    if (!fs.existsSync(snapshotPath)) {
+      fs.writeFileSync(snapshotPath, content);
+      logger.debug('PRD snapshot stored', { action: 'prd_snapshot_stored', hash, snapshotPath });
+    }
+    return hash;
+  }
+
+  async getSnapshot(hash: string): Promise<string | null> {
+    const snapshotPath = this.getSnapshotPath(hash);
+    return fs.existsSync(snapshotPath) ? fs.readFileSync(snapshotPath, 'utf8') : null;
+  }
+
+  async recordVersion(prdId: string, prdPath: string, content: string, changes?: PRDVersionChanges): Promise<PRDVersion> {
+    const hash = await this.saveSnapshot(content);
+    const versions = await this.getHistory(prdId);
+    const latest = versions[versions.length - 1];
+    if (latest && latest.hash === hash && latest.prdPath === prdPath) {
+      const updated = withVersionChanges(latest, changes);
+      if (updated !== latest) {
+        fs.writeFileSync(this.getHistoryPath(prdId), yaml.dump([...versions.slice(0, -1), updated]));
+      }
+      return updated;
+    }
+
+    const version = withVersionChanges({ prdId, hash, prdPath, recordedAt: new Date().toISOString() }, changes);
+    fs.writeFileSync(this.getHistoryPath(prdId), yaml.dump([...versions, version]));
+
+    logger.info(`🗂️ Recorded PRD version ${hash} for "${prdId}" (${versions.length + 1} versions)`, {
+      action: 'prd_version_recorded',
+      prdId,
+      hash,
+      prdPath
+    });
+    return version;
+  }
+
+  async getHistory(prdId: string): Promise<PRDVersion[]> {
+    const historyPath = this.getHistoryPath(prdId);
+    if (!fs.existsSync(historyPath)) {
+      return [];
+    }
+    return (yaml.load(fs.readFileSync(historyPath, 'utf8')) as PRDVersion[] | undefined) || [];
+  }
+
+  async getLatestVersion(prdId: string): Promise<PRDVersion | null> {
+    const versions = await this.getHistory(prdId);
+    return versions[versions.length - 1] ?? null;
+  }
+}
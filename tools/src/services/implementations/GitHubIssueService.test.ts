@@ -0,0 +1,80 @@
+// services/implementations/GitHubIssueService.test.ts
+// GitHubIssueService against FakeGitHubServer: pagination, retries and conditional requests
+
+import { test, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { GitHubIssueService } from './GitHubIssueService';
+import { FakeGitHubServer } from '../testing/FakeGitHubServer';
+
+const server = new FakeGitHubServer();
+let service: GitHubIssueService;
+
+// Statuses of the requests to one API path, e.g. `/issues/1`
+const statusesOf = (path: string) => server.getRequests()
+  .filter(request => request.path.split('?')[0] === `/repos/${server.owner}/${server.repo}${path}`)
+  .map(request => request.status);
+
+before(async () => {
+  await server.start();
+});
+
+after(async () => {
+  await server.stop();
+});
+
+beforeEach(() => {
+  server.reset();
+  service = new GitHubIssueService({
+    token: 'test-token',
+    owner: server.owner,
+    repo: server.repo,
+    baseUrl: server.baseUrl,
+    retryBaseDelayMs: 1
+  });
+});
+
+test('lists issues across more than one page', async () => {
+  for (let i = 1; i <= 130; i++) {
+    server.seedIssue({ title: `Issue ${i}`, labels: ['prd:auth'] });
+  }
+
+  const issues = await service.getIssues({ state: 'all' });
+
+  assert.equal(issues.length, 130);
+  assert.deepEqual(issues.map(issue => issue.number).sort((a, b) => a - b), Array.from({ length: 130 }, (_, i) => i + 1));
+  assert.equal(statusesOf('/issues').length, 2);
+});
+
+test('retries rate-limited and failed reads', async () => {
+  server.seedIssue({ title: 'Login' });
+  server.failNextRequests(1, 429);
+  server.failNextRequests(1, 502, {});
+
+  const issue = await service.getIssue(1);
+
+  assert.equal(issue?.title, 'Login');
+  assert.deepEqual(statusesOf('/issues/1'), [429, 502, 200]);
+});
+
+test('does not retry a POST that failed with a server error', async () => {
+  server.failNextRequests(1, 502, {});
+
+  await assert.rejects(service.createIssue({ title: 'Login', body: '', labels: [] }));
+
+  assert.deepEqual(statusesOf('/issues'), [502]);
+});
+
+test('revalidates unchanged reads with the cached ETag', async () => {
+  server.seedIssue({ title: 'Login', body: 'Users log in' });
+
+  const first = await service.getIssue(1);
+  const second = await service.getIssue(1);
+
+  assert.deepEqual(second, first);
+  assert.deepEqual(statusesOf('/issues/1'), [200, 304]);
+
+  await service.updateIssue(1, { title: 'Sign in' });
+  const updated = await service.getIssue(1);
+
+  assert.equal(updated?.title, 'Sign in');
+});
@@ -1,19 +1,130 @@
 // services/GitHubIssueService.ts
 
 import { Octokit } from '@octokit/rest';
-import { IIssueService, Issue, IssueData, IssueUpdate, IssueFilters, Comment } from '../interfaces/IIssueService';
+import { IIssueService, Issue, IssueData, IssueUpdate, IssueFilters, Comment, IssueLink, IssueLinkType, PRDVersionReference } from '../interfaces/IIssueService';
+import { IssuePRDVersion, readIssueMetadata, updateIssueMetadata } from '../../utils/issueMetadata';
+import { addLink, formatLinkType, inverseLinkType, removeLink } from '../../utils/issueLinks';
+import { generateContentHash, gitBlobSha } from '../../utils/hash';
+import { createUnifiedDiff } from '../../utils/diff';
+import { createModuleLogger } from '../../utils/logger';
+
+// Create module-specific logger
+const logger = createModuleLogger('GitHubIssueService');
+
+export interface GitHubRetryOptions {
+  /** Retries of a request after a rate limit or server error (default 5) */
+  maxRetries?: number;
+  /** First backoff delay, doubled on every retry (default 1s) */
+  retryBaseDelayMs?: number;
+  /** Longest wait accepted, e.g. until a primary rate limit resets (default 10 minutes) */
+  maxRetryDelayMs?: number;
+}
+
+type OctokitRequestOptions = Required<Parameters<Octokit['request']['endpoint']['parse']>[0]>;
+type OctokitResponse = Awaited<ReturnType<Octokit['request']>>;
+type OctokitRequest = (options: OctokitRequestOptions) => OctokitResponse | Promise<OctokitResponse>;
+type ListIssuesParams = NonNullable<Parameters<Octokit['rest']['issues']['listForRepo']>[0]>;
 
 export class GitHubIssueService implements IIssueService {
   private octokit: Octokit;
   private owner: string;
   private repo: string;
+  // Blob contents never change, so PRD snapshots read back from the repository are cached by sha
+  private blobCache: Map<string, string> = new Map();
+  // Last response of each GET url, revalidated with If-None-Match; 304 responses do not count against the rate limit
+  private etagCache: Map<string, { etag: string; response: OctokitResponse }> = new Map();
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private maxRetryDelayMs: number;
 
-  constructor(config: { token: string; owner: string; repo: string }) {
+  /**
+   * @param config.baseUrl API root for GitHub Enterprise or a local stand-in (default https://api.github.com)
+   */
+  constructor(config: { token: string; owner: string; repo: string; baseUrl?: string } & GitHubRetryOptions) {
     this.octokit = new Octokit({
-      auth: config.token
+      auth: config.token,
+      baseUrl: config.baseUrl
     });
     this.owner = config.owner;
     this.repo = config.repo;
+    this.maxRetries = config.maxRetries ?? 5;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? 1000;
+    this.maxRetryDelayMs = config.maxRetryDelayMs ?? 10 * 60 * 1000;
+
+    this.octokit.hook.wrap('request', (request, options) => this.sendRequest(request, options));
+  }
+
+  /**
+   * Every API call goes through here: GET requests are made conditional on the cached ETag,
+   * rate-limited (403/429) and failed (5xx) idempotent requests are retried with backoff
+   */
+  private async sendRequest(request: OctokitRequest, options: OctokitRequestOptions): Promise<OctokitResponse> {
+    const cacheKey = (options.method || 'GET') === 'GET' ? this.octokit.request.endpoint.parse(options).url : undefined;
+    const cached = cacheKey ? this.etagCache.get(cacheKey) : undefined;
+    if (cached) {
+      // Set in place: the options object is shared with the other request hooks (auth, logging)
+      options.headers['if-none-match'] = cached.etag;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await request(options);
+        if (cacheKey && response.headers.etag) {
+          this.etagCache.set(cacheKey, { etag: response.headers.etag, response });
+        }
+        return response;
+      } catch (error: any) {
+        if (error.status === 304 && cached) {
+          logger.debug('Not modified, using cached response', { action: 'github_not_modified', url: cacheKey });
+          return cached.response;
+        }
+
+        const delay = this.getRetryDelay(error, attempt, options.method || 'GET');
+        if (delay === null) {
+          throw error;
+        }
+
+        logger.warn(`⏳ GitHub request failed with ${error.status}; retrying in ${Math.ceil(delay / 1000)}s (${attempt + 1}/${this.maxRetries})`, {
+          action: 'github_request_retry',
+          status: error.status,
+          url: options.url,
+          attempt: attempt + 1,
+          delay
+        });
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Milliseconds to wait before retrying, or null when the error is final.
+   * Waits for `retry-after` or the rate limit reset when GitHub says so, otherwise backs off exponentially.
+   * A POST failing with 5xx may have been processed (e.g. a 502 after the issue was created), so only
+   * rate-limited POSTs, which GitHub rejects before processing, are retried.
+   */
+  private getRetryDelay(error: any, attempt: number, method: string): number | null {
+    const status: number | undefined = error.status;
+    const headers: Record<string, string | undefined> = error.response?.headers || {};
+    const rateLimited = status === 429 || (status === 403 &&
+      (headers['retry-after'] !== undefined || headers['x-ratelimit-remaining'] === '0' || /rate limit/i.test(error.message || '')));
+
+    const serverError = status !== undefined && status >= 500 && method.toUpperCase() !== 'POST';
+    if (attempt >= this.maxRetries || !(rateLimited || serverError)) {
+      return null;
+    }
+
+    let delay = this.retryBaseDelayMs * Math.pow(2, attempt);
+    if (headers['retry-after'] !== undefined) {
+      delay = Number(headers['retry-after']) * 1000;
+    } else if (headers['x-ratelimit-remaining'] === '0' && headers['x-ratelimit-reset'] !== undefined) {
+      delay = Math.max(Number(headers['x-ratelimit-reset']) * 1000 - Date.now(), 0) + 1000;
+    }
+
+    return Number.isFinite(delay) && delay <= this.maxRetryDelayMs ? delay : null;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
   }
 
   async createIssue(issue: IssueData): Promise<number> {
@@ -29,6 +140,10 @@ export class GitHubIssueService implements IIssueService {
   }
 
   async updateIssue(issueNumber: number, updates: IssueUpdate): Promise<void> {
+    const milestone = updates.milestone === undefined
+      ? undefined
+      : updates.milestone === null ? null : await this.getMilestoneNumber(updates.milestone);
+
     await this.octokit.rest.issues.update({
       owner: this.owner,
       repo: this.repo,
@@ -36,12 +151,37 @@ export class GitHubIssueService implements IIssueService {
       title: updates.title,
       body: updates.body,
       state: updates.state,
-      labels: updates.labels
+      labels: updates.labels,
+      milestone
     });
   }
 
+  /**
+   * Number of the milestone with the given title, created if it does not exist yet
+   */
+  private async getMilestoneNumber(title: string): Promise<number> {
+    const milestones = await this.octokit.paginate(this.octokit.rest.issues.listMilestones, {
+      owner: this.owner,
+      repo: this.repo,
+      state: 'all',
+      per_page: 100
+    });
+
+    const existing = milestones.find(milestone => milestone.title === title);
+    if (existing) {
+      return existing.number;
+    }
+
+    const created = await this.octokit.rest.issues.createMilestone({
+      owner: this.owner,
+      repo: this.repo,
+      title
+    });
+    return created.data.number;
+  }
+
   async getIssues(filters?: IssueFilters): Promise<Issue[]> {
-    const params: any = {
+    const params: ListIssuesParams = {
       owner: this.owner,
       repo: this.repo,
       state: filters?.state || 'open',
@@ -56,9 +196,11 @@ export class GitHubIssueService implements IIssueService {
       params.since = filters.since;
     }
 
-    const response = await this.octokit.rest.issues.listForRepo(params);
+    // The issues endpoint also returns pull requests
+    const issues = (await this.octokit.paginate(this.octokit.rest.issues.listForRepo, params))
+      .filter(issue => !issue.pull_request);
 
-    return response.data.map(issue => ({
+    return issues.map(issue => ({
       number: issue.number,
       title: issue.title,
       body: issue.body || '',
@@ -68,7 +210,9 @@ export class GitHubIssueService implements IIssueService {
       ),
       created_at: issue.created_at || new Date().toISOString(),
       updated_at: issue.updated_at || new Date().toISOString(),
-      html_url: issue.html_url
+      html_url: issue.html_url,
+      milestone: issue.milestone?.title,
+      links: readIssueMetadata(issue.body || '').links || []
     }));
   }
 
@@ -83,13 +227,14 @@ export class GitHubIssueService implements IIssueService {
       const issue = response.data;
 
       // Fetch comments if needed
-      const commentsResponse = await this.octokit.rest.issues.listComments({
+      const commentsData = await this.octokit.paginate(this.octokit.rest.issues.listComments, {
         owner: this.owner,
         repo: this.repo,
-        issue_number: issueNumber
+        issue_number: issueNumber,
+        per_page: 100
       });
 
-      const comments: Comment[] = commentsResponse.data.map(comment => ({
+      const comments: Comment[] = commentsData.map(comment => ({
         id: comment.id,
         body: comment.body || '',
         created_at: comment.created_at || new Date().toISOString(),
@@ -107,7 +252,9 @@ export class GitHubIssueService implements IIssueService {
         created_at: issue.created_at || new Date().toISOString(),
         updated_at: issue.updated_at || new Date().toISOString(),
         html_url: issue.html_url,
-        comments
+        milestone: issue.milestone?.title,
+        comments,
+        links: readIssueMetadata(issue.body || '').links || []
       };
     } catch (error: any) {
       if (error.status === 404) {
@@ -134,4 +281,119 @@ export class GitHubIssueService implements IIssueService {
       state: 'closed'
     });
   }
+
+  // GitHub has no typed issue relationships: links are kept in the hidden body metadata of both
+  // issues, and a comment on the source issue creates the cross-reference on the target's timeline
+  async addIssueLink(issueNumber: number, type: IssueLinkType, targetIssueNumber: number): Promise<void> {
+    if (issueNumber === targetIssueNumber) {
+      throw new Error(`Issue #${issueNumber} cannot be linked to itself`);
+    }
+
+    const body = await this.getIssueBody(issueNumber);
+    const links = readIssueMetadata(body).links || [];
+    const updatedLinks = addLink(links, { type, issueNumber: targetIssueNumber });
+    if (updatedLinks === links) {
+      return;
+    }
+
+    await this.updateIssue(issueNumber, { body: updateIssueMetadata(body, { links: updatedLinks }) });
+
+    const targetBody = await this.getIssueBody(targetIssueNumber);
+    const targetLinks = addLink(readIssueMetadata(targetBody).links, { type: inverseLinkType(type), issueNumber });
+    await this.updateIssue(targetIssueNumber, { body: updateIssueMetadata(targetBody, { links: targetLinks }) });
+
+    await this.addComment(issueNumber, `🔗 **${formatLinkType(type)}** #${targetIssueNumber}`);
+  }
+
+  async removeIssueLink(issueNumber: number, type: IssueLinkType, targetIssueNumber: number): Promise<void> {
+    const body = await this.getIssueBody(issueNumber);
+    const links = removeLink(readIssueMetadata(body).links, { type, issueNumber: targetIssueNumber });
+    await this.updateIssue(issueNumber, { body: updateIssueMetadata(body, { links }) });
+
+    const targetBody = await this.getIssueBody(targetIssueNumber);
+    const targetLinks = removeLink(readIssueMetadata(targetBody).links, { type: inverseLinkType(type), issueNumber });
+    await this.updateIssue(targetIssueNumber, { body: updateIssueMetadata(targetBody, { links: targetLinks }) });
+  }
+
+  async getIssueLinks(issueNumber: number): Promise<IssueLink[]> {
+    return readIssueMetadata(await this.getIssueBody(issueNumber)).links || [];
+  }
+
+  // The PRD version is referenced from the hidden body metadata; its content is read back from the
+  // repository by git blob sha, so versions whose content was never pushed cannot be diffed
+  async storePRDVersion(issueNumber: number, prdContent: string, prdPath: string): Promise<void> {
+    const body = await this.getIssueBody(issueNumber);
+    const stored = readIssueMetadata(body).prdVersion;
+    const hash = generateContentHash(prdContent);
+    if (stored && stored.hash === hash && stored.path === prdPath) {
+      return;
+    }
+
+    const prdVersion: IssuePRDVersion = {
+      hash,
+      blobSha: gitBlobSha(prdContent),
+      path: prdPath,
+      timestamp: new Date().toISOString()
+    };
+    await this.updateIssue(issueNumber, { body: updateIssueMetadata(body, { prdVersion }) });
+  }
+
+  async getPRDVersion(issueNumber: number): Promise<string | null> {
+    const prdVersion = readIssueMetadata(await this.getIssueBody(issueNumber)).prdVersion;
+    return prdVersion ? this.readPRDSnapshot(prdVersion) : null;
+  }
+
+  async getPRDVersionReference(issueNumber: number): Promise<PRDVersionReference | null> {
+    const prdVersion = readIssueMetadata(await this.getIssueBody(issueNumber)).prdVersion;
+    return prdVersion ? { hash: prdVersion.hash, prdPath: prdVersion.path, storedAt: prdVersion.timestamp } : null;
+  }
+
+  async getPRDDiff(issueNumber: number, currentContent: string): Promise<string> {
+    const prdVersion = readIssueMetadata(await this.getIssueBody(issueNumber)).prdVersion;
+    const storedContent = prdVersion ? await this.readPRDSnapshot(prdVersion) : null;
+    if (!prdVersion || storedContent === null) {
+      return `No stored PRD version found for issue #${issueNumber}`;
+    }
+
+    if (generateContentHash(storedContent) === generateContentHash(currentContent)) {
+      return 'No changes detected between stored and current PRD versions';
+    }
+
+    return createUnifiedDiff(storedContent, currentContent, {
+      oldLabel: `${prdVersion.path} (stored ${prdVersion.timestamp}, ${prdVersion.blobSha.substring(0, 12)})`,
+      newLabel: `${prdVersion.path} (current)`
+    });
+  }
+
+  private async readPRDSnapshot(prdVersion: IssuePRDVersion): Promise<string | null> {
+    const cached = this.blobCache.get(prdVersion.blobSha);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      const response = await this.octokit.rest.git.getBlob({
+        owner: this.owner,
+        repo: this.repo,
+        file_sha: prdVersion.blobSha
+      });
+      const content = Buffer.from(response.data.content, response.data.encoding === 'base64' ? 'base64' : 'utf8').toString('utf8');
+      this.blobCache.set(prdVersion.blobSha, content);
+      return content;
+    } catch (error: any) {
+      if (error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async getIssueBody(issueNumber: number): Promise<string> {
+    const response = await this.octokit.rest.issues.get({
+      owner: this.owner,
+      repo: this.repo,
+      issue_number: issueNumber
+    });
+    return response.data.body || '';
+  }
 }
\ No newline at end of file
@@ -0,0 +1,154 @@
+// services/implementations/GitLabIssueService.test.ts
+// GitLabIssueService against FakeGitLabServer: pagination, retries, links, milestones and PRD snapshots
+
+import { test, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitLabApiError, GitLabIssueService } from './GitLabIssueService';
+import { FakeGitLabServer } from '../testing/FakeGitLabServer';
+
+const server = new FakeGitLabServer();
+let service: GitLabIssueService;
+
+// The service addresses the project by its URL-encoded path
+const serviceWithEmptyStore = () => new GitLabIssueService({
+  token: 'test-token',
+  projectId: server.projectPath,
+  baseUrl: server.baseUrl,
+  prdVersionsPath: fs.mkdtempSync(path.join(os.tmpdir(), 'gitlab-prd-versions-')),
+  retryBaseDelayMs: 1
+});
+
+// Statuses of the requests to one API path, e.g. `/issues/1`
+const statusesOf = (apiPath: string) => server.getRequests()
+  .filter(request => request.path.split('?')[0] === `/api/v4/projects/${encodeURIComponent(server.projectPath)}${apiPath}`)
+  .map(request => request.status);
+
+before(async () => {
+  await server.start();
+});
+
+after(async () => {
+  await server.stop();
+});
+
+beforeEach(() => {
+  server.reset();
+  service = serviceWithEmptyStore();
+});
+
+test('lists issues across pages by following X-Next-Page', async () => {
+  for (let i = 1; i <= 230; i++) {
+    server.seedIssue({ title: `Issue ${i}`, labels: ['prd:auth'], state: i % 10 === 0 ? 'closed' : 'opened' });
+  }
+  server.seedIssue({ title: 'Billing', labels: ['prd:billing'] });
+
+  const open = await service.getIssues({ labels: ['prd:auth'] });
+  const all = await service.getIssues({ state: 'all', labels: ['prd:auth'] });
+
+  assert.equal(open.length, 207);
+  assert.equal(all.length, 230);
+  assert.deepEqual(all.map(issue => issue.number).sort((a, b) => a - b), Array.from({ length: 230 }, (_, i) => i + 1));
+  assert.equal(statusesOf('/issues').length, 6);
+});
+
+test('creates, updates and closes an issue, keeping only user notes as comments', async () => {
+  const number = await service.createIssue({ title: 'Login', body: 'Users log in', labels: ['prd:auth'] });
+  await service.updateIssue(number, { title: 'Sign in', labels: ['prd:auth', 'priority:high'] });
+  await service.addComment(number, 'Scoped to email and password');
+  await service.closeIssue(number);
+
+  const issue = await service.getIssue(number);
+
+  assert.equal(issue?.title, 'Sign in');
+  assert.equal(issue?.state, 'closed');
+  assert.deepEqual(issue?.labels, ['prd:auth', 'priority:high']);
+  assert.deepEqual(issue?.comments?.map(comment => comment.body), ['Scoped to email and password']);
+  assert.equal(server.getNotes(number).filter(note => note.system).length, 2);
+  assert.equal(await service.getIssue(99), null);
+});
+
+test('retries rate-limited and failed reads', async () => {
+  server.seedIssue({ title: 'Login' });
+  server.failNextRequests(1, 429);
+  server.failNextRequests(1, 502, {});
+
+  const issue = await service.getIssue(1);
+
+  assert.equal(issue?.title, 'Login');
+  assert.deepEqual(statusesOf('/issues/1'), [429, 502, 200]);
+});
+
+test('retries a rate-limited POST but not one that failed with a server error', async () => {
+  server.failNextRequests(1, 429);
+
+  assert.equal(await service.createIssue({ title: 'Login', body: '', labels: [] }), 1);
+
+  server.failNextRequests(1, 502, {});
+
+  await assert.rejects(service.createIssue({ title: 'Logout', body: '', labels: [] }), (error: unknown) =>
+    error instanceof GitLabApiError && error.status === 502);
+  assert.deepEqual(statusesOf('/issues'), [429, 201, 502]);
+  assert.equal(server.getIssues().length, 1);
+});
+
+test('gives up after the configured retries', async () => {
+  server.seedIssue({ title: 'Login' });
+  server.failNextRequests(6, 503, {});
+
+  await assert.rejects(service.getIssue(1), (error: unknown) => error instanceof GitLabApiError && error.status === 503);
+  assert.deepEqual(statusesOf('/issues/1'), [503, 503, 503, 503, 503, 503]);
+});
+
+test('keeps links in the metadata of both issues', async () => {
+  server.seedIssue({ title: 'Login', description: 'Users log in' });
+  server.seedIssue({ title: 'Audit log' });
+
+  await service.addIssueLink(1, 'blocks', 2);
+  await service.addIssueLink(1, 'blocks', 2);
+
+  assert.deepEqual(await service.getIssueLinks(1), [{ type: 'blocks', issueNumber: 2 }]);
+  assert.deepEqual(await service.getIssueLinks(2), [{ type: 'blocked-by', issueNumber: 1 }]);
+  assert.match(server.getIssues()[0].description, /^Users log in\n/);
+  assert.deepEqual(server.getNotes(1).map(note => note.body), ['🔗 **Blocks** #2']);
+
+  await service.removeIssueLink(1, 'blocks', 2);
+
+  assert.deepEqual(await service.getIssueLinks(1), []);
+  assert.deepEqual(await service.getIssueLinks(2), []);
+});
+
+test('creates a milestone once and unassigns it with null', async () => {
+  server.seedIssue({ title: 'Login' });
+  server.seedIssue({ title: 'Logout' });
+
+  await service.updateIssue(1, { milestone: 'MVP' });
+  await service.updateIssue(2, { milestone: 'MVP' });
+
+  assert.deepEqual(server.getMilestones().map(milestone => milestone.title), ['MVP']);
+  assert.equal((await service.getIssue(2))?.milestone, 'MVP');
+
+  await service.updateIssue(2, { milestone: null });
+
+  assert.equal((await service.getIssue(2))?.milestone, undefined);
+  assert.equal((await service.getIssue(1))?.milestone, 'MVP');
+});
+
+test('reads a PRD version missing locally from the repository blob', async () => {
+  const content = '# Auth\n\nUsers log in.\n';
+  const number = await service.createIssue({ title: 'Login', body: 'Users log in', labels: [] });
+  await service.storePRDVersion(number, content, 'docs/auth.md');
+
+  const freshCheckout = serviceWithEmptyStore();
+
+  assert.equal(await freshCheckout.getPRDVersion(number), null);
+  assert.match(await freshCheckout.getPRDDiff(number, content), /^No stored PRD version found/);
+
+  server.addBlob(content);
+
+  assert.equal(await freshCheckout.getPRDVersion(number), content);
+  assert.match(await freshCheckout.getPRDDiff(number, '# Auth\n\nUsers sign in.\n'), /^\+Users sign in\.$/m);
+  assert.equal(statusesOf(`/repository/blobs/${server.addBlob(content)}/raw`).filter(status => status === 200).length, 1);
+});
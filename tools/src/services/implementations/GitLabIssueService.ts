@@ -0,0 +1,370 @@
+// services/GitLabIssueService.ts
+
+import { IIssueService, Issue, IssueData, IssueUpdate, IssueFilters, Comment, IssueLink, IssueLinkType, PRDVersionReference } from '../interfaces/IIssueService';
+import { IPRDVersionStore } from '../interfaces/IPRDVersionStore';
+import { FileSystemPRDVersionStore } from './FileSystemPRDVersionStore';
+import { IssuePRDVersion, readIssueMetadata, updateIssueMetadata } from '../../utils/issueMetadata';
+import { addLink, formatLinkType, inverseLinkType, removeLink } from '../../utils/issueLinks';
+import { generateContentHash, gitBlobSha } from '../../utils/hash';
+import { createUnifiedDiff } from '../../utils/diff';
+import { createModuleLogger } from '../../utils/logger';
+
+// Create module-specific logger
+const logger = createModuleLogger('GitLabIssueService');
+
+export interface GitLabServiceConfig {
+  token: string;
+  /** Numeric project id or full path such as `group/subgroup/project` */
+  projectId: string | number;
+  /** API root, e.g. a self-managed instance (default https://gitlab.com/api/v4) */
+  baseUrl?: string;
+  /** Local PRD snapshot store (default .issues/prd-versions) */
+  prdVersionsPath?: string;
+  /** Retries of a request after a rate limit (429) or server error (default 5) */
+  maxRetries?: number;
+  /** First backoff delay, doubled on every retry (default 1s) */
+  retryBaseDelayMs?: number;
+}
+
+export class GitLabApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'GitLabApiError';
+  }
+}
+
+interface GitLabIssue {
+  iid: number;
+  title: string;
+  description: string | null;
+  state: 'opened' | 'closed';
+  labels: string[];
+  created_at: string;
+  updated_at: string;
+  web_url: string;
+  milestone: { id: number; title: string } | null;
+}
+
+interface GitLabNote {
+  id: number;
+  body: string;
+  created_at: string;
+  system: boolean;
+  author?: { username: string };
+}
+
+interface GitLabMilestone {
+  id: number;
+  title: string;
+}
+
+type QueryValue = string | number | undefined;
+
+export class GitLabIssueService implements IIssueService {
+  private token: string;
+  private projectPath: string;
+  private baseUrl: string;
+  private prdVersionStore: FileSystemPRDVersionStore;
+  // Blob contents never change, so PRD snapshots read back from the repository are cached by sha
+  private blobCache: Map<string, string> = new Map();
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+
+  constructor(config: GitLabServiceConfig) {
+    this.token = config.token;
+    this.projectPath = `/projects/${encodeURIComponent(String(config.projectId))}`;
+    this.baseUrl = (config.baseUrl || 'https://gitlab.com/api/v4').replace(/\/+$/, '');
+    this.prdVersionStore = new FileSystemPRDVersionStore(config.prdVersionsPath || '.issues/prd-versions');
+    this.maxRetries = config.maxRetries ?? 5;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? 1000;
+  }
+
+  /**
+   * Every API call goes through here; rate-limited (429) and failed (5xx) requests are retried with backoff
+   */
+  private async request<T>(method: string, path: string, options: { query?: Record<string, QueryValue>; body?: unknown } = {}): Promise<{ data: T; headers: Headers }> {
+    const url = new URL(`${this.baseUrl}${this.projectPath}${path}`);
+    for (const [key, value] of Object.entries(options.query || {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'PRIVATE-TOKEN': this.token,
+          ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {})
+        },
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+      });
+
+      if (response.ok) {
+        const text = await response.text();
+        return { data: (text ? JSON.parse(text) : null) as T, headers: response.headers };
+      }
+
+      // A POST failing with 5xx may have been processed already; retrying it could create a duplicate
+      const retryable = response.status === 429 || (response.status >= 500 && method !== 'POST');
+      if (!retryable || attempt >= this.maxRetries) {
+        const message = await response.text();
+        throw new GitLabApiError(`GitLab ${method} ${url.pathname} failed with ${response.status}: ${message}`, response.status);
+      }
+
+      const retryAfter = response.headers.get('retry-after');
+      const delay = retryAfter !== null ? Number(retryAfter) * 1000 : this.retryBaseDelayMs * Math.pow(2, attempt);
+      logger.warn(`⏳ GitLab request failed with ${response.status}; retrying in ${Math.ceil(delay / 1000)}s (${attempt + 1}/${this.maxRetries})`, {
+        action: 'gitlab_request_retry',
+        status: response.status,
+        url: url.pathname,
+        attempt: attempt + 1,
+        delay
+      });
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Follow `X-Next-Page` until the last page
+   */
+  private async paginate<T>(path: string, query: Record<string, QueryValue> = {}): Promise<T[]> {
+    const results: T[] = [];
+    let page: string | null = '1';
+    while (page) {
+      const response: { data: T[]; headers: Headers } = await this.request<T[]>('GET', path, { query: { ...query, per_page: 100, page } });
+      results.push(...response.data);
+      page = response.headers.get('x-next-page') || null;
+    }
+    return results;
+  }
+
+  private toIssue(issue: GitLabIssue, comments?: Comment[]): Issue {
+    const body = issue.description || '';
+    return {
+      number: issue.iid,
+      title: issue.title,
+      body,
+      state: issue.state === 'opened' ? 'open' : 'closed',
+      labels: issue.labels,
+      created_at: issue.created_at,
+      updated_at: issue.updated_at,
+      html_url: issue.web_url,
+      milestone: issue.milestone?.title,
+      comments,
+      links: readIssueMetadata(body).links || []
+    };
+  }
+
+  async createIssue(issue: IssueData): Promise<number> {
+    const { data } = await this.request<GitLabIssue>('POST', '/issues', {
+      body: {
+        title: issue.title,
+        description: issue.body,
+        labels: (issue.labels || []).join(',')
+      }
+    });
+
+    return data.iid;
+  }
+
+  async updateIssue(issueNumber: number, updates: IssueUpdate): Promise<void> {
+    // 0 unassigns the milestone
+    const milestoneId = updates.milestone === undefined
+      ? undefined
+      : updates.milestone === null ? 0 : await this.getMilestoneId(updates.milestone);
+
+    await this.request('PUT', `/issues/${issueNumber}`, {
+      body: {
+        title: updates.title,
+        description: updates.body,
+        state_event: updates.state === undefined ? undefined : updates.state === 'closed' ? 'close' : 'reopen',
+        labels: updates.labels?.join(','),
+        milestone_id: milestoneId
+      }
+    });
+  }
+
+  /**
+   * Id of the milestone with the given title, created if it does not exist yet
+   */
+  private async getMilestoneId(title: string): Promise<number> {
+    const milestones = await this.paginate<GitLabMilestone>('/milestones', { title });
+    const existing = milestones.find(milestone => milestone.title === title);
+    if (existing) {
+      return existing.id;
+    }
+
+    const { data } = await this.request<GitLabMilestone>('POST', '/milestones', { body: { title } });
+    return data.id;
+  }
+
+  async getIssues(filters?: IssueFilters): Promise<Issue[]> {
+    // GitLab calls open issues `opened` and lists all states when none is given
+    const state = filters?.state || 'open';
+    const issues = await this.paginate<GitLabIssue>('/issues', {
+      state: state === 'open' ? 'opened' : state === 'closed' ? 'closed' : undefined,
+      labels: filters?.labels && filters.labels.length > 0 ? filters.labels.join(',') : undefined,
+      updated_after: filters?.since
+    });
+
+    return issues.map(issue => this.toIssue(issue));
+  }
+
+  async getIssue(issueNumber: number): Promise<Issue | null> {
+    try {
+      const { data: issue } = await this.request<GitLabIssue>('GET', `/issues/${issueNumber}`);
+
+      // System notes record label and state changes; only user notes are comments
+      const notes = await this.paginate<GitLabNote>(`/issues/${issueNumber}/notes`, { sort: 'asc', order_by: 'created_at' });
+      const comments: Comment[] = notes
+        .filter(note => !note.system)
+        .map(note => ({
+          id: note.id,
+          body: note.body,
+          created_at: note.created_at,
+          author: note.author?.username || 'unknown'
+        }));
+
+      return this.toIssue(issue, comments);
+    } catch (error) {
+      if (error instanceof GitLabApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async addComment(issueNumber: number, comment: string): Promise<void> {
+    await this.request('POST', `/issues/${issueNumber}/notes`, { body: { body: comment } });
+  }
+
+  async closeIssue(issueNumber: number): Promise<void> {
+    await this.request('PUT', `/issues/${issueNumber}`, { body: { state_event: 'close' } });
+  }
+
+  // Blocking links are a paid GitLab feature and supersedes has no native type, so links are kept
+  // in the hidden body metadata of both issues, as for GitHub, with a cross-reference note
+  async addIssueLink(issueNumber: number, type: IssueLinkType, targetIssueNumber: number): Promise<void> {
+    if (issueNumber === targetIssueNumber) {
+      throw new Error(`Issue #${issueNumber} cannot be linked to itself`);
+    }
+
+    const body = await this.getIssueBody(issueNumber);
+    const links = readIssueMetadata(body).links || [];
+    const updatedLinks = addLink(links, { type, issueNumber: targetIssueNumber });
+    if (updatedLinks === links) {
+      return;
+    }
+
+    await this.updateIssue(issueNumber, { body: updateIssueMetadata(body, { links: updatedLinks }) });
+
+    const targetBody = await this.getIssueBody(targetIssueNumber);
+    const targetLinks = addLink(readIssueMetadata(targetBody).links, { type: inverseLinkType(type), issueNumber });
+    await this.updateIssue(targetIssueNumber, { body: updateIssueMetadata(targetBody, { links: targetLinks }) });
+
+    await this.addComment(issueNumber, `🔗 **${formatLinkType(type)}** #${targetIssueNumber}`);
+  }
+
+  async removeIssueLink(issueNumber: number, type: IssueLinkType, targetIssueNumber: number): Promise<void> {
+    const body = await this.getIssueBody(issueNumber);
+    const links = removeLink(readIssueMetadata(body).links, { type, issueNumber: targetIssueNumber });
+    await this.updateIssue(issueNumber, { body: updateIssueMetadata(body, { links }) });
+
+    const targetBody = await this.getIssueBody(targetIssueNumber);
+    const targetLinks = removeLink(readIssueMetadata(targetBody).links, { type: inverseLinkType(type), issueNumber });
+    await this.updateIssue(targetIssueNumber, { body: updateIssueMetadata(targetBody, { links: targetLinks }) });
+  }
+
+  async getIssueLinks(issueNumber: number): Promise<IssueLink[]> {
+    return readIssueMetadata(await this.getIssueBody(issueNumber)).links || [];
+  }
+
+  getPRDVersionStore(): IPRDVersionStore {
+    return this.prdVersionStore;
+  }
+
+  // As for the filesystem backend, the content goes to the snapshot store and the issue references its
+  // hash (here in the hidden body metadata). The blob sha lets other checkouts read it from the repository.
+  async storePRDVersion(issueNumber: number, prdContent: string, prdPath: string): Promise<void> {
+    const hash = await this.prdVersionStore.saveSnapshot(prdContent);
+    const body = await this.getIssueBody(issueNumber);
+    const stored = readIssueMetadata(body).prdVersion;
+    if (stored && stored.hash === hash && stored.path === prdPath) {
+      return;
+    }
+
+    const prdVersion: IssuePRDVersion = {
+      hash,
+      blobSha: gitBlobSha(prdContent),
+      path: prdPath,
+      timestamp: new Date().toISOString()
+    };
+    await this.updateIssue(issueNumber, { body: updateIssueMetadata(body, { prdVersion }) });
+    logger.debug('PRD version referenced by issue', {
+      action: 'prd_version_stored',
+      issueNumber,
+      hash
+    });
+  }
+
+  async getPRDVersion(issueNumber: number): Promise<string | null> {
+    const prdVersion = readIssueMetadata(await this.getIssueBody(issueNumber)).prdVersion;
+    return prdVersion ? this.readPRDSnapshot(prdVersion) : null;
+  }
+
+  async getPRDVersionReference(issueNumber: number): Promise<PRDVersionReference | null> {
+    const prdVersion = readIssueMetadata(await this.getIssueBody(issueNumber)).prdVersion;
+    return prdVersion ? { hash: prdVersion.hash, prdPath: prdVersion.path, storedAt: prdVersion.timestamp } : null;
+  }
+
+  async getPRDDiff(issueNumber: number, currentContent: string): Promise<string> {
+    const prdVersion = readIssueMetadata(await this.getIssueBody(issueNumber)).prdVersion;
+    const storedContent = prdVersion ? await this.readPRDSnapshot(prdVersion) : null;
+    if (!prdVersion || storedContent === null) {
+      return `No stored PRD version found for issue #${issueNumber}`;
+    }
+
+    if (generateContentHash(storedContent) === generateContentHash(currentContent)) {
+      return 'No changes detected between stored and current PRD versions';
+    }
+
+    return createUnifiedDiff(storedContent, currentContent, {
+      oldLabel: `${prdVersion.path} (stored ${prdVersion.timestamp}, ${prdVersion.hash})`,
+      newLabel: `${prdVersion.path} (current)`
+    });
+  }
+
+  /**
+   * Snapshot from the local store, falling back to the repository blob for content processed elsewhere
+   */
+  private async readPRDSnapshot(prdVersion: IssuePRDVersion): Promise<string | null> {
+    const snapshot = await this.prdVersionStore.getSnapshot(prdVersion.hash);
+    if (snapshot !== null) {
+      return snapshot;
+    }
+
+    const cached = this.blobCache.get(prdVersion.blobSha);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const url = `${this.baseUrl}${this.projectPath}/repository/blobs/${prdVersion.blobSha}/raw`;
+    const response = await fetch(url, { headers: { 'PRIVATE-TOKEN': this.token } });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new GitLabApiError(`GitLab GET ${new URL(url).pathname} failed with ${response.status}`, response.status);
+    }
+
+    const content = await response.text();
+    this.blobCache.set(prdVersion.blobSha, content);
+    return content;
+  }
+
+  private async getIssueBody(issueNumber: number): Promise<string> {
+    const { data } = await this.request<GitLabIssue>('GET', `/issues/${issueNumber}`);
+    return data.description || '';
+  }
+}
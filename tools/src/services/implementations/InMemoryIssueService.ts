@@ -1,10 +1,24 @@
 // services/InMemoryIssueService.ts
 
-import { IIssueService, Issue, IssueData, IssueUpdate, IssueFilters, Comment } from '../interfaces/IIssueService';
+import { IIssueService, Issue, IssueData, IssueUpdate, IssueFilters, Comment, IssueLink, IssueLinkType, PRDVersionReference } from '../interfaces/IIssueService';
+import { createUnifiedDiff } from '../../utils/diff';
+import { generateContentHash } from '../../utils/hash';
+import { addLink, inverseLinkType, removeLink } from '../../utils/issueLinks';
+import { IPRDVersionStore } from '../interfaces/IPRDVersionStore';
+import { InMemoryPRDVersionStore } from './InMemoryPRDVersionStore';
+
+/** Reference from an issue to the PRD snapshot it was last generated or updated from */
+interface PRDVersionRef {
+  hash: string;
+  timestamp: string;
+  filePath: string;
+}
 
 export class InMemoryIssueService implements IIssueService {
   private issues: Map<number, Issue> = new Map();
   private lastIssueNumber: number = 0;
+  private prdVersions: Map<number, PRDVersionRef> = new Map();
+  private prdVersionStore = new InMemoryPRDVersionStore();
 
   async createIssue(issue: IssueData): Promise<number> {
     this.lastIssueNumber++;
@@ -38,6 +52,7 @@ export class InMemoryIssueService implements IIssueService {
     if (updates.body !== undefined) issue.body = updates.body;
     if (updates.state !== undefined) issue.state = updates.state;
     if (updates.labels !== undefined) issue.labels = updates.labels;
+    if (updates.milestone !== undefined) issue.milestone = updates.milestone ?? undefined;
     issue.updated_at = new Date().toISOString();
 
     this.issues.set(issueNumber, issue);
@@ -97,9 +112,85 @@ export class InMemoryIssueService implements IIssueService {
     await this.updateIssue(issueNumber, { state: 'closed' });
   }
 
+  getPRDVersionStore(): IPRDVersionStore {
+    return this.prdVersionStore;
+  }
+
+  async storePRDVersion(issueNumber: number, prdContent: string, prdPath: string): Promise<void> {
+    if (!this.issues.has(issueNumber)) {
+      return;
+    }
+
+    this.prdVersions.set(issueNumber, {
+      hash: await this.prdVersionStore.saveSnapshot(prdContent),
+      timestamp: new Date().toISOString(),
+      filePath: prdPath
+    });
+  }
+
+  async getPRDVersion(issueNumber: number): Promise<string | null> {
+    const version = this.prdVersions.get(issueNumber);
+    return version ? this.prdVersionStore.getSnapshot(version.hash) : null;
+  }
+
+  async getPRDVersionReference(issueNumber: number): Promise<PRDVersionReference | null> {
+    const version = this.prdVersions.get(issueNumber);
+    return version ? { hash: version.hash, prdPath: version.filePath, storedAt: version.timestamp } : null;
+  }
+
+  async getPRDDiff(issueNumber: number, currentContent: string): Promise<string> {
+    const version = this.prdVersions.get(issueNumber);
+    const storedContent = await this.getPRDVersion(issueNumber);
+    if (!version || storedContent === null) {
+      return `No stored PRD version found for issue #${issueNumber}`;
+    }
+
+    if (version.hash === generateContentHash(currentContent)) {
+      return 'No changes detected between stored and current PRD versions';
+    }
+
+    return createUnifiedDiff(storedContent, currentContent, {
+      oldLabel: `${version.filePath} (stored ${version.timestamp})`,
+      newLabel: `${version.filePath} (current)`
+    });
+  }
+
+  async addIssueLink(issueNumber: number, type: IssueLinkType, targetIssueNumber: number): Promise<void> {
+    const [issue, target] = this.getLinkPair(issueNumber, targetIssueNumber);
+
+    issue.links = addLink(issue.links, { type, issueNumber: targetIssueNumber });
+    target.links = addLink(target.links, { type: inverseLinkType(type), issueNumber });
+    console.log(`[InMemory] Linked issue #${issueNumber} ${type} #${targetIssueNumber}`);
+  }
+
+  async removeIssueLink(issueNumber: number, type: IssueLinkType, targetIssueNumber: number): Promise<void> {
+    const [issue, target] = this.getLinkPair(issueNumber, targetIssueNumber);
+
+    issue.links = removeLink(issue.links, { type, issueNumber: targetIssueNumber });
+    target.links = removeLink(target.links, { type: inverseLinkType(type), issueNumber });
+  }
+
+  async getIssueLinks(issueNumber: number): Promise<IssueLink[]> {
+    return this.issues.get(issueNumber)?.links || [];
+  }
+
+  private getLinkPair(issueNumber: number, targetIssueNumber: number): [Issue, Issue] {
+    if (issueNumber === targetIssueNumber) {
+      throw new Error(`Issue #${issueNumber} cannot be linked to itself`);
+    }
+    const issue = this.issues.get(issueNumber);
+    const target = this.issues.get(targetIssueNumber);
+    if (!issue || !target) {
+      throw new Error(`Issue #${!issue ? issueNumber : targetIssueNumber} not found`);
+    }
+    return [issue, target];
+  }
+
   // Helper method for testing - not part of interface
   clear(): void {
     this.issues.clear();
+    this.prdVersions.clear();
+    this.prdVersionStore.clear();
     this.lastIssueNumber = 0;
   }
 
@@ -0,0 +1,50 @@
+// services/InMemoryPRDVersionStore.ts
+
+import { IPRDVersionStore, PRDVersion, PRDVersionChanges } from '../interfaces/IPRDVersionStore';
+import { generateContentHash } from '../../utils/hash';
+import { withVersionChanges } from '../../prd/versionHistory';
+
+export class InMemoryPRDVersionStore implements IPRDVersionStore {
+  private snapshots: Map<string, string> = new Map();
+  private history: Map<string, PRDVersion[]> = new Map();
+
+  async saveSnapshot(content: string): Promise<string> {
+    const hash = generateContentHash(content);
+    this.snapshots.set(hash, content);
+    return hash;
+  }
+
+  async getSnapshot(hash: string): Promise<string | null> {
+    return this.snapshots.get(hash) ?? null;
+  }
+
+  async recordVersion(prdId: string, prdPath: string, content: string, changes?: PRDVersionChanges): Promise<PRDVersion> {
+    const hash = await this.saveSnapshot(content);
+    const versions = this.history.get(prdId) || [];
+    const latest = versions[versions.length - 1];
+    if (latest && latest.hash === hash && latest.prdPath === prdPath) {
+      const updated = withVersionChanges(latest, changes);
+      this.history.set(prdId, [...versions.slice(0, -1), updated]);
+      return updated;
+    }
+
+    const version = withVersionChanges({ prdId, hash, prdPath, recordedAt: new Date().toISOString() }, changes);
+    this.history.set(prdId, [...versions, version]);
+    return version;
+  }
+
+  async getHistory(prdId: string): Promise<PRDVersion[]> {
+    return [...(this.history.get(prdId) || [])];
+  }
+
+  async getLatestVersion(prdId: string): Promise<PRDVersion | null> {
+    const versions = this.history.get(prdId) || [];
+    return versions[versions.length - 1] ?? null;
+  }
+
+  // Helper method for testing - not part of interface
+  clear(): void {
+    this.snapshots.clear();
+    this.history.clear();
+  }
+}
@@ -0,0 +1,103 @@
+// services/implementations/JiraIssueService.test.ts
+// JiraIssueService against FakeJiraServer: issue lifecycle, search and retries
+
+import { test, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { JIRA_PRD_SNAPSHOT_PROPERTY, JiraIssueService } from './JiraIssueService';
+import { PRDSnapshotNotFoundError } from '../interfaces/IPRDVersionStore';
+import { FakeJiraServer } from '../testing/FakeJiraServer';
+
+const server = new FakeJiraServer();
+let service: JiraIssueService;
+
+const serviceWithEmptyStore = () => new JiraIssueService({
+  baseUrl: server.baseUrl,
+  projectKey: server.projectKey,
+  token: 'test-token',
+  prdVersionsPath: fs.mkdtempSync(path.join(os.tmpdir(), 'jira-prd-versions-')),
+  retryBaseDelayMs: 1
+});
+
+before(async () => {
+  await server.start();
+});
+
+after(async () => {
+  await server.stop();
+});
+
+beforeEach(() => {
+  server.reset();
+  service = serviceWithEmptyStore();
+});
+
+test('creates, updates, comments on and closes an issue', async () => {
+  const number = await service.createIssue({ title: 'Login', body: 'Users log in', labels: ['prd:auth', 'type:feature'] });
+  await service.updateIssue(number, { title: 'Sign in', labels: ['prd:auth', 'type:feature', 'priority:high'] });
+  await service.addComment(number, 'Scoped to email and password');
+  await service.closeIssue(number);
+
+  const issue = await service.getIssue(number);
+
+  assert.equal(issue?.title, 'Sign in');
+  assert.equal(issue?.body, 'Users log in');
+  assert.equal(issue?.state, 'closed');
+  assert.deepEqual([...(issue?.labels || [])].sort(), ['prd:auth', 'priority:high', 'type:feature']);
+  assert.deepEqual(issue?.comments?.map(comment => comment.body), ['Scoped to email and password']);
+  assert.equal(server.getIssues()[0].statusCategory, 'done');
+});
+
+test('filters issues by state and label', async () => {
+  server.seedIssue({ summary: 'Login', labels: ['prd:auth'] });
+  server.seedIssue({ summary: 'Logout', labels: ['prd:auth'] }, 'done');
+  server.seedIssue({ summary: 'Billing', labels: ['prd:billing'] });
+
+  const open = await service.getIssues({ labels: ['prd:auth'] });
+  const all = await service.getIssues({ state: 'all', labels: ['prd:auth'] });
+
+  assert.deepEqual(open.map(issue => issue.title), ['Login']);
+  assert.deepEqual(all.map(issue => issue.title).sort(), ['Login', 'Logout']);
+});
+
+test('escapes quotes and backslashes in label filters', async () => {
+  server.seedIssue({ summary: 'Quoted', labels: ['say-"hi"'] });
+  server.seedIssue({ summary: 'Backslash', labels: ['C:\\prd'] });
+  server.seedIssue({ summary: 'Other', labels: ['prd:auth'] });
+
+  assert.deepEqual((await service.getIssues({ labels: ['say-"hi"'] })).map(issue => issue.title), ['Quoted']);
+  assert.deepEqual((await service.getIssues({ labels: ['C:\\prd'] })).map(issue => issue.title), ['Backslash']);
+  assert.deepEqual(await service.getIssues({ labels: ['x" OR labels != "x'] }), []);
+});
+
+test('reads the PRD version from the issue when the local snapshot store lacks it', async () => {
+  const number = await service.createIssue({ title: 'Login', body: 'Users log in', labels: [] });
+  await service.storePRDVersion(number, '# Auth\n\nUsers log in.\n', 'docs/auth.md');
+
+  const freshCheckout = serviceWithEmptyStore();
+
+  assert.equal(await freshCheckout.getPRDVersion(number), '# Auth\n\nUsers log in.\n');
+  assert.match(await freshCheckout.getPRDDiff(number, '# Auth\n\nUsers sign in.\n'), /^\+Users sign in\.$/m);
+});
+
+test('fails when a PRD version too large for the issue is missing locally', async () => {
+  const number = await service.createIssue({ title: 'Login', body: 'Users log in', labels: [] });
+  await service.storePRDVersion(number, '# Auth\n', 'docs/auth.md');
+  await service.storePRDVersion(number, crypto.randomBytes(40000).toString('hex'), 'docs/auth.md');
+
+  assert.equal(JIRA_PRD_SNAPSHOT_PROPERTY in server.getIssues()[0].properties, false);
+  await assert.rejects(serviceWithEmptyStore().getPRDVersion(number), (error: unknown) => error instanceof PRDSnapshotNotFoundError && /nor stored with the issue/.test(error.message));
+});
+
+test('retries rate-limited requests', async () => {
+  server.seedIssue({ summary: 'Login' });
+  server.failNextRequests(2, 429);
+
+  const issue = await service.getIssue(1);
+
+  assert.equal(issue?.title, 'Login');
+  assert.deepEqual(server.getRequests().slice(0, 3).map(request => request.status), [429, 429, 200]);
+});
@@ -0,0 +1,582 @@
+// services/JiraIssueService.ts
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { IIssueService, Issue, IssueData, IssueUpdate, IssueFilters, Comment, IssueLink, IssueLinkType, PRDVersionReference } from '../interfaces/IIssueService';
+import { IPRDVersionStore, PRDSnapshotNotFoundError } from '../interfaces/IPRDVersionStore';
+import { FileSystemPRDVersionStore } from './FileSystemPRDVersionStore';
+import { IssueMetadata, IssuePRDVersion, readIssueMetadata, stripIssueMetadata, updateIssueMetadata, writeIssueMetadata } from '../../utils/issueMetadata';
+import { addLink, formatLinkType, inverseLinkType, removeLink } from '../../utils/issueLinks';
+import { readIssueSection, readListItems } from '../../utils/issueSections';
+import { generateContentHash, gitBlobSha } from '../../utils/hash';
+import { createUnifiedDiff } from '../../utils/diff';
+import { createModuleLogger } from '../../utils/logger';
+
+// Create module-specific logger
+const logger = createModuleLogger('JiraIssueService');
+
+/** Issue property holding the hidden metadata block, which Jira would otherwise render as text */
+export const JIRA_METADATA_PROPERTY = 'eightgent.metadata';
+
+/**
+ * Issue property holding the content of the PRD version the issue references, so the version survives
+ * without the local snapshot store (e.g. in a fresh CI checkout). Kept apart from the metadata, which
+ * every search returns.
+ */
+export const JIRA_PRD_SNAPSHOT_PROPERTY = 'eightgent.prd-snapshot';
+
+// Jira rejects issue property values larger than 32 KB
+const MAX_PROPERTY_VALUE_LENGTH = 32768;
+
+/**
+ * How generated issues map onto Jira fields. Labels are always kept as Jira labels as well.
+ */
+export interface JiraFieldMapping {
+  /** Issue type per `type:<value>` label */
+  issueTypes?: Record<string, string>;
+  /** Issue type when no `type:` label is mapped (default Task) */
+  defaultIssueType?: string;
+  /** Priority per `priority:<value>` label */
+  priorities?: Record<string, string>;
+  /** Custom field for story points, e.g. `customfield_10016`; points are only set when configured */
+  storyPointsField?: string;
+  /** Story points per estimated effort, matched case-insensitively (default t-shirt sizes) */
+  effortPoints?: Record<string, number>;
+  /** Custom field for the acceptance criteria, e.g. `customfield_10050` */
+  acceptanceCriteriaField?: string;
+}
+
+export const DEFAULT_JIRA_FIELD_MAPPING: Required<Omit<JiraFieldMapping, 'storyPointsField' | 'acceptanceCriteriaField'>> = {
+  issueTypes: { technical: 'Story', 'non-technical': 'Story', enabler: 'Task', question: 'Task' },
+  defaultIssueType: 'Task',
+  priorities: { high: 'High', medium: 'Medium', low: 'Low' },
+  effortPoints: { xs: 1, s: 2, small: 2, m: 3, medium: 3, l: 5, large: 5, xl: 8 }
+};
+
+export interface JiraServiceConfig {
+  /** Site root, e.g. https://your-org.atlassian.net */
+  baseUrl: string;
+  projectKey: string;
+  /** API token (Cloud, with `email`) or personal access token (Server / Data Center) */
+  token: string;
+  /** Account email; selects basic auth and the Cloud search API */
+  email?: string;
+  fields?: JiraFieldMapping;
+  /** Local PRD snapshot store (default .issues/prd-versions); snapshots missing there are read from the issue */
+  prdVersionsPath?: string;
+  /** Retries of a request after a rate limit (429) or unavailable server (503) (default 5) */
+  maxRetries?: number;
+  /** First backoff delay, doubled on every retry (default 1s) */
+  retryBaseDelayMs?: number;
+}
+
+export class JiraApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'JiraApiError';
+  }
+}
+
+interface JiraIssue {
+  key: string;
+  fields: {
+    summary: string;
+    description: string | null;
+    labels: string[];
+    status: { statusCategory: { key: string } };
+    created: string;
+    updated: string;
+    fixVersions?: Array<{ name: string }>;
+  };
+  properties?: Record<string, IssueMetadata>;
+}
+
+interface JiraPRDSnapshot {
+  hash: string;
+  /** Deflated and base64 encoded PRD content */
+  content: string;
+}
+
+interface JiraComment {
+  id: string;
+  body: string;
+  created: string;
+  author?: { displayName?: string; name?: string };
+}
+
+interface JiraTransition {
+  id: string;
+  to: { statusCategory: { key: string } };
+}
+
+interface JiraSearchResponse {
+  issues: JiraIssue[];
+  startAt?: number;
+  total?: number;
+  nextPageToken?: string;
+}
+
+const ISSUE_FIELDS = ['summary', 'description', 'labels', 'status', 'created', 'updated', 'fixVersions'];
+
+/**
+ * Quote a value as a JQL string literal; backslashes and quotes are escaped so a value cannot end the literal
+ */
+function jqlString(value: string): string {
+  return `"${value.replace(/[\\"]/g, character => `\\${character}`)}"`;
+}
+
+export class JiraIssueService implements IIssueService {
+  private baseUrl: string;
+  private projectKey: string;
+  private authorization: string;
+  private cloud: boolean;
+  private fields: JiraFieldMapping & typeof DEFAULT_JIRA_FIELD_MAPPING;
+  private prdVersionStore: FileSystemPRDVersionStore;
+  private prdVersionsPath: string;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+
+  constructor(config: JiraServiceConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.projectKey = config.projectKey;
+    this.authorization = config.email
+      ? `Basic ${Buffer.from(`${config.email}:${config.token}`).toString('base64')}`
+      : `Bearer ${config.token}`;
+    this.cloud = !!config.email;
+    // Mapped values extend the defaults, so overriding one priority keeps the others
+    const fields = config.fields || {};
+    this.fields = {
+      ...fields,
+      issueTypes: { ...DEFAULT_JIRA_FIELD_MAPPING.issueTypes, ...fields.issueTypes },
+      defaultIssueType: fields.defaultIssueType || DEFAULT_JIRA_FIELD_MAPPING.defaultIssueType,
+      priorities: { ...DEFAULT_JIRA_FIELD_MAPPING.priorities, ...fields.priorities },
+      effortPoints: { ...DEFAULT_JIRA_FIELD_MAPPING.effortPoints, ...fields.effortPoints }
+    };
+    this.prdVersionsPath = config.prdVersionsPath || '.issues/prd-versions';
+    this.prdVersionStore = new FileSystemPRDVersionStore(this.prdVersionsPath);
+    this.maxRetries = config.maxRetries ?? 5;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? 1000;
+  }
+
+  /**
+   * Every API call goes through here; rate-limited (429) and unavailable (503) requests are retried with backoff
+   */
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const url = `${this.baseUrl}/rest/api/2${path}`;
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: this.authorization,
+          Accept: 'application/json',
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined
+      });
+
+      if (response.ok) {
+        const text = await response.text();
+        return (text ? JSON.parse(text) : null) as T;
+      }
+
+      const retryable = response.status === 429 || response.status === 503;
+      if (!retryable || attempt >= this.maxRetries) {
+        const message = await response.text();
+        throw new JiraApiError(`Jira ${method} ${path} failed with ${response.status}: ${message}`, response.status);
+      }
+
+      const retryAfter = response.headers.get('retry-after');
+      const delay = retryAfter !== null ? Number(retryAfter) * 1000 : this.retryBaseDelayMs * Math.pow(2, attempt);
+      logger.warn(`⏳ Jira request failed with ${response.status}; retrying in ${Math.ceil(delay / 1000)}s (${attempt + 1}/${this.maxRetries})`, {
+        action: 'jira_request_retry',
+        status: response.status,
+        path,
+        attempt: attempt + 1,
+        delay
+      });
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  private issueKey(issueNumber: number): string {
+    return `${this.projectKey}-${issueNumber}`;
+  }
+
+  private toIssue(issue: JiraIssue, comments?: Comment[]): Issue {
+    const body = writeIssueMetadata(issue.fields.description || '', issue.properties?.[JIRA_METADATA_PROPERTY] || {});
+    return {
+      number: Number(issue.key.split('-').pop()),
+      title: issue.fields.summary,
+      body,
+      state: issue.fields.status.statusCategory.key === 'done' ? 'closed' : 'open',
+      labels: issue.fields.labels,
+      created_at: issue.fields.created,
+      updated_at: issue.fields.updated,
+      html_url: `${this.baseUrl}/browse/${issue.key}`,
+      milestone: issue.fields.fixVersions?.[0]?.name,
+      comments,
+      links: readIssueMetadata(body).links || []
+    };
+  }
+
+  /**
+   * Jira fields derived from the labels and the body sections of a generated issue
+   */
+  private mapFields(labels: string[] | undefined, body: string | undefined, includeIssueType: boolean): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    const labelValue = (prefix: string) => labels?.find(label => label.startsWith(prefix))?.substring(prefix.length);
+
+    if (labels) {
+      // Jira labels cannot contain spaces
+      fields.labels = labels.map(label => label.replace(/\s+/g, '-'));
+
+      const priority = labelValue('priority:');
+      if (priority && this.fields.priorities[priority]) {
+        fields.priority = { name: this.fields.priorities[priority] };
+      }
+      if (includeIssueType) {
+        const type = labelValue('type:');
+        fields.issuetype = { name: (type && this.fields.issueTypes[type]) || this.fields.defaultIssueType };
+      }
+    }
+
+    if (body !== undefined) {
+      const visible = stripIssueMetadata(body);
+      fields.description = visible;
+
+      const effort = readIssueSection(visible, 'Estimated Effort');
+      const points = effort ? this.storyPoints(effort) : null;
+      if (this.fields.storyPointsField && points !== null) {
+        fields[this.fields.storyPointsField] = points;
+      }
+
+      const criteria = readIssueSection(visible, 'Acceptance Criteria');
+      if (this.fields.acceptanceCriteriaField && criteria !== null) {
+        fields[this.fields.acceptanceCriteriaField] = readListItems(criteria).map(item => `* ${item}`).join('\n');
+      }
+    }
+
+    return fields;
+  }
+
+  /**
+   * Story points for an estimated effort: a configured size (`M`, `Large`) or an explicit `5 points`
+   */
+  private storyPoints(effort: string): number | null {
+    const normalized = effort.trim().toLowerCase();
+    const sized = Object.entries(this.fields.effortPoints).find(([size]) => size.toLowerCase() === normalized);
+    if (sized) {
+      return sized[1];
+    }
+
+    const explicit = normalized.match(/^(\d+(?:\.\d+)?)\s*(?:story\s*)?(?:points?|pts|sp)\b/);
+    if (explicit) {
+      return Number(explicit[1]);
+    }
+
+    logger.debug('No story points for estimated effort', { action: 'jira_effort_unmapped', effort });
+    return null;
+  }
+
+  private async writeMetadata(key: string, body: string): Promise<void> {
+    const metadata = readIssueMetadata(body);
+    if (Object.keys(metadata).length === 0) {
+      await this.deleteProperty(key, JIRA_METADATA_PROPERTY);
+      return;
+    }
+    await this.request('PUT', `/issue/${key}/properties/${JIRA_METADATA_PROPERTY}`, metadata);
+  }
+
+  private async deleteProperty(key: string, property: string): Promise<void> {
+    await this.request('DELETE', `/issue/${key}/properties/${property}`).catch(error => {
+      if (!(error instanceof JiraApiError && error.status === 404)) {
+        throw error;
+      }
+    });
+  }
+
+  async createIssue(issue: IssueData): Promise<number> {
+    const created = await this.request<{ key: string }>('POST', '/issue', {
+      fields: {
+        project: { key: this.projectKey },
+        summary: issue.title,
+        ...this.mapFields(issue.labels, issue.body, true)
+      }
+    });
+
+    if (Object.keys(readIssueMetadata(issue.body)).length > 0) {
+      await this.writeMetadata(created.key, issue.body);
+    }
+
+    logger.debug('Jira issue created', { action: 'jira_issue_created', key: created.key });
+    return Number(created.key.split('-').pop());
+  }
+
+  async updateIssue(issueNumber: number, updates: IssueUpdate): Promise<void> {
+    const key = this.issueKey(issueNumber);
+    const fields: Record<string, unknown> = this.mapFields(updates.labels, updates.body, false);
+    if (updates.title !== undefined) {
+      fields.summary = updates.title;
+    }
+    if (updates.milestone !== undefined) {
+      fields.fixVersions = updates.milestone === null ? [] : [{ name: await this.ensureVersion(updates.milestone) }];
+    }
+
+    if (Object.keys(fields).length > 0) {
+      await this.request('PUT', `/issue/${key}`, { fields });
+    }
+    if (updates.body !== undefined) {
+      await this.writeMetadata(key, updates.body);
+    }
+    if (updates.state !== undefined) {
+      await this.transition(key, updates.state === 'closed' ? ['done'] : ['new', 'indeterminate']);
+    }
+  }
+
+  /**
+   * Milestones are project versions (fix versions); the version is created if it does not exist yet
+   */
+  private async ensureVersion(name: string): Promise<string> {
+    const versions = await this.request<Array<{ name: string }>>('GET', `/project/${this.projectKey}/versions`);
+    if (!versions.some(version => version.name === name)) {
+      await this.request('POST', '/version', { name, project: this.projectKey });
+    }
+    return name;
+  }
+
+  /**
+   * Move an issue to the first status category available from its workflow, in order of preference
+   */
+  private async transition(key: string, categories: string[]): Promise<void> {
+    const issue = await this.request<JiraIssue>('GET', `/issue/${key}?fields=status`);
+    if (categories.includes(issue.fields.status.statusCategory.key)) {
+      return;
+    }
+
+    const { transitions } = await this.request<{ transitions: JiraTransition[] }>('GET', `/issue/${key}/transitions`);
+    for (const category of categories) {
+      const transition = transitions.find(candidate => candidate.to.statusCategory.key === category);
+      if (transition) {
+        await this.request('POST', `/issue/${key}/transitions`, { transition: { id: transition.id } });
+        return;
+      }
+    }
+    throw new Error(`No transition of ${key} leads to status category ${categories.join(' or ')}`);
+  }
+
+  async getIssues(filters?: IssueFilters): Promise<Issue[]> {
+    const clauses = [`project = ${jqlString(this.projectKey)}`];
+    const state = filters?.state || 'open';
+    if (state !== 'all') {
+      clauses.push(state === 'open' ? 'statusCategory != Done' : 'statusCategory = Done');
+    }
+    for (const label of filters?.labels || []) {
+      clauses.push(`labels = ${jqlString(label.replace(/\s+/g, '-'))}`);
+    }
+    if (filters?.since) {
+      // JQL dates have minute precision
+      clauses.push(`updated >= ${jqlString(filters.since.substring(0, 16).replace('T', ' '))}`);
+    }
+    const jql = `${clauses.join(' AND ')} ORDER BY created DESC`;
+
+    // Jira Cloud pages /search/jql by token; Server and Data Center page /search by offset
+    const issues: JiraIssue[] = [];
+    let nextPageToken: string | undefined;
+    for (;;) {
+      const page = await this.request<JiraSearchResponse>('POST', this.cloud ? '/search/jql' : '/search', {
+        jql,
+        fields: ISSUE_FIELDS,
+        properties: [JIRA_METADATA_PROPERTY],
+        maxResults: 100,
+        ...(this.cloud ? { nextPageToken } : { startAt: issues.length })
+      });
+      issues.push(...page.issues);
+
+      nextPageToken = page.nextPageToken;
+      const more = this.cloud ? !!nextPageToken : page.issues.length > 0 && issues.length < (page.total ?? 0);
+      if (!more) {
+        break;
+      }
+    }
+
+    return issues.map(issue => this.toIssue(issue));
+  }
+
+  async getIssue(issueNumber: number): Promise<Issue | null> {
+    const key = this.issueKey(issueNumber);
+    try {
+      const issue = await this.request<JiraIssue>('GET', `/issue/${key}?fields=${ISSUE_FIELDS.join(',')}&properties=${JIRA_METADATA_PROPERTY}`);
+
+      const comments: Comment[] = [];
+      for (;;) {
+        const page = await this.request<{ comments: JiraComment[]; total: number }>('GET', `/issue/${key}/comment?startAt=${comments.length}&maxResults=100`);
+        comments.push(...page.comments.map(comment => ({
+          id: Number(comment.id),
+          body: comment.body,
+          created_at: comment.created,
+          author: comment.author?.displayName || comment.author?.name || 'unknown'
+        })));
+        if (page.comments.length === 0 || comments.length >= page.total) {
+          break;
+        }
+      }
+
+      return this.toIssue(issue, comments);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async addComment(issueNumber: number, comment: string): Promise<void> {
+    await this.request('POST', `/issue/${this.issueKey(issueNumber)}/comment`, { body: comment });
+  }
+
+  async closeIssue(issueNumber: number): Promise<void> {
+    await this.transition(this.issueKey(issueNumber), ['done']);
+  }
+
+  // Jira link types differ per site and have no supersedes, so links are kept in the hidden
+  // metadata of both issues, as for GitHub, with a cross-reference comment
+  async addIssueLink(issueNumber: number, type: IssueLinkType, targetIssueNumber: number): Promise<void> {
+    if (issueNumber === targetIssueNumber) {
+      throw new Error(`Issue #${issueNumber} cannot be linked to itself`);
+    }
+
+    const body = await this.getIssueBody(issueNumber);
+    const links = readIssueMetadata(body).links || [];
+    const updatedLinks = addLink(links, { type, issueNumber: targetIssueNumber });
+    if (updatedLinks === links) {
+      return;
+    }
+
+    await this.writeMetadata(this.issueKey(issueNumber), updateIssueMetadata(body, { links: updatedLinks }));
+
+    const targetBody = await this.getIssueBody(targetIssueNumber);
+    const targetLinks = addLink(readIssueMetadata(targetBody).links, { type: inverseLinkType(type), issueNumber });
+    await this.writeMetadata(this.issueKey(targetIssueNumber), updateIssueMetadata(targetBody, { links: targetLinks }));
+
+    await this.addComment(issueNumber, `🔗 *${formatLinkType(type)}* ${this.issueKey(targetIssueNumber)}`);
+  }
+
+  async removeIssueLink(issueNumber: number, type: IssueLinkType, targetIssueNumber: number): Promise<void> {
+    const body = await this.getIssueBody(issueNumber);
+    const links = removeLink(readIssueMetadata(body).links, { type, issueNumber: targetIssueNumber });
+    await this.writeMetadata(this.issueKey(issueNumber), updateIssueMetadata(body, { links }));
+
+    const targetBody = await this.getIssueBody(targetIssueNumber);
+    const targetLinks = removeLink(readIssueMetadata(targetBody).links, { type: inverseLinkType(type), issueNumber });
+    await this.writeMetadata(this.issueKey(targetIssueNumber), updateIssueMetadata(targetBody, { links: targetLinks }));
+  }
+
+  async getIssueLinks(issueNumber: number): Promise<IssueLink[]> {
+    return readIssueMetadata(await this.getIssueBody(issueNumber)).links || [];
+  }
+
+  getPRDVersionStore(): IPRDVersionStore {
+    return this.prdVersionStore;
+  }
+
+  // The content goes to the local snapshot store and, compressed, to an issue property; the metadata references its hash
+  async storePRDVersion(issueNumber: number, prdContent: string, prdPath: string): Promise<void> {
+    const key = this.issueKey(issueNumber);
+    const hash = await this.prdVersionStore.saveSnapshot(prdContent);
+    const body = await this.getIssueBody(issueNumber);
+    const stored = readIssueMetadata(body).prdVersion;
+    if (stored && stored.hash === hash && stored.path === prdPath) {
+      return;
+    }
+
+    await this.writePRDSnapshot(key, hash, prdContent);
+    const prdVersion: IssuePRDVersion = {
+      hash,
+      blobSha: gitBlobSha(prdContent),
+      path: prdPath,
+      timestamp: new Date().toISOString()
+    };
+    await this.writeMetadata(key, updateIssueMetadata(body, { prdVersion }));
+  }
+
+  async getPRDVersion(issueNumber: number): Promise<string | null> {
+    const prdVersion = readIssueMetadata(await this.getIssueBody(issueNumber)).prdVersion;
+    return prdVersion ? this.readPRDSnapshot(this.issueKey(issueNumber), prdVersion) : null;
+  }
+
+  async getPRDVersionReference(issueNumber: number): Promise<PRDVersionReference | null> {
+    const prdVersion = readIssueMetadata(await this.getIssueBody(issueNumber)).prdVersion;
+    return prdVersion ? { hash: prdVersion.hash, prdPath: prdVersion.path, storedAt: prdVersion.timestamp } : null;
+  }
+
+  async getPRDDiff(issueNumber: number, currentContent: string): Promise<string> {
+    const prdVersion = readIssueMetadata(await this.getIssueBody(issueNumber)).prdVersion;
+    if (!prdVersion) {
+      return `No stored PRD version found for issue #${issueNumber}`;
+    }
+    const storedContent = await this.readPRDSnapshot(this.issueKey(issueNumber), prdVersion);
+
+    if (generateContentHash(storedContent) === generateContentHash(currentContent)) {
+      return 'No changes detected between stored and current PRD versions';
+    }
+
+    return createUnifiedDiff(storedContent, currentContent, {
+      oldLabel: `${prdVersion.path} (stored ${prdVersion.timestamp}, ${prdVersion.hash})`,
+      newLabel: `${prdVersion.path} (current)`
+    });
+  }
+
+  private async writePRDSnapshot(key: string, hash: string, content: string): Promise<void> {
+    const snapshot: JiraPRDSnapshot = { hash, content: deflateRawSync(Buffer.from(content, 'utf8')).toString('base64') };
+    if (JSON.stringify(snapshot).length > MAX_PROPERTY_VALUE_LENGTH) {
+      logger.warn(`⚠️ PRD snapshot ${hash} is too large for a Jira issue property; ${key} relies on the local snapshot store in ${this.prdVersionsPath}`, {
+        action: 'jira_prd_snapshot_too_large',
+        key,
+        hash
+      });
+      // An older snapshot left on the issue no longer matches the referenced version
+      await this.deleteProperty(key, JIRA_PRD_SNAPSHOT_PROPERTY);
+      return;
+    }
+    await this.request('PUT', `/issue/${key}/properties/${JIRA_PRD_SNAPSHOT_PROPERTY}`, snapshot);
+  }
+
+  /**
+   * Content of the referenced PRD version, from the local store or else from the issue property
+   */
+  private async readPRDSnapshot(key: string, prdVersion: IssuePRDVersion): Promise<string> {
+    const local = await this.prdVersionStore.getSnapshot(prdVersion.hash);
+    if (local !== null) {
+      return local;
+    }
+
+    let snapshot: JiraPRDSnapshot | null = null;
+    try {
+      snapshot = (await this.request<{ value: JiraPRDSnapshot }>('GET', `/issue/${key}/properties/${JIRA_PRD_SNAPSHOT_PROPERTY}`)).value;
+    } catch (error) {
+      if (!(error instanceof JiraApiError && error.status === 404)) {
+        throw error;
+      }
+    }
+    if (!snapshot || snapshot.hash !== prdVersion.hash) {
+      throw new PRDSnapshotNotFoundError(
+        `PRD snapshot ${prdVersion.hash} referenced by ${key} is neither in ${this.prdVersionsPath} nor stored with the issue; ` +
+        'restore the snapshot store or set a git baseline (--baseline git:<ref>)',
+        prdVersion.hash
+      );
+    }
+
+    const content = inflateRawSync(Buffer.from(snapshot.content, 'base64')).toString('utf8');
+    await this.prdVersionStore.saveSnapshot(content);
+    logger.debug('PRD snapshot read from the issue', { action: 'jira_prd_snapshot_read', key, hash: prdVersion.hash });
+    return content;
+  }
+
+  /**
+   * Description with the metadata block re-attached from the issue property
+   */
+  private async getIssueBody(issueNumber: number): Promise<string> {
+    const issue = await this.request<JiraIssue>('GET', `/issue/${this.issueKey(issueNumber)}?fields=description&properties=${JIRA_METADATA_PROPERTY}`);
+    return writeIssueMetadata(issue.fields.description || '', issue.properties?.[JIRA_METADATA_PROPERTY] || {});
+  }
+}
@@ -1,4 +1,8 @@
 // services/implementations/index.ts
 export * from './FileSystemIssueService';
+export * from './FileSystemPRDVersionStore';
 export * from './GitHubIssueService';
-export * from './InMemoryIssueService';
\ No newline at end of file
+export * from './InMemoryIssueService';
+export * from './InMemoryPRDVersionStore';
+export * from './GitLabIssueService';
+export * from './JiraIssueService';
\ No newline at end of file
@@ -1,5 +1,7 @@
 // services/IIssueService.ts
 
+import type { IPRDVersionStore } from './IPRDVersionStore';
+
 export interface Issue {
   number: number;
   title: string;
@@ -9,7 +11,20 @@ export interface Issue {
   created_at: string;
   updated_at: string;
   html_url?: string;
+  milestone?: string;
   comments?: Comment[];
+  links?: IssueLink[];
+}
+
+/**
+ * Relationship from one issue to another. Each link is stored on both issues,
+ * the target side with the inverse type (blocks <-> blocked-by, supersedes <-> superseded-by).
+ */
+export type IssueLinkType = 'blocks' | 'blocked-by' | 'relates-to' | 'supersedes' | 'superseded-by';
+
+export interface IssueLink {
+  type: IssueLinkType;
+  issueNumber: number;
 }
 
 export interface Comment {
@@ -30,6 +45,19 @@ export interface IssueUpdate {
   body?: string;
   state?: 'open' | 'closed';
   labels?: string[];
+  /** Milestone title; `null` removes the issue from its milestone */
+  milestone?: string | null;
+}
+
+/**
+ * Reference from an issue to the PRD version it was last generated or updated from
+ */
+export interface PRDVersionReference {
+  /** Content hash (see generateContentHash) */
+  hash: string;
+  prdPath: string;
+  /** ISO timestamp of when the version was stored for the issue */
+  storedAt: string;
 }
 
 export interface IssueFilters {
@@ -70,6 +98,11 @@ export interface IIssueService {
    */
   closeIssue(issueNumber: number): Promise<void>;
 
+  /**
+   * Store of PRD snapshots and per-PRD version history backing the PRD version methods
+   */
+  getPRDVersionStore?(): IPRDVersionStore;
+
   /**
    * Store PRD version associated with an issue
    */
@@ -80,8 +113,28 @@ export interface IIssueService {
    */
   getPRDVersion?(issueNumber: number): Promise<string | null>;
 
+  /**
+   * Get the reference to the stored PRD version of an issue, without its content
+   */
+  getPRDVersionReference?(issueNumber: number): Promise<PRDVersionReference | null>;
+
   /**
    * Get diff between stored PRD version and current content
    */
   getPRDDiff?(issueNumber: number, currentContent: string): Promise<string>;
+
+  /**
+   * Link two issues; the inverse link is recorded on the target issue
+   */
+  addIssueLink?(issueNumber: number, type: IssueLinkType, targetIssueNumber: number): Promise<void>;
+
+  /**
+   * Remove a link (and its inverse) between two issues
+   */
+  removeIssueLink?(issueNumber: number, type: IssueLinkType, targetIssueNumber: number): Promise<void>;
+
+  /**
+   * Get the links of an issue
+   */
+  getIssueLinks?(issueNumber: number): Promise<IssueLink[]>;
 }
\ No newline at end of file
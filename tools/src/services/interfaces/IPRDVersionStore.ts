@@ -0,0 +1,66 @@
+// services/IPRDVersionStore.ts
+
+/**
+ * A processed version of a PRD. The content lives in the snapshot stored under `hash`.
+ */
+export interface PRDVersion {
+  prdId: string;
+  hash: string;
+  prdPath: string;
+  recordedAt: string;
+  /** Git commit the content was read from, for baselines taken from git history */
+  commit?: string;
+  /** Issues created while processing this version */
+  createdIssues?: number[];
+  /** Existing issues updated (or reopened) while processing this version */
+  updatedIssues?: number[];
+}
+
+export interface PRDVersionChanges {
+  createdIssues: number[];
+  updatedIssues: number[];
+}
+
+/**
+ * Content-addressed PRD snapshots plus the processing history of each PRD.
+ * A snapshot is stored once however many issues or versions reference it.
+ */
+export interface IPRDVersionStore {
+  /**
+   * Store PRD content under its hash (no-op when already stored)
+   * @returns The content hash
+   */
+  saveSnapshot(content: string): Promise<string>;
+
+  /**
+   * Get snapshot content by hash
+   */
+  getSnapshot(hash: string): Promise<string | null>;
+
+  /**
+   * Save the snapshot and append it to the PRD's history, unless it equals the latest version.
+   * Issue changes of a re-recorded latest version are added to the ones already recorded.
+   */
+  recordVersion(prdId: string, prdPath: string, content: string, changes?: PRDVersionChanges): Promise<PRDVersion>;
+
+  /**
+   * Processed versions of a PRD, oldest first
+   */
+  getHistory(prdId: string): Promise<PRDVersion[]>;
+
+  /**
+   * The last processed version of a PRD
+   */
+  getLatestVersion(prdId: string): Promise<PRDVersion | null>;
+}
+
+/**
+ * A stored PRD version is referenced but its content is nowhere to be found. Diffing against nothing
+ * would plan every feature as new, so processing stops instead.
+ */
+export class PRDSnapshotNotFoundError extends Error {
+  constructor(message: string, public readonly hash: string) {
+    super(message);
+    this.name = 'PRDSnapshotNotFoundError';
+  }
+}
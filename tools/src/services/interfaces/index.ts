@@ -1,2 +1,3 @@
 // services/interfaces/index.ts
-export * from './IIssueService';
\ No newline at end of file
+export * from './IIssueService';
+export * from './IPRDVersionStore';
\ No newline at end of file
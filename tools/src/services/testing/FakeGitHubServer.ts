@@ -0,0 +1,449 @@
+// services/testing/FakeGitHubServer.ts
+
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { gitBlobSha } from '../../utils/hash';
+import { createModuleLogger } from '../../utils/logger';
+import { asObject } from './requestBody';
+
+// Create module-specific logger
+const logger = createModuleLogger('FakeGitHubServer');
+
+export interface FakeGitHubIssue {
+  number: number;
+  title: string;
+  body: string;
+  state: 'open' | 'closed';
+  labels: string[];
+  milestone: number | null;
+  created_at: string;
+  updated_at: string;
+  /** Set for pull requests, which the issues endpoints return as well */
+  pull_request?: boolean;
+}
+
+export interface FakeGitHubComment {
+  id: number;
+  issueNumber: number;
+  body: string;
+  author: string;
+  created_at: string;
+}
+
+export interface FakeGitHubMilestone {
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+}
+
+export interface FakeGitHubRequest {
+  method: string;
+  path: string;
+  status: number;
+}
+
+interface InjectedFailure {
+  status: number;
+  headers: Record<string, string>;
+}
+
+interface RouteContext {
+  path: string;
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+  baseUrl: string;
+}
+
+type RouteResult = { status: number; body?: unknown; headers?: Record<string, string> };
+type RouteHandler = (context: RouteContext) => RouteResult;
+
+function validationFailed(field: string, code: string): RouteResult {
+  return { status: 422, body: { message: 'Validation Failed', errors: [{ field, code }] } };
+}
+
+/**
+ * In-process stand-in for the subset of the GitHub REST API used by GitHubIssueService and the
+ * Octokit-based processors: issues, comments, labels, milestones and git blobs of a single repository.
+ * Point Octokit at `baseUrl` (GitHubConfig.baseUrl or GITHUB_API_URL) to run GitHub flows offline.
+ */
+export class FakeGitHubServer {
+  readonly owner: string;
+  readonly repo: string;
+  private server: http.Server | null = null;
+  private issues: Map<number, FakeGitHubIssue> = new Map();
+  private comments: FakeGitHubComment[] = [];
+  private milestones: FakeGitHubMilestone[] = [];
+  private labels: Set<string> = new Set();
+  private blobs: Map<string, string> = new Map();
+  private failures: InjectedFailure[] = [];
+  private requests: FakeGitHubRequest[] = [];
+  private nextCommentId = 1;
+  private routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler }>;
+
+  constructor(options: { owner?: string; repo?: string } = {}) {
+    this.owner = options.owner || 'octo-org';
+    this.repo = options.repo || 'octo-repo';
+
+    const repoPath = `/repos/${this.owner}/${this.repo}`;
+    const route = (method: string, path: string, handler: RouteHandler) => ({
+      method,
+      pattern: new RegExp(`^${repoPath}${path}$`),
+      handler
+    });
+
+    this.routes = [
+      route('GET', '/issues', context => this.listIssues(context)),
+      route('POST', '/issues', context => this.createIssue(context)),
+      route('GET', '/issues/(\\d+)', context => this.withIssue(context, issue => ({ status: 200, body: this.toIssueJson(issue, context.baseUrl) }))),
+      route('PATCH', '/issues/(\\d+)', context => this.withIssue(context, issue => this.updateIssue(issue, context))),
+      route('GET', '/issues/(\\d+)/comments', context => this.withIssue(context, issue =>
+        this.paginate(context, this.comments.filter(comment => comment.issueNumber === issue.number).map(comment => this.toCommentJson(comment))))),
+      route('POST', '/issues/(\\d+)/comments', context => this.withIssue(context, issue => {
+        const { body } = asObject(context.body);
+        if (typeof body !== 'string') {
+          return validationFailed('body', 'missing_field');
+        }
+        return { status: 201, body: this.toCommentJson(this.addComment(issue.number, body)) };
+      })),
+      route('POST', '/issues/(\\d+)/labels', context => this.withIssue(context, issue => {
+        // Labels are sent as an array or as `{ labels: [...] }`
+        const labels = Array.isArray(context.body) ? context.body : asObject(context.body).labels;
+        this.touch(issue, { labels: Array.from(new Set([...issue.labels, ...this.labelNames(labels)])) });
+        return { status: 200, body: issue.labels.map(name => ({ name })) };
+      })),
+      route('DELETE', '/issues/(\\d+)/labels/([^/]+)', context => this.withIssue(context, issue => {
+        const name = decodeURIComponent(context.params[1]);
+        if (!issue.labels.includes(name)) {
+          return { status: 404, body: { message: 'Label does not exist' } };
+        }
+        this.touch(issue, { labels: issue.labels.filter(label => label !== name) });
+        return { status: 200, body: issue.labels.map(label => ({ name: label })) };
+      })),
+      route('GET', '/labels', context => this.paginate(context, Array.from(this.labels).map(name => ({ name })))),
+      route('POST', '/labels', context => {
+        const { name } = asObject(context.body);
+        if (typeof name !== 'string') {
+          return validationFailed('name', 'missing_field');
+        }
+        if (this.labels.has(name)) {
+          return validationFailed('name', 'already_exists');
+        }
+        this.labels.add(name);
+        return { status: 201, body: { name } };
+      }),
+      route('GET', '/milestones', context => {
+        const state = context.query.get('state') || 'open';
+        return this.paginate(context, this.milestones.filter(milestone => state === 'all' || milestone.state === state));
+      }),
+      route('POST', '/milestones', context => {
+        const { title } = asObject(context.body);
+        if (typeof title !== 'string') {
+          return validationFailed('title', 'missing_field');
+        }
+        const milestone: FakeGitHubMilestone = { number: this.milestones.length + 1, title, state: 'open' };
+        this.milestones.push(milestone);
+        return { status: 201, body: milestone };
+      }),
+      route('GET', '/git/blobs/([0-9a-f]{40})', context => {
+        const content = this.blobs.get(context.params[0]);
+        if (content === undefined) {
+          return { status: 404, body: { message: 'Not Found' } };
+        }
+        return {
+          status: 200,
+          body: { sha: context.params[0], size: Buffer.byteLength(content), encoding: 'base64', content: Buffer.from(content).toString('base64') }
+        };
+      })
+    ];
+  }
+
+  /**
+   * Start listening on localhost
+   * @returns The base URL to configure Octokit with
+   */
+  async start(port: number = 0): Promise<string> {
+    this.server = http.createServer((request, response) => this.handle(request, response));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+    logger.info(`🧪 Fake GitHub API listening on ${this.baseUrl} for ${this.owner}/${this.repo}`, {
+      action: 'fake_github_started',
+      baseUrl: this.baseUrl
+    });
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+  }
+
+  get baseUrl(): string {
+    if (!this.server) {
+      throw new Error('Fake GitHub server is not running');
+    }
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  // Helper methods for testing - not part of the GitHub API
+
+  /**
+   * Store file content so it can be read back as a git blob, as if it had been pushed
+   * @returns The blob sha
+   */
+  addBlob(content: string): string {
+    const sha = gitBlobSha(content);
+    this.blobs.set(sha, content);
+    return sha;
+  }
+
+  /**
+   * Create an issue (or, with `pull_request`, a pull request) directly
+   */
+  seedIssue(issue: Partial<FakeGitHubIssue> & { title: string }): FakeGitHubIssue {
+    const number = this.issues.size + 1;
+    const now = new Date().toISOString();
+    const seeded: FakeGitHubIssue = {
+      number,
+      body: '',
+      state: 'open',
+      labels: [],
+      milestone: null,
+      created_at: now,
+      updated_at: now,
+      ...issue
+    };
+    seeded.labels.forEach(label => this.labels.add(label));
+    this.issues.set(number, seeded);
+    return seeded;
+  }
+
+  /**
+   * Answer the next `count` requests with an error, e.g. 403/429 with `retry-after` to simulate rate limits
+   */
+  failNextRequests(count: number, status: number = 429, headers: Record<string, string> = { 'retry-after': '0' }): void {
+    for (let i = 0; i < count; i++) {
+      this.failures.push({ status, headers });
+    }
+  }
+
+  getIssues(): FakeGitHubIssue[] {
+    return Array.from(this.issues.values());
+  }
+
+  getComments(issueNumber?: number): FakeGitHubComment[] {
+    return this.comments.filter(comment => issueNumber === undefined || comment.issueNumber === issueNumber);
+  }
+
+  getMilestones(): FakeGitHubMilestone[] {
+    return [...this.milestones];
+  }
+
+  getRequests(): FakeGitHubRequest[] {
+    return [...this.requests];
+  }
+
+  reset(): void {
+    this.issues.clear();
+    this.comments = [];
+    this.milestones = [];
+    this.labels.clear();
+    this.blobs.clear();
+    this.failures = [];
+    this.requests = [];
+    this.nextCommentId = 1;
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const method = request.method || 'GET';
+    // The Host header carries the port, which Link headers and html_url must point back to
+    const url = new URL(request.url || '/', request.headers.host ? `http://${request.headers.host}` : this.baseUrl);
+
+    let result: RouteResult;
+    try {
+      const failure = this.failures.shift();
+      if (failure) {
+        result = { status: failure.status, headers: failure.headers, body: { message: 'API rate limit exceeded (simulated)' } };
+      } else {
+        const rawBody = await this.readBody(request);
+        result = this.route(method, url, rawBody ? JSON.parse(rawBody) : {});
+      }
+    } catch (error) {
+      result = { status: 400, body: { message: `Problems parsing request: ${(error as Error).message}` } };
+    }
+
+    let payload = result.body === undefined ? '' : JSON.stringify(result.body);
+    const headers: Record<string, string> = { 'content-type': 'application/json; charset=utf-8', ...result.headers };
+
+    // Conditional requests: unchanged GET responses become 304 Not Modified
+    if (method === 'GET' && result.status === 200) {
+      const etag = `W/"${crypto.createHash('sha1').update(payload).digest('hex')}"`;
+      headers.etag = etag;
+      if (request.headers['if-none-match'] === etag) {
+        result = { status: 304 };
+        payload = '';
+      }
+    }
+
+    this.requests.push({ method, path: `${url.pathname}${url.search}`, status: result.status });
+    logger.debug('Fake GitHub request', { action: 'fake_github_request', method, path: url.pathname, status: result.status });
+    response.writeHead(result.status, headers);
+    response.end(payload);
+  }
+
+  private readBody(request: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      request.on('data', chunk => chunks.push(chunk));
+      request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      request.on('error', reject);
+    });
+  }
+
+  private route(method: string, url: URL, body: unknown): RouteResult {
+    for (const { method: routeMethod, pattern, handler } of this.routes) {
+      const match = url.pathname.match(pattern);
+      if (match && routeMethod === method) {
+        return handler({ path: url.pathname, params: match.slice(1), query: url.searchParams, body, baseUrl: `${url.protocol}//${url.host}` });
+      }
+    }
+    return { status: 404, body: { message: 'Not Found' } };
+  }
+
+  private withIssue(context: RouteContext, handler: (issue: FakeGitHubIssue) => RouteResult): RouteResult {
+    const issue = this.issues.get(Number(context.params[0]));
+    return issue ? handler(issue) : { status: 404, body: { message: 'Not Found' } };
+  }
+
+  /**
+   * Slice a result list by `per_page`/`page` and add the `Link` header Octokit's paginate follows
+   */
+  private paginate(context: RouteContext, items: unknown[]): RouteResult {
+    const perPage = Math.min(Number(context.query.get('per_page')) || 30, 100);
+    const page = Math.max(Number(context.query.get('page')) || 1, 1);
+    const lastPage = Math.max(Math.ceil(items.length / perPage), 1);
+
+    const headers: Record<string, string> = {};
+    if (page < lastPage) {
+      const link = (target: number) => {
+        const query = new URLSearchParams(context.query);
+        query.set('page', String(target));
+        return `<${context.baseUrl}${context.path}?${query.toString()}>`;
+      };
+      headers.link = `${link(page + 1)}; rel="next", ${link(lastPage)}; rel="last"`;
+    }
+
+    return { status: 200, body: items.slice((page - 1) * perPage, page * perPage), headers };
+  }
+
+  private listIssues(context: RouteContext): RouteResult {
+    const state = context.query.get('state') || 'open';
+    const labels = (context.query.get('labels') || '').split(',').filter(Boolean);
+    const since = context.query.get('since');
+
+    const issues = this.getIssues()
+      .filter(issue => state === 'all' || issue.state === state)
+      .filter(issue => labels.every(label => issue.labels.includes(label)))
+      .filter(issue => !since || issue.updated_at >= since)
+      .sort((a, b) => b.number - a.number)
+      .map(issue => this.toIssueJson(issue, context.baseUrl));
+
+    return this.paginate(context, issues);
+  }
+
+  private createIssue(context: RouteContext): RouteResult {
+    const { title, body, labels, milestone } = asObject(context.body);
+    if (typeof title !== 'string' || !title) {
+      return validationFailed('title', 'missing_field');
+    }
+    const issue = this.seedIssue({
+      title,
+      body: typeof body === 'string' ? body : '',
+      labels: this.labelNames(labels),
+      milestone: typeof milestone === 'number' ? milestone : null
+    });
+    return { status: 201, body: this.toIssueJson(issue, context.baseUrl) };
+  }
+
+  private updateIssue(issue: FakeGitHubIssue, context: RouteContext): RouteResult {
+    const { title, body, state, labels, milestone } = asObject(context.body);
+    if (title !== undefined && typeof title !== 'string') {
+      return validationFailed('title', 'invalid');
+    }
+    if (body !== undefined && typeof body !== 'string') {
+      return validationFailed('body', 'invalid');
+    }
+    if (state !== undefined && state !== 'open' && state !== 'closed') {
+      return validationFailed('state', 'invalid');
+    }
+    if (milestone !== undefined && milestone !== null && (typeof milestone !== 'number' || !this.milestones.some(m => m.number === milestone))) {
+      return validationFailed('milestone', 'invalid');
+    }
+
+    this.touch(issue, {
+      ...(title !== undefined && { title }),
+      ...(body !== undefined && { body }),
+      ...(state !== undefined && { state }),
+      ...(labels !== undefined && { labels: this.labelNames(labels) }),
+      ...(milestone !== undefined && { milestone })
+    });
+    return { status: 200, body: this.toIssueJson(issue, context.baseUrl) };
+  }
+
+  private addComment(issueNumber: number, body: string): FakeGitHubComment {
+    const comment: FakeGitHubComment = {
+      id: this.nextCommentId++,
+      issueNumber,
+      body,
+      author: 'github-actions[bot]',
+      created_at: new Date().toISOString()
+    };
+    this.comments.push(comment);
+    return comment;
+  }
+
+  private touch(issue: FakeGitHubIssue, changes: Partial<FakeGitHubIssue>): void {
+    Object.assign(issue, changes, { updated_at: new Date().toISOString() });
+    issue.labels.forEach(label => this.labels.add(label));
+  }
+
+  private labelNames(labels: unknown): string[] {
+    if (!Array.isArray(labels)) {
+      return [];
+    }
+    return labels.map(label => typeof label === 'string' ? label : (label as { name: string }).name);
+  }
+
+  private toIssueJson(issue: FakeGitHubIssue, baseUrl: string): object {
+    const milestone = this.milestones.find(candidate => candidate.number === issue.milestone);
+    return {
+      number: issue.number,
+      title: issue.title,
+      body: issue.body,
+      state: issue.state,
+      labels: issue.labels.map(name => ({ name })),
+      milestone: milestone ? { number: milestone.number, title: milestone.title, state: milestone.state } : null,
+      created_at: issue.created_at,
+      updated_at: issue.updated_at,
+      html_url: `${baseUrl}/${this.owner}/${this.repo}/${issue.pull_request ? 'pull' : 'issues'}/${issue.number}`,
+      user: { login: 'github-actions[bot]' },
+      ...(issue.pull_request && { pull_request: { url: `${baseUrl}/repos/${this.owner}/${this.repo}/pulls/${issue.number}` } })
+    };
+  }
+
+  private toCommentJson(comment: FakeGitHubComment): object {
+    return {
+      id: comment.id,
+      body: comment.body,
+      created_at: comment.created_at,
+      user: { login: comment.author }
+    };
+  }
+}
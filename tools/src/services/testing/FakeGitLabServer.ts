@@ -0,0 +1,444 @@
+// services/testing/FakeGitLabServer.ts
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { gitBlobSha } from '../../utils/hash';
+import { createModuleLogger } from '../../utils/logger';
+import { asObject, asStringArray } from './requestBody';
+
+// Create module-specific logger
+const logger = createModuleLogger('FakeGitLabServer');
+
+export interface FakeGitLabIssue {
+  iid: number;
+  title: string;
+  description: string;
+  state: 'opened' | 'closed';
+  labels: string[];
+  milestoneId: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FakeGitLabNote {
+  id: number;
+  issueIid: number;
+  body: string;
+  /** System notes record label, state and milestone changes */
+  system: boolean;
+  author: string;
+  created_at: string;
+}
+
+export interface FakeGitLabMilestone {
+  id: number;
+  title: string;
+  state: 'active' | 'closed';
+}
+
+export interface FakeGitLabRequest {
+  method: string;
+  path: string;
+  status: number;
+}
+
+interface RouteContext {
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+  /** Scheme, host and port the request was sent to */
+  origin: string;
+}
+
+/** `text` is sent as plain text instead of `body` as JSON, as for raw blobs */
+type RouteResult = { status: number; body?: unknown; text?: string; headers?: Record<string, string> };
+type RouteHandler = (context: RouteContext) => RouteResult;
+
+const API_PREFIX = '/api/v4';
+
+function badRequest(message: string): RouteResult {
+  return { status: 400, body: { message } };
+}
+
+/**
+ * Labels are sent as a comma-separated string (or, by some clients, as an array)
+ */
+function labelList(labels: unknown): string[] {
+  if (typeof labels === 'string') {
+    return labels.split(',').map(label => label.trim()).filter(Boolean);
+  }
+  return asStringArray(labels);
+}
+
+/**
+ * In-process stand-in for the subset of the GitLab REST API (v4) used by GitLabIssueService: issues,
+ * notes (including system notes for label, state and milestone changes), milestones and raw repository
+ * blobs of a single project, addressed by its id or URL-encoded path. Lists page by `page`/`per_page`
+ * with the `X-Next-Page` headers GitLab sends.
+ */
+export class FakeGitLabServer {
+  readonly projectId: number;
+  readonly projectPath: string;
+  private server: http.Server | null = null;
+  private issues: Map<number, FakeGitLabIssue> = new Map();
+  private notes: FakeGitLabNote[] = [];
+  private milestones: FakeGitLabMilestone[] = [];
+  private blobs: Map<string, string> = new Map();
+  private failures: Array<{ status: number; headers: Record<string, string> }> = [];
+  private requests: FakeGitLabRequest[] = [];
+  private nextNoteId = 1;
+  private routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler }>;
+
+  constructor(options: { projectId?: number; projectPath?: string } = {}) {
+    this.projectId = options.projectId || 1;
+    this.projectPath = options.projectPath || 'octo-group/octo-project';
+
+    const route = (method: string, path: string, handler: RouteHandler) => ({
+      method,
+      pattern: new RegExp(`^${path}$`),
+      handler
+    });
+
+    this.routes = [
+      route('GET', '/issues', context => this.listIssues(context)),
+      route('POST', '/issues', context => this.createIssue(context)),
+      route('GET', '/issues/(\\d+)', context => this.withIssue(context, issue => ({ status: 200, body: this.toIssueJson(issue, context.origin) }))),
+      route('PUT', '/issues/(\\d+)', context => this.withIssue(context, issue => this.updateIssue(issue, context))),
+      route('GET', '/issues/(\\d+)/notes', context => this.withIssue(context, issue => {
+        const notes = this.getNotes(issue.iid).sort((a, b) => a.id - b.id);
+        return this.paginate(context, (context.query.get('sort') === 'asc' ? notes : notes.reverse()).map(note => this.toNoteJson(note)));
+      })),
+      route('POST', '/issues/(\\d+)/notes', context => this.withIssue(context, issue => {
+        const { body } = asObject(context.body);
+        if (typeof body !== 'string' || !body) {
+          return badRequest('body is missing');
+        }
+        return { status: 201, body: this.toNoteJson(this.addNote(issue, body, false)) };
+      })),
+      route('GET', '/milestones', context => {
+        const title = context.query.get('title');
+        const state = context.query.get('state');
+        return this.paginate(context, this.milestones
+          .filter(milestone => !title || milestone.title === title)
+          .filter(milestone => !state || milestone.state === state));
+      }),
+      route('POST', '/milestones', context => {
+        const { title } = asObject(context.body);
+        if (typeof title !== 'string' || !title) {
+          return badRequest('title is missing');
+        }
+        if (this.milestones.some(milestone => milestone.title === title)) {
+          return badRequest('Failed to create milestone. Title has already been taken');
+        }
+        const milestone: FakeGitLabMilestone = { id: 100 + this.milestones.length + 1, title, state: 'active' };
+        this.milestones.push(milestone);
+        return { status: 201, body: milestone };
+      }),
+      route('GET', '/repository/blobs/([0-9a-f]{40})/raw', context => {
+        const content = this.blobs.get(context.params[0]);
+        return content === undefined ? { status: 404, body: { message: '404 Blob Not Found' } } : { status: 200, text: content };
+      })
+    ];
+  }
+
+  /**
+   * Start listening on localhost
+   * @returns The API root to configure GitLabIssueService with (`…/api/v4`)
+   */
+  async start(port: number = 0): Promise<string> {
+    this.server = http.createServer((request, response) => this.handle(request, response));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+    logger.info(`🧪 Fake GitLab API listening on ${this.baseUrl} for ${this.projectPath}`, {
+      action: 'fake_gitlab_started',
+      baseUrl: this.baseUrl
+    });
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+  }
+
+  get baseUrl(): string {
+    if (!this.server) {
+      throw new Error('Fake GitLab server is not running');
+    }
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}${API_PREFIX}`;
+  }
+
+  // Helper methods for testing - not part of the GitLab API
+
+  /**
+   * Store file content so it can be read back as a repository blob, as if it had been pushed
+   * @returns The blob sha
+   */
+  addBlob(content: string): string {
+    const sha = gitBlobSha(content);
+    this.blobs.set(sha, content);
+    return sha;
+  }
+
+  /**
+   * Create an issue directly, e.g. one filed by hand
+   */
+  seedIssue(issue: Partial<FakeGitLabIssue> & { title: string }): FakeGitLabIssue {
+    const iid = this.issues.size + 1;
+    const now = new Date().toISOString();
+    const seeded: FakeGitLabIssue = {
+      iid,
+      description: '',
+      state: 'opened',
+      labels: [],
+      milestoneId: null,
+      created_at: now,
+      updated_at: now,
+      ...issue
+    };
+    this.issues.set(iid, seeded);
+    return seeded;
+  }
+
+  /**
+   * Answer the next `count` requests with an error, e.g. 429 with `retry-after` to simulate rate limits
+   */
+  failNextRequests(count: number, status: number = 429, headers: Record<string, string> = { 'retry-after': '0' }): void {
+    for (let i = 0; i < count; i++) {
+      this.failures.push({ status, headers });
+    }
+  }
+
+  getIssues(): FakeGitLabIssue[] {
+    return Array.from(this.issues.values());
+  }
+
+  getNotes(issueIid?: number): FakeGitLabNote[] {
+    return this.notes.filter(note => issueIid === undefined || note.issueIid === issueIid);
+  }
+
+  getMilestones(): FakeGitLabMilestone[] {
+    return [...this.milestones];
+  }
+
+  getRequests(): FakeGitLabRequest[] {
+    return [...this.requests];
+  }
+
+  reset(): void {
+    this.issues.clear();
+    this.notes = [];
+    this.milestones = [];
+    this.blobs.clear();
+    this.failures = [];
+    this.requests = [];
+    this.nextNoteId = 1;
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const method = request.method || 'GET';
+    const url = new URL(request.url || '/', request.headers.host ? `http://${request.headers.host}` : 'http://127.0.0.1');
+
+    let result: RouteResult;
+    try {
+      const failure = this.failures.shift();
+      if (failure) {
+        result = { status: failure.status, headers: failure.headers, body: { message: `${failure.status} (simulated)` } };
+      } else {
+        const rawBody = await this.readBody(request);
+        result = this.route(method, url, rawBody ? JSON.parse(rawBody) : {});
+      }
+    } catch (error) {
+      result = badRequest(`Invalid request: ${(error as Error).message}`);
+    }
+
+    this.requests.push({ method, path: `${url.pathname}${url.search}`, status: result.status });
+    logger.debug('Fake GitLab request', { action: 'fake_gitlab_request', method, path: url.pathname, status: result.status });
+    if (result.text !== undefined) {
+      response.writeHead(result.status, { 'content-type': 'text/plain; charset=utf-8', ...result.headers });
+      response.end(result.text);
+      return;
+    }
+    response.writeHead(result.status, { 'content-type': 'application/json', ...result.headers });
+    response.end(result.body === undefined ? '' : JSON.stringify(result.body));
+  }
+
+  private readBody(request: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      request.on('data', chunk => chunks.push(chunk));
+      request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      request.on('error', reject);
+    });
+  }
+
+  private route(method: string, url: URL, body: unknown): RouteResult {
+    // The project is addressed by id or by its URL-encoded path
+    const project = url.pathname.match(new RegExp(`^${API_PREFIX}/projects/([^/]+)(/.*)$`));
+    if (!project || ![String(this.projectId), this.projectPath].includes(decodeURIComponent(project[1]))) {
+      return { status: 404, body: { message: '404 Project Not Found' } };
+    }
+
+    for (const { method: routeMethod, pattern, handler } of this.routes) {
+      const match = project[2].match(pattern);
+      if (match && routeMethod === method) {
+        return handler({ params: match.slice(1), query: url.searchParams, body, origin: url.origin });
+      }
+    }
+    return { status: 404, body: { error: '404 Not Found' } };
+  }
+
+  private withIssue(context: RouteContext, handler: (issue: FakeGitLabIssue) => RouteResult): RouteResult {
+    const issue = this.issues.get(Number(context.params[0]));
+    return issue ? handler(issue) : { status: 404, body: { message: '404 Not found' } };
+  }
+
+  /**
+   * Slice a result list by `per_page`/`page` and add the pagination headers GitLab sends
+   */
+  private paginate(context: RouteContext, items: unknown[]): RouteResult {
+    const perPage = Math.min(Number(context.query.get('per_page')) || 20, 100);
+    const page = Math.max(Number(context.query.get('page')) || 1, 1);
+    const totalPages = Math.max(Math.ceil(items.length / perPage), 1);
+
+    return {
+      status: 200,
+      body: items.slice((page - 1) * perPage, page * perPage),
+      headers: {
+        'x-page': String(page),
+        'x-per-page': String(perPage),
+        'x-total': String(items.length),
+        'x-total-pages': String(totalPages),
+        'x-next-page': page < totalPages ? String(page + 1) : '',
+        'x-prev-page': page > 1 ? String(page - 1) : ''
+      }
+    };
+  }
+
+  private listIssues(context: RouteContext): RouteResult {
+    const state = context.query.get('state');
+    const labels = labelList(context.query.get('labels') || '');
+    const updatedAfter = context.query.get('updated_after');
+
+    const issues = this.getIssues()
+      .filter(issue => !state || state === 'all' || issue.state === state)
+      .filter(issue => labels.every(label => issue.labels.includes(label)))
+      .filter(issue => !updatedAfter || issue.updated_at >= updatedAfter)
+      .sort((a, b) => b.iid - a.iid)
+      .map(issue => this.toIssueJson(issue, context.origin));
+
+    return this.paginate(context, issues);
+  }
+
+  private createIssue(context: RouteContext): RouteResult {
+    const { title, description, labels, milestone_id } = asObject(context.body);
+    if (typeof title !== 'string' || !title) {
+      return badRequest('title is missing');
+    }
+    const issue = this.seedIssue({
+      title,
+      description: typeof description === 'string' ? description : '',
+      labels: labelList(labels),
+      milestoneId: typeof milestone_id === 'number' && this.milestones.some(milestone => milestone.id === milestone_id) ? milestone_id : null
+    });
+    return { status: 201, body: this.toIssueJson(issue, context.origin) };
+  }
+
+  private updateIssue(issue: FakeGitLabIssue, context: RouteContext): RouteResult {
+    const { title, description, labels, state_event, milestone_id } = asObject(context.body);
+    if (title !== undefined && typeof title !== 'string') {
+      return badRequest('title is invalid');
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      return badRequest('description is invalid');
+    }
+    if (state_event !== undefined && state_event !== 'close' && state_event !== 'reopen') {
+      return badRequest('state_event does not have a valid value');
+    }
+    // 0 and null unassign the milestone
+    const milestone = typeof milestone_id === 'number' ? this.milestones.find(candidate => candidate.id === milestone_id) : undefined;
+    if (milestone_id !== undefined && milestone_id !== null && milestone_id !== 0 && !milestone) {
+      return badRequest('milestone_id is invalid');
+    }
+
+    if (title !== undefined) {
+      issue.title = title;
+    }
+    if (description !== undefined) {
+      issue.description = description;
+    }
+    if (labels !== undefined) {
+      const updated = labelList(labels);
+      const added = updated.filter(label => !issue.labels.includes(label));
+      const removed = issue.labels.filter(label => !updated.includes(label));
+      if (added.length > 0) {
+        this.addNote(issue, `added ${added.map(label => `~${label}`).join(' ')} label${added.length > 1 ? 's' : ''}`, true);
+      }
+      if (removed.length > 0) {
+        this.addNote(issue, `removed ${removed.map(label => `~${label}`).join(' ')} label${removed.length > 1 ? 's' : ''}`, true);
+      }
+      issue.labels = updated;
+    }
+    if (state_event !== undefined) {
+      const state = state_event === 'close' ? 'closed' : 'opened';
+      if (issue.state !== state) {
+        issue.state = state;
+        this.addNote(issue, state === 'closed' ? 'closed' : 'reopened', true);
+      }
+    }
+    if (milestone_id !== undefined && (milestone?.id ?? null) !== issue.milestoneId) {
+      issue.milestoneId = milestone?.id ?? null;
+      this.addNote(issue, milestone ? `changed milestone to %"${milestone.title}"` : 'removed milestone', true);
+    }
+
+    issue.updated_at = new Date().toISOString();
+    return { status: 200, body: this.toIssueJson(issue, context.origin) };
+  }
+
+  private addNote(issue: FakeGitLabIssue, body: string, system: boolean): FakeGitLabNote {
+    const note: FakeGitLabNote = {
+      id: this.nextNoteId++,
+      issueIid: issue.iid,
+      body,
+      system,
+      author: 'project_bot',
+      created_at: new Date().toISOString()
+    };
+    this.notes.push(note);
+    return note;
+  }
+
+  private toIssueJson(issue: FakeGitLabIssue, origin: string): object {
+    const milestone = this.milestones.find(candidate => candidate.id === issue.milestoneId);
+    return {
+      id: 1000 + issue.iid,
+      iid: issue.iid,
+      project_id: this.projectId,
+      title: issue.title,
+      description: issue.description,
+      state: issue.state,
+      labels: issue.labels,
+      milestone: milestone ? { id: milestone.id, title: milestone.title, state: milestone.state } : null,
+      created_at: issue.created_at,
+      updated_at: issue.updated_at,
+      web_url: `${origin}/${this.projectPath}/-/issues/${issue.iid}`,
+      author: { username: 'project_bot' }
+    };
+  }
+
+  private toNoteJson(note: FakeGitLabNote): object {
+    return {
+      id: note.id,
+      body: note.body,
+      system: note.system,
+      created_at: note.created_at,
+      author: { username: note.author }
+    };
+  }
+}
@@ -0,0 +1,404 @@
+// services/testing/FakeJiraServer.ts
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createModuleLogger } from '../../utils/logger';
+import { JsonObject, asObject, asStringArray } from './requestBody';
+
+// Create module-specific logger
+const logger = createModuleLogger('FakeJiraServer');
+
+export type FakeJiraStatusCategory = 'new' | 'indeterminate' | 'done';
+
+export interface FakeJiraIssue {
+  key: string;
+  number: number;
+  /** Fields as sent by the client, including custom fields such as story points */
+  fields: JsonObject;
+  statusCategory: FakeJiraStatusCategory;
+  properties: Record<string, unknown>;
+  created: string;
+  updated: string;
+}
+
+export interface FakeJiraComment {
+  id: number;
+  issueKey: string;
+  body: string;
+  author: string;
+  created: string;
+}
+
+export interface FakeJiraRequest {
+  method: string;
+  path: string;
+  status: number;
+}
+
+interface RouteContext {
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+}
+
+type RouteResult = { status: number; body?: unknown; headers?: Record<string, string> };
+type RouteHandler = (context: RouteContext) => RouteResult;
+
+// One status per category; every status can be reached from every other one
+const STATUSES: Record<FakeJiraStatusCategory, { transitionId: string; name: string }> = {
+  new: { transitionId: '11', name: 'To Do' },
+  indeterminate: { transitionId: '21', name: 'In Progress' },
+  done: { transitionId: '31', name: 'Done' }
+};
+
+/**
+ * In-process stand-in for the subset of the Jira REST API (v2) used by JiraIssueService: issues with
+ * their fields, issue properties, workflow transitions, comments, project versions and JQL search
+ * (only the clauses the service generates). Both the offset (/search) and token (/search/jql) paginations are served.
+ */
+export class FakeJiraServer {
+  readonly projectKey: string;
+  private server: http.Server | null = null;
+  private issues: Map<string, FakeJiraIssue> = new Map();
+  private comments: FakeJiraComment[] = [];
+  private versions: string[] = [];
+  private failures: Array<{ status: number; headers: Record<string, string> }> = [];
+  private requests: FakeJiraRequest[] = [];
+  private nextCommentId = 10000;
+  private routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler }>;
+
+  constructor(options: { projectKey?: string } = {}) {
+    this.projectKey = options.projectKey || 'PRD';
+
+    const route = (method: string, path: string, handler: RouteHandler) => ({
+      method,
+      pattern: new RegExp(`^/rest/api/2${path}$`),
+      handler
+    });
+    const issuePath = '/issue/([A-Z][A-Z0-9]*-\\d+)';
+
+    this.routes = [
+      route('POST', '/issue', context => this.createIssue(context)),
+      route('GET', issuePath, context => this.withIssue(context, issue => ({ status: 200, body: this.toIssueJson(issue, context.query) }))),
+      route('PUT', issuePath, context => this.withIssue(context, issue => {
+        this.touch(issue, asObject(asObject(context.body).fields));
+        return { status: 204 };
+      })),
+      route('GET', `${issuePath}/properties/([\\w.-]+)`, context => this.withIssue(context, issue =>
+        context.params[1] in issue.properties
+          ? { status: 200, body: { key: context.params[1], value: issue.properties[context.params[1]] } }
+          : { status: 404, body: { errorMessages: ['Property not found'] } })),
+      route('PUT', `${issuePath}/properties/([\\w.-]+)`, context => this.withIssue(context, issue => {
+        issue.properties[context.params[1]] = context.body;
+        return { status: 200 };
+      })),
+      route('DELETE', `${issuePath}/properties/([\\w.-]+)`, context => this.withIssue(context, issue => {
+        if (!(context.params[1] in issue.properties)) {
+          return { status: 404, body: { errorMessages: ['Property not found'] } };
+        }
+        delete issue.properties[context.params[1]];
+        return { status: 204 };
+      })),
+      route('GET', `${issuePath}/transitions`, context => this.withIssue(context, issue => ({
+        status: 200,
+        body: {
+          transitions: (Object.keys(STATUSES) as FakeJiraStatusCategory[])
+            .filter(category => category !== issue.statusCategory)
+            .map(category => ({ id: STATUSES[category].transitionId, name: STATUSES[category].name, to: this.toStatusJson(category) }))
+        }
+      }))),
+      route('POST', `${issuePath}/transitions`, context => this.withIssue(context, issue => {
+        const category = (Object.keys(STATUSES) as FakeJiraStatusCategory[])
+          .find(candidate => STATUSES[candidate].transitionId === asObject(asObject(context.body).transition).id);
+        if (!category || category === issue.statusCategory) {
+          return { status: 400, body: { errorMessages: ['Transition is not valid for this issue'] } };
+        }
+        issue.statusCategory = category;
+        this.touch(issue, {});
+        return { status: 204 };
+      })),
+      route('GET', `${issuePath}/comment`, context => this.withIssue(context, issue => {
+        const comments = this.getComments(issue.number);
+        const startAt = Number(context.query.get('startAt')) || 0;
+        const maxResults = Number(context.query.get('maxResults')) || 50;
+        return {
+          status: 200,
+          body: {
+            startAt,
+            maxResults,
+            total: comments.length,
+            comments: comments.slice(startAt, startAt + maxResults).map(comment => this.toCommentJson(comment))
+          }
+        };
+      })),
+      route('POST', `${issuePath}/comment`, context => this.withIssue(context, issue => {
+        const { body } = asObject(context.body);
+        if (typeof body !== 'string') {
+          return { status: 400, body: { errorMessages: [], errors: { comment: 'Comment body can not be empty!' } } };
+        }
+        const comment: FakeJiraComment = {
+          id: this.nextCommentId++,
+          issueKey: issue.key,
+          body,
+          author: 'PRD Automation',
+          created: new Date().toISOString()
+        };
+        this.comments.push(comment);
+        return { status: 201, body: this.toCommentJson(comment) };
+      })),
+      route('POST', '/search', context => this.search(context, 'offset')),
+      route('POST', '/search/jql', context => this.search(context, 'token')),
+      route('GET', '/project/([A-Z][A-Z0-9]*)/versions', () => ({
+        status: 200,
+        body: this.versions.map((name, index) => ({ id: String(index + 1), name }))
+      })),
+      route('POST', '/version', context => {
+        const { name } = asObject(context.body);
+        if (typeof name !== 'string' || !name) {
+          return { status: 400, body: { errors: { name: 'You must specify a valid version name' } } };
+        }
+        if (this.versions.includes(name)) {
+          return { status: 400, body: { errors: { name: 'A version with this name already exists in this project.' } } };
+        }
+        this.versions.push(name);
+        return { status: 201, body: { id: String(this.versions.length), name } };
+      })
+    ];
+  }
+
+  /**
+   * Start listening on localhost
+   * @returns The base URL to configure JiraIssueService with
+   */
+  async start(port: number = 0): Promise<string> {
+    this.server = http.createServer((request, response) => this.handle(request, response));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+    logger.info(`🧪 Fake Jira API listening on ${this.baseUrl} for project ${this.projectKey}`, {
+      action: 'fake_jira_started',
+      baseUrl: this.baseUrl
+    });
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+  }
+
+  get baseUrl(): string {
+    if (!this.server) {
+      throw new Error('Fake Jira server is not running');
+    }
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  // Helper methods for testing - not part of the Jira API
+
+  /**
+   * Create an issue directly, e.g. one filed by hand
+   */
+  seedIssue(fields: JsonObject & { summary: string }, statusCategory: FakeJiraStatusCategory = 'new'): FakeJiraIssue {
+    const number = this.issues.size + 1;
+    const now = new Date().toISOString();
+    const issue: FakeJiraIssue = {
+      key: `${this.projectKey}-${number}`,
+      number,
+      fields: { labels: [], description: '', ...fields },
+      statusCategory,
+      properties: {},
+      created: now,
+      updated: now
+    };
+    this.issues.set(issue.key, issue);
+    return issue;
+  }
+
+  /**
+   * Answer the next `count` requests with an error, e.g. 429 with `retry-after` to simulate rate limits
+   */
+  failNextRequests(count: number, status: number = 429, headers: Record<string, string> = { 'retry-after': '0' }): void {
+    for (let i = 0; i < count; i++) {
+      this.failures.push({ status, headers });
+    }
+  }
+
+  getIssues(): FakeJiraIssue[] {
+    return Array.from(this.issues.values());
+  }
+
+  getComments(issueNumber?: number): FakeJiraComment[] {
+    return this.comments.filter(comment => issueNumber === undefined || comment.issueKey === `${this.projectKey}-${issueNumber}`);
+  }
+
+  getVersions(): string[] {
+    return [...this.versions];
+  }
+
+  getRequests(): FakeJiraRequest[] {
+    return [...this.requests];
+  }
+
+  reset(): void {
+    this.issues.clear();
+    this.comments = [];
+    this.versions = [];
+    this.failures = [];
+    this.requests = [];
+    this.nextCommentId = 10000;
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const method = request.method || 'GET';
+    const url = new URL(request.url || '/', 'http://127.0.0.1');
+
+    let result: RouteResult;
+    try {
+      const failure = this.failures.shift();
+      if (failure) {
+        result = { status: failure.status, headers: failure.headers, body: { errorMessages: ['Rate limit exceeded (simulated)'] } };
+      } else {
+        const rawBody = await this.readBody(request);
+        result = this.route(method, url, rawBody ? JSON.parse(rawBody) : {});
+      }
+    } catch (error) {
+      result = { status: 400, body: { errorMessages: [`Invalid request: ${(error as Error).message}`] } };
+    }
+
+    this.requests.push({ method, path: `${url.pathname}${url.search}`, status: result.status });
+    logger.debug('Fake Jira request', { action: 'fake_jira_request', method, path: url.pathname, status: result.status });
+    response.writeHead(result.status, { 'content-type': 'application/json;charset=UTF-8', ...result.headers });
+    response.end(result.body === undefined ? '' : JSON.stringify(result.body));
+  }
+
+  private readBody(request: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      request.on('data', chunk => chunks.push(chunk));
+      request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      request.on('error', reject);
+    });
+  }
+
+  private route(method: string, url: URL, body: unknown): RouteResult {
+    for (const { method: routeMethod, pattern, handler } of this.routes) {
+      const match = url.pathname.match(pattern);
+      if (match && routeMethod === method) {
+        return handler({ params: match.slice(1), query: url.searchParams, body });
+      }
+    }
+    return { status: 404, body: { errorMessages: ['Not Found'] } };
+  }
+
+  private withIssue(context: RouteContext, handler: (issue: FakeJiraIssue) => RouteResult): RouteResult {
+    const issue = this.issues.get(context.params[0]);
+    return issue ? handler(issue) : { status: 404, body: { errorMessages: ['Issue does not exist or you do not have permission to see it.'] } };
+  }
+
+  private createIssue({ body }: RouteContext): RouteResult {
+    const { project, summary, ...otherFields } = asObject(asObject(body).fields);
+    const errors: Record<string, string> = {};
+    if (asObject(project).key !== this.projectKey) {
+      errors.project = 'valid project is required';
+    }
+    if (typeof summary !== 'string' || !summary) {
+      errors.summary = 'You must specify a summary of the issue.';
+    }
+    if (!asObject(otherFields.issuetype).name) {
+      errors.issuetype = 'valid issue type is required';
+    }
+    if (Object.keys(errors).length > 0) {
+      return { status: 400, body: { errorMessages: [], errors } };
+    }
+
+    const issue = this.seedIssue({ ...otherFields, summary: String(summary) });
+    return { status: 201, body: { id: String(10000 + issue.number), key: issue.key } };
+  }
+
+  /**
+   * JQL subset: `project = "X"`, `statusCategory = Done` / `!= Done`, `labels = "x"` and
+   * `updated >= "yyyy-MM-dd HH:mm"` joined by AND, ordered newest first. String literals may escape
+   * quotes and backslashes with a backslash.
+   */
+  private search(context: RouteContext, pagination: 'offset' | 'token'): RouteResult {
+    const body = asObject(context.body);
+    const condition = String(body.jql || '').split(/\s+ORDER BY\s+/i)[0].trim();
+    let issues = this.getIssues().sort((a, b) => b.number - a.number);
+
+    const clausePattern = /\s*(\w+)\s*(=|!=|>=)\s*("(?:[^"\\]|\\.)*"|[^\s"]+)\s*(?:AND\s+|$)/iy;
+    for (let position = 0; position < condition.length;) {
+      clausePattern.lastIndex = position;
+      const match = clausePattern.exec(condition);
+      if (!match) {
+        return { status: 400, body: { errorMessages: [`Unsupported JQL clause: ${condition.substring(position)}`] } };
+      }
+      position = clausePattern.lastIndex;
+      const [, field, operator, literal] = match;
+      const value = literal.startsWith('"') ? literal.slice(1, -1).replace(/\\(.)/g, '$1') : literal;
+      if (field === 'project') {
+        issues = value === this.projectKey ? issues : [];
+      } else if (field === 'statusCategory') {
+        const done = (operator === '=') === (value.toLowerCase() === 'done');
+        issues = issues.filter(issue => (issue.statusCategory === 'done') === done);
+      } else if (field === 'labels') {
+        issues = issues.filter(issue => asStringArray(issue.fields.labels).includes(value));
+      } else if (field === 'updated') {
+        issues = issues.filter(issue => issue.updated.substring(0, 16).replace('T', ' ') >= value);
+      } else {
+        return { status: 400, body: { errorMessages: [`Field '${field}' is not supported`] } };
+      }
+    }
+
+    const maxResults = Math.min(Number(body.maxResults) || 50, 100);
+    const startAt = pagination === 'token' ? Number(body.nextPageToken) || 0 : Number(body.startAt) || 0;
+    const query = new URLSearchParams({ properties: asStringArray(body.properties).join(',') });
+    const page = issues.slice(startAt, startAt + maxResults).map(issue => this.toIssueJson(issue, query));
+
+    if (pagination === 'token') {
+      const nextPageToken = startAt + maxResults < issues.length ? String(startAt + maxResults) : undefined;
+      return { status: 200, body: { issues: page, ...(nextPageToken && { nextPageToken }), isLast: !nextPageToken } };
+    }
+    return { status: 200, body: { startAt, maxResults, total: issues.length, issues: page } };
+  }
+
+  private touch(issue: FakeJiraIssue, fields: JsonObject): void {
+    Object.assign(issue.fields, fields);
+    issue.updated = new Date().toISOString();
+  }
+
+  private toStatusJson(category: FakeJiraStatusCategory): object {
+    return { name: STATUSES[category].name, statusCategory: { key: category } };
+  }
+
+  private toIssueJson(issue: FakeJiraIssue, query: URLSearchParams): object {
+    const properties = (query.get('properties') || '').split(',').filter(name => name in issue.properties);
+    return {
+      id: String(10000 + issue.number),
+      key: issue.key,
+      fields: {
+        ...issue.fields,
+        status: this.toStatusJson(issue.statusCategory),
+        created: issue.created,
+        updated: issue.updated
+      },
+      ...(properties.length > 0 && {
+        properties: Object.fromEntries(properties.map(name => [name, issue.properties[name]]))
+      })
+    };
+  }
+
+  private toCommentJson(comment: FakeJiraComment): object {
+    return {
+      id: String(comment.id),
+      body: comment.body,
+      created: comment.created,
+      author: { displayName: comment.author }
+    };
+  }
+}
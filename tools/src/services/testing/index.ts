@@ -0,0 +1,4 @@
+// services/testing/index.ts
+export * from './FakeGitHubServer';
+export * from './FakeGitLabServer';
+export * from './FakeJiraServer';
\ No newline at end of file
@@ -0,0 +1,18 @@
+// services/testing/requestBody.ts
+// Narrowing of the parsed JSON request bodies the fake servers receive
+
+export type JsonObject = Record<string, unknown>;
+
+/**
+ * The value when it is a JSON object, otherwise an empty object
+ */
+export function asObject(value: unknown): JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as JsonObject : {};
+}
+
+/**
+ * The strings of an array; anything else yields an empty array
+ */
+export function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
@@ -0,0 +1,2 @@
+// sync/index.ts
+export * from './issueSync';
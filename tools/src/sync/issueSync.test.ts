@@ -0,0 +1,117 @@
+// sync/issueSync.test.ts
+// IssueSynchronizer between two in-memory services
+
+import { test, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IssueSynchronizer, IssueSyncOptions, loadSyncMapping } from './issueSync';
+import { InMemoryIssueService } from '../services/implementations/InMemoryIssueService';
+
+let source: InMemoryIssueService;
+let target: InMemoryIssueService;
+let mappingPath: string;
+
+const synchronizer = (options: IssueSyncOptions = {}) =>
+  new IssueSynchronizer(source, target, mappingPath, { incremental: false, ...options });
+
+beforeEach(() => {
+  source = new InMemoryIssueService();
+  target = new InMemoryIssueService();
+  mappingPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'issue-sync-')), 'mapping.json');
+});
+
+test('mirrors new issues both ways and records the pairs', async () => {
+  await source.createIssue({ title: 'Login', body: 'Users log in', labels: ['prd:auth'] });
+  await target.createIssue({ title: 'Logout', body: 'Users log out', labels: [] });
+
+  const result = await synchronizer().sync();
+
+  assert.deepEqual(result.created.map(issue => `${issue.from}#${issue.issueNumber}`).sort(), ['source#1', 'target#1']);
+  assert.deepEqual((await target.getIssues()).map(issue => issue.title).sort(), ['Login', 'Logout']);
+  assert.deepEqual((await source.getIssues()).map(issue => issue.title).sort(), ['Login', 'Logout']);
+  assert.equal(loadSyncMapping(mappingPath).pairs.length, 2);
+
+  const again = await synchronizer().sync();
+
+  assert.equal(again.created.length, 0);
+  assert.equal(again.updated.length, 0);
+  assert.equal(again.unchanged, 2);
+});
+
+test('mirrors edits and comments from either side', async () => {
+  await source.createIssue({ title: 'Login', body: 'Users log in', labels: [] });
+  await synchronizer().sync();
+
+  await target.updateIssue(1, { title: 'Sign in', state: 'closed' });
+  await target.addComment(1, 'Done in #42');
+  const result = await synchronizer().sync();
+
+  const mirrored = await source.getIssue(1);
+  assert.deepEqual(result.updated.map(issue => issue.from), ['target']);
+  assert.equal(mirrored?.title, 'Sign in');
+  assert.equal(mirrored?.state, 'closed');
+  assert.match((mirrored?.comments || []).slice(-1)[0]?.body || '', /on target #1[\s\S]*Done in #42/);
+});
+
+test('does not mirror target edits in a one-way sync', async () => {
+  await source.createIssue({ title: 'Login', body: 'Users log in', labels: [] });
+  await synchronizer({ twoWay: false }).sync();
+
+  await target.updateIssue(1, { title: 'Sign in' });
+  await synchronizer({ twoWay: false }).sync();
+
+  assert.equal((await source.getIssue(1))?.title, 'Login');
+});
+
+test('reports issues edited on both sides until the conflict is resolved', async () => {
+  await source.createIssue({ title: 'Login', body: 'Users log in', labels: [] });
+  await synchronizer().sync();
+  await source.updateIssue(1, { title: 'Log in' });
+  await target.updateIssue(1, { title: 'Sign in' });
+
+  const skipped = await synchronizer().sync();
+
+  assert.equal(skipped.conflicts.length, 1);
+  assert.equal(skipped.conflicts[0].resolvedWith, undefined);
+  assert.equal((await source.getIssue(1))?.title, 'Log in');
+  assert.equal((await target.getIssue(1))?.title, 'Sign in');
+  assert.equal(loadSyncMapping(mappingPath).pairs[0].conflict, true);
+
+  const resolved = await synchronizer({ conflictStrategy: 'source' }).sync();
+
+  assert.equal(resolved.conflicts[0].resolvedWith, 'source');
+  assert.equal((await target.getIssue(1))?.title, 'Log in');
+  assert.equal(loadSyncMapping(mappingPath).pairs[0].conflict, undefined);
+});
+
+test('writes nothing in a dry run', async () => {
+  await source.createIssue({ title: 'Login', body: 'Users log in', labels: [] });
+
+  const result = await synchronizer({ dryRun: true }).sync();
+
+  assert.equal(result.created.length, 1);
+  assert.deepEqual(await target.getIssues(), []);
+  assert.equal(fs.existsSync(mappingPath), false);
+});
+
+test('keeps the mirrors of a failed run, so the next run does not create them again', async () => {
+  await source.createIssue({ title: 'Login', body: 'Users log in', labels: [] });
+  await source.createIssue({ title: 'Logout', body: 'Users log out', labels: [] });
+  const createIssue = target.createIssue.bind(target);
+  let calls = 0;
+  target.createIssue = async issue => {
+    if (++calls === 2) {
+      throw new Error('Service unavailable');
+    }
+    return createIssue(issue);
+  };
+
+  await assert.rejects(synchronizer().sync(), /Service unavailable/);
+  target.createIssue = createIssue;
+  await synchronizer().sync();
+
+  assert.deepEqual((await target.getIssues()).map(issue => issue.title).sort(), ['Login', 'Logout']);
+  assert.equal(loadSyncMapping(mappingPath).pairs.length, 2);
+});
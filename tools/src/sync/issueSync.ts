@@ -0,0 +1,453 @@
+// sync/issueSync.ts
+// Mirrors issues between two issue services. Synced pairs are kept in a mapping file together with a
+// fingerprint of each side at the last sync, which tells which side was edited since (or both: a conflict).
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { IIssueService, Issue, IssueUpdate, Comment } from '../services/interfaces/IIssueService';
+import { readIssueMetadata, writeIssueMetadata, IssueMetadata } from '../utils/issueMetadata';
+import { generateContentHash } from '../utils/hash';
+import { createModuleLogger } from '../utils/logger';
+
+// Create module-specific logger
+const logger = createModuleLogger('IssueSync');
+
+export const DEFAULT_SYNC_MAPPING_PATH = '.issue-sync.json';
+
+export type SyncSide = 'source' | 'target';
+
+/**
+ * What to do with a pair edited on both sides: report it (`skip`) or let one side win
+ */
+export type SyncConflictStrategy = 'skip' | SyncSide;
+
+export interface SyncedIssuePair {
+  source: number;
+  target: number;
+  /** Fingerprints of both sides after the last sync */
+  sourceFingerprint: string;
+  targetFingerprint: string;
+  /** Comments on each side after the last sync, originals and mirrored copies (see commentKey) */
+  sourceComments: string[];
+  targetComments: string[];
+  syncedAt: string;
+  /** Edited on both sides and not resolved yet; revisited on every run until it is */
+  conflict?: boolean;
+}
+
+export interface SyncMapping {
+  /** Names of the synced services, to catch a mapping file used with other services */
+  source?: string;
+  target?: string;
+  /** Start of the last completed sync, the `since` of the next incremental run */
+  lastSyncedAt?: string;
+  pairs: SyncedIssuePair[];
+}
+
+export interface IssueSyncOptions {
+  /** Also mirror target edits, comments and issues back to the source (default true) */
+  twoWay?: boolean;
+  /** Only look at issues updated since the last sync (default true) */
+  incremental?: boolean;
+  /** Default skip */
+  conflictStrategy?: SyncConflictStrategy;
+  /** Report what would be synced without writing to either service or the mapping file */
+  dryRun?: boolean;
+  /** Names used in mirrored comments and recorded in the mapping file */
+  sourceName?: string;
+  targetName?: string;
+}
+
+export interface SyncConflict {
+  source: number;
+  target: number;
+  title: string;
+  /** Side whose edits were applied, when a conflict strategy resolved it */
+  resolvedWith?: SyncSide;
+}
+
+export interface SyncedIssue {
+  /** Side the content was copied from */
+  from: SyncSide;
+  issueNumber: number;
+  /** Number on the other side; 0 for issues a dry run would create */
+  mirroredNumber: number;
+  title: string;
+}
+
+export interface IssueSyncResult {
+  created: SyncedIssue[];
+  updated: SyncedIssue[];
+  mirroredComments: number;
+  mirroredPRDVersions: number;
+  conflicts: SyncConflict[];
+  /** Mapped issues that no longer exist on one side */
+  missing: Array<{ side: SyncSide; issueNumber: number }>;
+  unchanged: number;
+}
+
+export function loadSyncMapping(mappingPath: string): SyncMapping {
+  if (!fs.existsSync(mappingPath)) {
+    return { pairs: [] };
+  }
+  return JSON.parse(fs.readFileSync(mappingPath, 'utf8')) as SyncMapping;
+}
+
+export function saveSyncMapping(mappingPath: string, mapping: SyncMapping): void {
+  fs.mkdirSync(path.dirname(path.resolve(mappingPath)), { recursive: true });
+  fs.writeFileSync(mappingPath, JSON.stringify(mapping, null, 2));
+}
+
+/**
+ * Metadata that is copied between services. Links refer to issue numbers of one service and the PRD
+ * version reference is mirrored separately, so both stay with the side they belong to.
+ */
+function syncedMetadata(body: string): IssueMetadata {
+  const { links, prdVersion, ...metadata } = readIssueMetadata(body);
+  return metadata;
+}
+
+/**
+ * Body to write to the other side: the synced content, keeping that side's own links and PRD version
+ */
+function mirrorBody(fromBody: string, toBody: string): string {
+  const { links, prdVersion } = readIssueMetadata(toBody);
+  return writeIssueMetadata(fromBody, {
+    ...syncedMetadata(fromBody),
+    ...(links && { links }),
+    ...(prdVersion && { prdVersion })
+  });
+}
+
+/**
+ * Hash of the synced fields of an issue
+ */
+export function issueFingerprint(issue: Issue): string {
+  return generateContentHash(JSON.stringify({
+    title: issue.title,
+    body: writeIssueMetadata(issue.body, syncedMetadata(issue.body)).trim(),
+    labels: [...issue.labels].sort(),
+    state: issue.state,
+    milestone: issue.milestone || null
+  }));
+}
+
+/**
+ * Identity of a comment; comment ids are optional and differ per service
+ */
+export function commentKey(comment: Comment): string {
+  return generateContentHash(`${comment.author}\n${comment.created_at}\n${comment.body}`);
+}
+
+export class IssueSynchronizer {
+  private services: Record<SyncSide, IIssueService>;
+  private names: Record<SyncSide, string>;
+  private mappingPath: string;
+  private twoWay: boolean;
+  private incremental: boolean;
+  private conflictStrategy: SyncConflictStrategy;
+  private dryRun: boolean;
+  private result: IssueSyncResult = IssueSynchronizer.emptyResult();
+
+  constructor(source: IIssueService, target: IIssueService, mappingPath: string = DEFAULT_SYNC_MAPPING_PATH, options: IssueSyncOptions = {}) {
+    this.services = { source, target };
+    this.names = { source: options.sourceName || 'source', target: options.targetName || 'target' };
+    this.mappingPath = mappingPath;
+    this.twoWay = options.twoWay ?? true;
+    this.incremental = options.incremental ?? true;
+    this.conflictStrategy = options.conflictStrategy || 'skip';
+    this.dryRun = options.dryRun ?? false;
+  }
+
+  private static emptyResult(): IssueSyncResult {
+    return { created: [], updated: [], mirroredComments: 0, mirroredPRDVersions: 0, conflicts: [], missing: [], unchanged: 0 };
+  }
+
+  async sync(): Promise<IssueSyncResult> {
+    this.result = IssueSynchronizer.emptyResult();
+    const mapping = loadSyncMapping(this.mappingPath);
+    if ((mapping.source && mapping.source !== this.names.source) || (mapping.target && mapping.target !== this.names.target)) {
+      throw new Error(`Sync mapping ${this.mappingPath} belongs to ${mapping.source} -> ${mapping.target}, not ${this.names.source} -> ${this.names.target}`);
+    }
+
+    const startedAt = new Date().toISOString();
+    const since = this.incremental ? mapping.lastSyncedAt : undefined;
+    logger.info(`🔄 Syncing ${this.names.source} -> ${this.names.target}${this.twoWay ? ' (two-way)' : ''}${since ? ` since ${since}` : ''}${this.dryRun ? ' [dry run]' : ''}`, {
+      action: 'sync_started',
+      since,
+      pairs: mapping.pairs.length
+    });
+
+    const changed: Record<SyncSide, Issue[]> = {
+      source: await this.services.source.getIssues({ state: 'all', since }),
+      target: this.twoWay ? await this.services.target.getIssues({ state: 'all', since }) : []
+    };
+    const changedNumbers = {
+      source: new Set(changed.source.map(issue => issue.number)),
+      target: new Set(changed.target.map(issue => issue.number))
+    };
+
+    // Progress is saved after every issue, so a run failing midway does not forget the mirrors it
+    // created; lastSyncedAt only moves once the whole run succeeded
+    const save = (lastSyncedAt = mapping.lastSyncedAt) => {
+      if (!this.dryRun) {
+        saveSyncMapping(this.mappingPath, { ...mapping, source: this.names.source, target: this.names.target, lastSyncedAt });
+      }
+    };
+
+    for (const pair of mapping.pairs) {
+      if (since && !pair.conflict && !changedNumbers.source.has(pair.source) && !changedNumbers.target.has(pair.target)) {
+        this.result.unchanged++;
+        continue;
+      }
+      await this.syncPair(pair);
+      save();
+    }
+
+    const sides: SyncSide[] = this.twoWay ? ['source', 'target'] : ['source'];
+    for (const side of sides) {
+      const mapped = new Set(mapping.pairs.map(pair => pair[side]));
+      for (const issue of changed[side].filter(candidate => !mapped.has(candidate.number))) {
+        await this.createMirror(side, issue.number, pair => {
+          mapping.pairs.push(pair);
+          save();
+        });
+        save();
+      }
+    }
+
+    save(startedAt);
+
+    logger.info(`✅ Sync finished: ${this.result.created.length} created, ${this.result.updated.length} updated, ${this.result.mirroredComments} comments, ${this.result.conflicts.length} conflicts`, {
+      action: 'sync_completed',
+      created: this.result.created.length,
+      updated: this.result.updated.length,
+      mirroredComments: this.result.mirroredComments,
+      mirroredPRDVersions: this.result.mirroredPRDVersions,
+      conflicts: this.result.conflicts.length,
+      missing: this.result.missing.length,
+      unchanged: this.result.unchanged
+    });
+    return this.result;
+  }
+
+  private other(side: SyncSide): SyncSide {
+    return side === 'source' ? 'target' : 'source';
+  }
+
+  /**
+   * Create the counterpart of an unmapped issue on the other side
+   * @param onCreated Receives the pair as soon as the mirror exists; it is completed in place afterwards
+   */
+  private async createMirror(side: SyncSide, issueNumber: number, onCreated: (pair: SyncedIssuePair) => void): Promise<void> {
+    const issue = await this.services[side].getIssue(issueNumber);
+    if (!issue) {
+      return;
+    }
+
+    const otherSide = this.other(side);
+    const mirrored: SyncedIssue = { from: side, issueNumber, mirroredNumber: 0, title: issue.title };
+    this.result.created.push(mirrored);
+    logger.info(`➕ ${this.names[side]} #${issueNumber} -> ${this.names[otherSide]}: ${issue.title}`, { action: 'sync_issue_created', side, issueNumber });
+    if (this.dryRun) {
+      this.result.mirroredComments += (issue.comments || []).length;
+      return;
+    }
+
+    const service = this.services[otherSide];
+    mirrored.mirroredNumber = await service.createIssue({ title: issue.title, body: mirrorBody(issue.body, ''), labels: issue.labels });
+    const numbers = { [side]: issueNumber, [otherSide]: mirrored.mirroredNumber } as Record<SyncSide, number>;
+
+    // Until the mirror is complete the original counts as changed and its comments as not mirrored,
+    // so a run failing below is completed by the next one instead of creating a second mirror
+    const pair = await this.recordPair(numbers);
+    if (side === 'source') {
+      Object.assign(pair, { sourceFingerprint: '', sourceComments: [] });
+    } else {
+      Object.assign(pair, { targetFingerprint: '', targetComments: [] });
+    }
+    onCreated(pair);
+
+    if (issue.state === 'closed' || issue.milestone) {
+      await service.updateIssue(mirrored.mirroredNumber, {
+        ...(issue.state === 'closed' && { state: 'closed' as const }),
+        ...(issue.milestone && { milestone: issue.milestone })
+      });
+    }
+
+    for (const comment of issue.comments || []) {
+      await this.mirrorComment(side, issueNumber, comment, numbers[otherSide]);
+    }
+    await this.syncPRDVersion(numbers);
+
+    Object.assign(pair, await this.recordPair(numbers));
+  }
+
+  private async syncPair(pair: SyncedIssuePair): Promise<void> {
+    const issues: Record<SyncSide, Issue | null> = {
+      source: await this.services.source.getIssue(pair.source),
+      target: await this.services.target.getIssue(pair.target)
+    };
+    for (const side of ['source', 'target'] as SyncSide[]) {
+      if (!issues[side]) {
+        this.result.missing.push({ side, issueNumber: pair[side] });
+        logger.warn(`⚠️ ${this.names[side]} #${pair[side]} no longer exists; mirror left untouched`, { action: 'sync_issue_missing', side, issueNumber: pair[side] });
+      }
+    }
+    if (!issues.source || !issues.target) {
+      return;
+    }
+
+    const sourceChanged = issueFingerprint(issues.source) !== pair.sourceFingerprint;
+    const targetChanged = issueFingerprint(issues.target) !== pair.targetFingerprint;
+    const converged = issueFingerprint(issues.source) === issueFingerprint(issues.target);
+
+    let from: SyncSide | null = null;
+    if (sourceChanged && targetChanged && !converged) {
+      from = this.conflictStrategy === 'skip' ? null : this.conflictStrategy;
+      this.result.conflicts.push({ source: pair.source, target: pair.target, title: issues.source.title, resolvedWith: from || undefined });
+      logger.warn(`⚔️ ${this.names.source} #${pair.source} and ${this.names.target} #${pair.target} were both edited${from ? `; keeping the ${from} version` : '; skipped'}`, {
+        action: 'sync_conflict',
+        source: pair.source,
+        target: pair.target,
+        resolvedWith: from
+      });
+    } else if (sourceChanged && !targetChanged) {
+      from = 'source';
+    } else if (targetChanged && !sourceChanged && this.twoWay) {
+      from = 'target';
+    }
+
+    const counts = { comments: this.result.mirroredComments, prdVersions: this.result.mirroredPRDVersions };
+    if (from) {
+      await this.applyIssue(from, issues[from]!, issues[this.other(from)]!);
+    }
+    await this.syncComments(pair, issues.source, issues.target);
+    await this.syncPRDVersion({ source: pair.source, target: pair.target });
+
+    const touched = from !== null || counts.comments !== this.result.mirroredComments || counts.prdVersions !== this.result.mirroredPRDVersions;
+    if (!touched && !sourceChanged && !targetChanged) {
+      this.result.unchanged++;
+      return;
+    }
+    if (this.dryRun) {
+      return;
+    }
+
+    // Edits that were not mirrored (an unresolved conflict, target edits in a one-way sync) keep the
+    // old fingerprints, so they are still detected on the next run
+    const recorded = await this.recordPair(pair);
+    const inSync = from !== null || converged || (!sourceChanged && !targetChanged);
+    Object.assign(pair, inSync ? recorded : { ...recorded, sourceFingerprint: pair.sourceFingerprint, targetFingerprint: pair.targetFingerprint });
+    pair.conflict = sourceChanged && targetChanged && !inSync ? true : undefined;
+  }
+
+  /**
+   * Copy the fields that differ from one side's issue to the other's
+   */
+  private async applyIssue(from: SyncSide, issue: Issue, mirror: Issue): Promise<void> {
+    const body = mirrorBody(issue.body, mirror.body);
+    const updates: IssueUpdate = {
+      ...(issue.title !== mirror.title && { title: issue.title }),
+      ...(body !== mirror.body && { body }),
+      ...(issue.state !== mirror.state && { state: issue.state }),
+      ...([...issue.labels].sort().join('\n') !== [...mirror.labels].sort().join('\n') && { labels: issue.labels }),
+      ...((issue.milestone || null) !== (mirror.milestone || null) && { milestone: issue.milestone || null })
+    };
+    if (Object.keys(updates).length === 0) {
+      return;
+    }
+
+    this.result.updated.push({ from, issueNumber: issue.number, mirroredNumber: mirror.number, title: issue.title });
+    logger.info(`✏️ ${this.names[from]} #${issue.number} -> ${this.names[this.other(from)]} #${mirror.number}: ${Object.keys(updates).join(', ')}`, {
+      action: 'sync_issue_updated',
+      from,
+      issueNumber: issue.number,
+      mirroredNumber: mirror.number,
+      fields: Object.keys(updates)
+    });
+    if (!this.dryRun) {
+      await this.services[this.other(from)].updateIssue(mirror.number, updates);
+    }
+  }
+
+  /**
+   * Mirror comments added on either side since the last sync
+   */
+  private async syncComments(pair: SyncedIssuePair, source: Issue, target: Issue): Promise<void> {
+    const sides: SyncSide[] = this.twoWay ? ['source', 'target'] : ['source'];
+    for (const side of sides) {
+      const issue = side === 'source' ? source : target;
+      const known = new Set(side === 'source' ? pair.sourceComments : pair.targetComments);
+      for (const comment of (issue.comments || []).filter(candidate => !known.has(commentKey(candidate)))) {
+        await this.mirrorComment(side, issue.number, comment, pair[this.other(side)]);
+      }
+    }
+  }
+
+  private async mirrorComment(side: SyncSide, issueNumber: number, comment: Comment, mirroredNumber: number): Promise<void> {
+    this.result.mirroredComments++;
+    if (this.dryRun) {
+      return;
+    }
+    await this.services[this.other(side)].addComment(mirroredNumber,
+      `> 🔄 **${comment.author}** on ${this.names[side]} #${issueNumber} (${comment.created_at})\n\n${comment.body}`);
+  }
+
+  /**
+   * Copy the newer PRD version reference (with its content) to the side that lacks it
+   */
+  private async syncPRDVersion(numbers: Record<SyncSide, number>): Promise<void> {
+    const { source, target } = this.services;
+    if (!source.getPRDVersionReference || !target.getPRDVersionReference) {
+      return;
+    }
+
+    const references = {
+      source: await source.getPRDVersionReference(numbers.source),
+      target: await target.getPRDVersionReference(numbers.target)
+    };
+    let from: SyncSide | null = null;
+    if (references.source && (!references.target || (references.source.hash !== references.target.hash && references.source.storedAt >= references.target.storedAt))) {
+      from = 'source';
+    } else if (this.twoWay && references.target && (!references.source || references.source.hash !== references.target.hash)) {
+      from = 'target';
+    }
+    if (!from) {
+      return;
+    }
+
+    const to = this.other(from);
+    const content = await this.services[from].getPRDVersion?.(numbers[from]);
+    if (content === null || content === undefined || !this.services[to].storePRDVersion) {
+      return;
+    }
+
+    this.result.mirroredPRDVersions++;
+    logger.debug('PRD version mirrored', { action: 'sync_prd_version', from, issueNumber: numbers[from], hash: references[from]!.hash });
+    if (!this.dryRun) {
+      await this.services[to].storePRDVersion!(numbers[to], content, references[from]!.prdPath);
+    }
+  }
+
+  /**
+   * Pair state after syncing, read back from both services so their own normalization is included
+   */
+  private async recordPair(numbers: Record<SyncSide, number>): Promise<SyncedIssuePair> {
+    const source = await this.services.source.getIssue(numbers.source);
+    const target = await this.services.target.getIssue(numbers.target);
+    if (!source || !target) {
+      throw new Error(`Synced issues ${this.names.source} #${numbers.source} / ${this.names.target} #${numbers.target} could not be read back`);
+    }
+
+    return {
+      source: numbers.source,
+      target: numbers.target,
+      sourceFingerprint: issueFingerprint(source),
+      targetFingerprint: issueFingerprint(target),
+      sourceComments: (source.comments || []).map(commentKey),
+      targetComments: (target.comments || []).map(commentKey),
+      syncedAt: new Date().toISOString()
+    };
+  }
+}
@@ -0,0 +1,79 @@
+// utils/diff.test.ts
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createUnifiedDiff, diffLineArrays, diffLines, DiffLine } from './diff';
+
+function longestCommonSubsequence(a: string[], b: string[]): number {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      lengths[i][j] = a[i - 1] === b[j - 1] ? lengths[i - 1][j - 1] + 1 : Math.max(lengths[i - 1][j], lengths[i][j - 1]);
+    }
+  }
+  return lengths[a.length][b.length];
+}
+
+function assertValidScript(script: DiffLine[], oldLines: string[], newLines: string[]): void {
+  assert.deepEqual(script.filter(line => line.type !== 'insert').map(line => line.line), oldLines);
+  assert.deepEqual(script.filter(line => line.type !== 'delete').map(line => line.line), newLines);
+  for (const line of script) {
+    if (line.oldIndex !== undefined) assert.equal(oldLines[line.oldIndex], line.line);
+    if (line.newIndex !== undefined) assert.equal(newLines[line.newIndex], line.line);
+  }
+}
+
+test('finds a shortest edit script', () => {
+  // Deterministic pseudo-random inputs over a small alphabet, so lines repeat
+  let seed = 42;
+  const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+  const randomLines = () => Array.from({ length: Math.floor(random() * 12) }, () => 'abcd'[Math.floor(random() * 4)]);
+
+  for (let run = 0; run < 500; run++) {
+    const oldLines = randomLines();
+    const newLines = randomLines();
+    const script = diffLineArrays(oldLines, newLines);
+
+    assertValidScript(script, oldLines, newLines);
+    assert.equal(script.filter(line => line.type === 'equal').length, longestCommonSubsequence(oldLines, newLines),
+      `not minimal for ${JSON.stringify(oldLines)} -> ${JSON.stringify(newLines)}`);
+  }
+});
+
+test('diffs a full rewrite of a large document in linear space', () => {
+  const oldLines = Array.from({ length: 3000 }, (_, i) => `old line ${i}`);
+  const newLines = Array.from({ length: 3000 }, (_, i) => `new line ${i}`);
+  const heapBefore = process.memoryUsage().heapUsed;
+
+  const script = diffLineArrays(oldLines, newLines);
+
+  assertValidScript(script, oldLines, newLines);
+  assert.ok(process.memoryUsage().heapUsed - heapBefore < 64 * 1024 * 1024);
+});
+
+test('treats CRLF and LF line endings alike', () => {
+  assert.ok(diffLines('a\r\nb', 'a\nb').every(line => line.type === 'equal'));
+});
+
+test('renders hunks with context and 1-based ranges', () => {
+  const oldText = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n');
+  const newText = ['1', '2', '3', '4', 'five', '6', '7', '8', '9', '10', '11'].join('\n');
+
+  assert.equal(createUnifiedDiff(oldText, newText, { context: 1, oldLabel: 'old.md', newLabel: 'new.md' }), [
+    '--- old.md',
+    '+++ new.md',
+    '@@ -4,3 +4,3 @@',
+    ' 4',
+    '-5',
+    '+five',
+    ' 6',
+    '@@ -10 +10,2 @@',
+    ' 10',
+    '+11',
+    ''
+  ].join('\n'));
+});
+
+test('returns an empty diff for identical texts', () => {
+  assert.equal(createUnifiedDiff('same\ntext', 'same\ntext'), '');
+});
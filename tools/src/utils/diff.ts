@@ -0,0 +1,214 @@
+// utils/diff.ts
+// Line-based Myers diff producing unified-diff hunks with context.
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffLine {
+  type: DiffOperation;
+  line: string;
+  oldIndex?: number;
+  newIndex?: number;
+}
+
+export interface UnifiedDiffOptions {
+  context?: number;
+  oldLabel?: string;
+  newLabel?: string;
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * Compute the shortest edit script between two line arrays (Myers, O(ND) time and linear space).
+ * Each range is split at the middle of its edit path and both halves are diffed on their own, so
+ * only two frontiers of O(N+M) are kept instead of one per edit step.
+ */
+export function diffLineArrays(oldLines: string[], newLines: string[]): DiffLine[] {
+  const result: DiffLine[] = [];
+  diffRange(oldLines, 0, oldLines.length, newLines, 0, newLines.length, result);
+  return result;
+}
+
+function diffRange(oldLines: string[], oldStart: number, oldEnd: number, newLines: string[], newStart: number, newEnd: number, result: DiffLine[]): void {
+  // Common lines at either end are not part of any edit
+  while (oldStart < oldEnd && newStart < newEnd && oldLines[oldStart] === newLines[newStart]) {
+    result.push({ type: 'equal', line: oldLines[oldStart], oldIndex: oldStart, newIndex: newStart });
+    oldStart++;
+    newStart++;
+  }
+  let commonSuffix = 0;
+  while (oldStart < oldEnd - commonSuffix && newStart < newEnd - commonSuffix &&
+    oldLines[oldEnd - commonSuffix - 1] === newLines[newEnd - commonSuffix - 1]) {
+    commonSuffix++;
+  }
+  oldEnd -= commonSuffix;
+  newEnd -= commonSuffix;
+
+  const split = oldStart === oldEnd || newStart === newEnd ? null : findMiddleSnake(oldLines, oldStart, oldEnd, newLines, newStart, newEnd);
+  if (split) {
+    diffRange(oldLines, oldStart, split[0], newLines, newStart, split[1], result);
+    diffRange(oldLines, split[0], oldEnd, newLines, split[1], newEnd, result);
+  } else {
+    for (let x = oldStart; x < oldEnd; x++) {
+      result.push({ type: 'delete', line: oldLines[x], oldIndex: x });
+    }
+    for (let y = newStart; y < newEnd; y++) {
+      result.push({ type: 'insert', line: newLines[y], newIndex: y });
+    }
+  }
+
+  for (let i = 0; i < commonSuffix; i++) {
+    result.push({ type: 'equal', line: oldLines[oldEnd + i], oldIndex: oldEnd + i, newIndex: newEnd + i });
+  }
+}
+
+/**
+ * Point where the forward and backward searches of a range meet, in absolute line indexes, or null when
+ * the range has no line in common. The range is non-empty on both sides and starts and ends with a change.
+ */
+function findMiddleSnake(oldLines: string[], oldStart: number, oldEnd: number, newLines: string[], newStart: number, newEnd: number): [number, number] | null {
+  const n = oldEnd - oldStart;
+  const m = newEnd - newStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  // Furthest x reached on each diagonal k = x - y, forward from the start and backward from the end; -1 is unreached
+  const forward = new Int32Array(2 * maxD + 2).fill(-1);
+  const backward = new Int32Array(2 * maxD + 2).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet on a forward step, otherwise on a backward one
+  const meetForward = delta % 2 !== 0;
+  // Diagonals that ran off the edit graph are skipped from then on
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[oldStart + x] === newLines[newStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (meetForward) {
+        const backwardIndex = offset + delta - k;
+        if (backwardIndex >= 0 && backwardIndex < backward.length && backward[backwardIndex] !== -1 && x >= n - backward[backwardIndex]) {
+          return [oldStart + x, newStart + y];
+        }
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+        ? backward[offset + k + 1]
+        : backward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[oldEnd - x - 1] === newLines[newEnd - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!meetForward) {
+        const forwardIndex = offset + delta - k;
+        if (forwardIndex >= 0 && forwardIndex < forward.length && forward[forwardIndex] !== -1) {
+          const forwardX = forward[forwardIndex];
+          if (forwardX >= n - x) {
+            return [oldStart + forwardX, newStart + forwardX - (forwardIndex - offset)];
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  return diffLineArrays(splitLines(oldText), splitLines(newText));
+}
+
+function formatRange(start: number, count: number): string {
+  // Unified diff ranges are 1-based; an empty range points at the line before it
+  const displayStart = count === 0 ? start : start + 1;
+  return count === 1 ? `${displayStart}` : `${displayStart},${count}`;
+}
+
+/**
+ * Produce a unified diff (`---`/`+++` headers and `@@` hunks). Returns an empty string if nothing changed.
+ */
+export function createUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+  const context = options.context ?? 3;
+  const lines = diffLines(oldText, newText);
+
+  const changeIndexes = lines
+    .map((line, index) => line.type === 'equal' ? -1 : index)
+    .filter(index => index >= 0);
+
+  if (changeIndexes.length === 0) {
+    return '';
+  }
+
+  // Group changes whose context windows overlap into hunks
+  const hunks: Array<{ start: number; end: number }> = [];
+  for (const index of changeIndexes) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  }
+
+  const output = [
+    `--- ${options.oldLabel ?? 'a'}`,
+    `+++ ${options.newLabel ?? 'b'}`
+  ];
+
+  for (const hunk of hunks) {
+    const hunkLines = lines.slice(hunk.start, hunk.end + 1);
+
+    // Position of the hunk in each file: count lines consumed before it
+    let oldStart = 0;
+    let newStart = 0;
+    for (const line of lines.slice(0, hunk.start)) {
+      if (line.type !== 'insert') oldStart++;
+      if (line.type !== 'delete') newStart++;
+    }
+
+    const oldCount = hunkLines.filter(line => line.type !== 'insert').length;
+    const newCount = hunkLines.filter(line => line.type !== 'delete').length;
+
+    output.push(`@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`);
+    for (const line of hunkLines) {
+      const prefix = line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' ';
+      output.push(`${prefix}${line.line}`);
+    }
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * True for unified diff header lines that are not content changes
+ */
+export function isDiffHeaderLine(line: string): boolean {
+  return line.startsWith('--- ') || line.startsWith('+++ ') || line.startsWith('@@');
+}
@@ -0,0 +1,16 @@
+import * as crypto from 'crypto';
+
+/**
+ * Short sha256 content hash used to identify PRD snapshots and generated content
+ */
+export function generateContentHash(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+}
+
+/**
+ * Git blob sha of the content, i.e. the object id git assigns to a file with this content
+ */
+export function gitBlobSha(content: string): string {
+  const data = Buffer.from(content, 'utf8');
+  return crypto.createHash('sha1').update(`blob ${data.length}\0`).update(data).digest('hex');
+}
@@ -0,0 +1,55 @@
+// utils/issueLinks.ts
+
+import { IssueLink, IssueLinkType } from '../services/interfaces/IIssueService';
+
+const INVERSE_LINK_TYPES: Record<IssueLinkType, IssueLinkType> = {
+  'blocks': 'blocked-by',
+  'blocked-by': 'blocks',
+  'relates-to': 'relates-to',
+  'supersedes': 'superseded-by',
+  'superseded-by': 'supersedes'
+};
+
+const LINK_TYPE_LABELS: Record<IssueLinkType, string> = {
+  'blocks': 'Blocks',
+  'blocked-by': 'Blocked by',
+  'relates-to': 'Relates to',
+  'supersedes': 'Supersedes',
+  'superseded-by': 'Superseded by'
+};
+
+export const ISSUE_LINK_TYPES = Object.keys(INVERSE_LINK_TYPES) as IssueLinkType[];
+
+export function inverseLinkType(type: IssueLinkType): IssueLinkType {
+  return INVERSE_LINK_TYPES[type];
+}
+
+export function formatLinkType(type: IssueLinkType): string {
+  return LINK_TYPE_LABELS[type];
+}
+
+export function isIssueLinkType(value: string): value is IssueLinkType {
+  return value in INVERSE_LINK_TYPES;
+}
+
+/**
+ * Add a link to a list, ignoring duplicates
+ */
+export function addLink(links: IssueLink[] | undefined, link: IssueLink): IssueLink[] {
+  const current = links || [];
+  if (current.some(existing => existing.type === link.type && existing.issueNumber === link.issueNumber)) {
+    return current;
+  }
+  return [...current, link];
+}
+
+export function removeLink(links: IssueLink[] | undefined, link: IssueLink): IssueLink[] {
+  return (links || []).filter(existing => !(existing.type === link.type && existing.issueNumber === link.issueNumber));
+}
+
+/**
+ * Markdown list of links, e.g. "- Blocked by #12"
+ */
+export function renderLinks(links: IssueLink[]): string {
+  return links.map(link => `- ${formatLinkType(link.type)} #${link.issueNumber}`).join('\n');
+}
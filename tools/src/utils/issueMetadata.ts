@@ -0,0 +1,61 @@
+// utils/issueMetadata.ts
+// Machine-readable metadata kept in a hidden HTML comment at the end of generated issue bodies.
+
+import type { IssueLink } from '../services/interfaces/IIssueService';
+
+export interface IssuePRDVersion {
+  /** Content hash (see generateContentHash) */
+  hash: string;
+  /** Git blob sha, to read the content back from the repository */
+  blobSha: string;
+  path: string;
+  timestamp: string;
+}
+
+export interface IssueMetadata {
+  /** Ids of the PRD sections the issue was derived from */
+  prdSections?: string[];
+  /** Id of the PRD the issue was generated from */
+  prdId?: string;
+  /** Typed links, for backends without native issue relationships */
+  links?: IssueLink[];
+  /** PRD version the issue was last generated from, for backends without PRD version storage */
+  prdVersion?: IssuePRDVersion;
+  [key: string]: unknown;
+}
+
+const METADATA_PATTERN = /\n*<!-- eightgent:metadata ([\s\S]*?) -->\s*$/;
+
+export function readIssueMetadata(body: string): IssueMetadata {
+  const match = body.match(METADATA_PATTERN);
+  if (!match) {
+    return {};
+  }
+  try {
+    return JSON.parse(match[1]) as IssueMetadata;
+  } catch {
+    return {};
+  }
+}
+
+export function stripIssueMetadata(body: string): string {
+  return body.replace(METADATA_PATTERN, '');
+}
+
+/**
+ * Replace the metadata block of a body (the visible text is left untouched)
+ */
+export function writeIssueMetadata(body: string, metadata: IssueMetadata): string {
+  const visible = stripIssueMetadata(body);
+  if (Object.keys(metadata).length === 0) {
+    return visible;
+  }
+  return `${visible}\n\n<!-- eightgent:metadata ${JSON.stringify(metadata)} -->`;
+}
+
+/**
+ * Merge fields into the existing metadata block of a body
+ */
+export function updateIssueMetadata(body: string, updates: IssueMetadata): string {
+  return writeIssueMetadata(body, { ...readIssueMetadata(body), ...updates });
+}
@@ -0,0 +1,26 @@
+// utils/issueSections.ts
+// Reading the `### Heading` sections of issue bodies generated from the feature templates.
+
+/**
+ * Text of the section under `### <heading>` up to the next heading or `---` rule; null when absent
+ */
+export function readIssueSection(body: string, heading: string): string | null {
+  const lines = body.split('\n');
+  const start = lines.findIndex(line => line.trim().toLowerCase() === `### ${heading.toLowerCase()}`);
+  if (start === -1) {
+    return null;
+  }
+
+  const end = lines.findIndex((line, index) => index > start && (/^#{1,3} /.test(line) || line.trim() === '---'));
+  return lines.slice(start + 1, end === -1 ? undefined : end).join('\n').trim();
+}
+
+/**
+ * Items of a markdown list or checklist (`- [ ] item`, `- item`, `* item`)
+ */
+export function readListItems(section: string): string[] {
+  return section
+    .split('\n')
+    .map(line => line.match(/^\s*[-*]\s+(?:\[[ xX]\]\s+)?(.*)$/)?.[1]?.trim())
+    .filter((item): item is string => !!item);
+}
@@ -10,6 +10,11 @@ const LOG_LEVELS = {
   verbose: 4
 };
 
+// The console shows info and above; a stricter LOG_LEVEL (warn, error) quiets it as well
+const CONSOLE_LEVEL = process.env.LOG_LEVEL && LOG_LEVELS[process.env.LOG_LEVEL as keyof typeof LOG_LEVELS] < LOG_LEVELS.info
+  ? process.env.LOG_LEVEL
+  : 'info';
+
 // Create logs directory path
 const logsDir = path.join(__dirname, '../../../logs');
 
@@ -71,7 +76,7 @@ const logger = winston.createLogger({
     // Console transport - only show info and above by default
     new winston.transports.Console({
       format: consoleFormat,
-      level: 'info' // Always info level for console, debug goes to files only
+      level: CONSOLE_LEVEL // Never below info for console, debug goes to files only
     })
   ],
 
@@ -181,6 +186,8 @@ export function setLogLevel(level: 'error' | 'warn' | 'info' | 'debug' | 'verbos
   if (consoleTransport) {
     if (level === 'debug' || level === 'verbose') {
       (consoleTransport as any).level = 'debug'; // Show debug in console for verbose mode
+    } else if (level === 'warn' || level === 'error') {
+      (consoleTransport as any).level = level;
     } else {
       (consoleTransport as any).level = 'info'; // Default: only info and above in console
     }
@@ -0,0 +1,55 @@
+// utils/merge.test.ts
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { mergeThreeWay } from './merge';
+
+const BASE = ['## Login', '', '- [ ] Email and password', '- [ ] Lock after 5 attempts', '', 'Notes: none'].join('\n');
+
+test('takes changes made on one side only', () => {
+  const ours = BASE.replace('Notes: none', 'Notes: see #12');
+  const theirs = BASE.replace('5 attempts', '3 attempts');
+
+  const result = mergeThreeWay(BASE, ours, theirs);
+
+  assert.equal(result.conflicts, 0);
+  assert.equal(result.text, BASE.replace('Notes: none', 'Notes: see #12').replace('5 attempts', '3 attempts'));
+});
+
+test('keeps identical changes once', () => {
+  const changed = BASE.replace('5 attempts', '3 attempts');
+
+  assert.deepEqual(mergeThreeWay(BASE, changed, changed), { text: changed, conflicts: 0 });
+});
+
+test('keeps a line added next to a line changed on the other side', () => {
+  const ours = BASE.replace('- [ ] Email and password', '- [x] Email and password');
+  const theirs = BASE.replace('- [ ] Email and password', '- [ ] Email and password\n- [ ] Passkeys');
+
+  const result = mergeThreeWay(BASE, ours, theirs);
+
+  assert.equal(result.conflicts, 0);
+  assert.match(result.text, /- \[x\] Email and password\n- \[ \] Passkeys/);
+});
+
+test('marks conflicting changes with labels', () => {
+  const ours = BASE.replace('5 attempts', '10 attempts');
+  const theirs = BASE.replace('5 attempts', '3 attempts');
+
+  const result = mergeThreeWay(BASE, ours, theirs, { ours: 'issue', theirs: 'PRD' });
+
+  assert.equal(result.conflicts, 1);
+  assert.match(result.text, /<<<<<<< issue\n- \[ \] Lock after 10 attempts\n=======\n- \[ \] Lock after 3 attempts\n>>>>>>> PRD/);
+});
+
+test('conflicts on changes to adjacent lines', () => {
+  const ours = BASE.replace('- [ ] Email and password', '- [x] Email and password');
+  const theirs = BASE.replace('5 attempts', '3 attempts');
+
+  assert.equal(mergeThreeWay(BASE, ours, theirs).conflicts, 1);
+});
+
+test('keeps lines both sides added to an empty base', () => {
+  assert.deepEqual(mergeThreeWay('', 'same', 'same'), { text: 'same', conflicts: 0 });
+  assert.deepEqual(mergeThreeWay('', 'ours', 'theirs'), { text: 'ours\ntheirs', conflicts: 0 });
+});
@@ -0,0 +1,126 @@
+// utils/merge.ts
+// Line-based three-way merge (diff3) on top of the Myers diff in utils/diff.ts.
+
+import { diffLineArrays } from './diff';
+
+export interface MergeResult {
+  /** Merged text; conflicting regions are wrapped in `<<<<<<<` / `=======` / `>>>>>>>` markers */
+  text: string;
+  conflicts: number;
+}
+
+export interface MergeLabels {
+  ours?: string;
+  theirs?: string;
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * For every base line, the index of the same line in the other version, or -1 if it was changed
+ */
+function matchBaseLines(base: string[], other: string[]): number[] {
+  const matches = new Array<number>(base.length).fill(-1);
+  for (const line of diffLineArrays(base, other)) {
+    if (line.type === 'equal') {
+      matches[line.oldIndex!] = line.newIndex!;
+    }
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Lines `other` added before and after an otherwise untouched `base` region, or null if it changed the region
+ */
+function insertionsAround(base: string[], other: string[]): { before: string[]; after: string[] } | null {
+  for (let start = 0; start + base.length <= other.length; start++) {
+    if (sameLines(other.slice(start, start + base.length), base)) {
+      return { before: other.slice(0, start), after: other.slice(start + base.length) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Combine a region changed on both sides when one side only added lines around the base text,
+ * e.g. a new acceptance criterion next to one that was checked off
+ */
+function combineInsertions(base: string[], ours: string[], theirs: string[]): string[] | null {
+  const theirInsertions = insertionsAround(base, theirs);
+  if (theirInsertions) {
+    return [...theirInsertions.before, ...ours, ...theirInsertions.after];
+  }
+  const ourInsertions = insertionsAround(base, ours);
+  if (ourInsertions) {
+    return [...ourInsertions.before, ...theirs, ...ourInsertions.after];
+  }
+  return null;
+}
+
+/**
+ * Merge the changes from `base` to `ours` and from `base` to `theirs`. Regions changed on only one side
+ * take that side; regions changed identically on both sides are kept once; anything else is a conflict.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string, labels: MergeLabels = {}): MergeResult {
+  const baseLines = splitLines(base);
+  const ourLines = splitLines(ours);
+  const theirLines = splitLines(theirs);
+  const ourMatches = matchBaseLines(baseLines, ourLines);
+  const theirMatches = matchBaseLines(baseLines, theirLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let baseIndex = 0;
+  let ourIndex = 0;
+  let theirIndex = 0;
+
+  while (true) {
+    // Next base line left untouched by both sides; everything before it is a change region
+    let stable = baseIndex;
+    while (stable < baseLines.length && (ourMatches[stable] === -1 || theirMatches[stable] === -1)) {
+      stable++;
+    }
+    const ourEnd = stable < baseLines.length ? ourMatches[stable] : ourLines.length;
+    const theirEnd = stable < baseLines.length ? theirMatches[stable] : theirLines.length;
+
+    const baseRegion = baseLines.slice(baseIndex, stable);
+    const ourRegion = ourLines.slice(ourIndex, ourEnd);
+    const theirRegion = theirLines.slice(theirIndex, theirEnd);
+
+    if (sameLines(ourRegion, baseRegion) || sameLines(ourRegion, theirRegion)) {
+      output.push(...theirRegion);
+    } else if (sameLines(theirRegion, baseRegion)) {
+      output.push(...ourRegion);
+    } else {
+      const combined = combineInsertions(baseRegion, ourRegion, theirRegion);
+      if (combined) {
+        output.push(...combined);
+      } else {
+        conflicts++;
+        output.push(
+          `<<<<<<< ${labels.ours ?? 'ours'}`,
+          ...ourRegion,
+          '=======',
+          ...theirRegion,
+          `>>>>>>> ${labels.theirs ?? 'theirs'}`
+        );
+      }
+    }
+
+    if (stable >= baseLines.length) {
+      break;
+    }
+    output.push(baseLines[stable]);
+    baseIndex = stable + 1;
+    ourIndex = ourEnd + 1;
+    theirIndex = theirEnd + 1;
+  }
+
+  return { text: output.join('\n'), conflicts };
+}
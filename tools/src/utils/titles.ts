@@ -0,0 +1,30 @@
+// utils/titles.ts
+
+/**
+ * Remove the `[TECHNICAL] ` style prefix added to generated issue titles
+ */
+export function stripTypePrefix(title: string): string {
+  return title.replace(/^\[[A-Z-]+\]\s*/, '');
+}
+
+/**
+ * Comparable form of a title: no type prefix, case, punctuation or extra whitespace
+ */
+export function normalizeTitle(title: string): string {
+  return stripTypePrefix(title)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the issue a free-text feature reference points to: exact normalized title first, then containment
+ */
+export function findIssueByTitle<T extends { title: string }>(reference: string, issues: T[]): T | undefined {
+  const key = normalizeTitle(reference);
+  if (!key) {
+    return undefined;
+  }
+  return issues.find(issue => normalizeTitle(issue.title) === key)
+    || issues.find(issue => normalizeTitle(issue.title).includes(key));
+}